@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { cancelStep } from "@/lib/step-cancellation";
+
+// Pede o cancelamento da etapa com o token informado, nesta ou em outra instância. A resposta
+// da etapa segue aberta e entrega o evento "cancelled"; aqui só se confirma que a etapa foi
+// encontrada.
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  let token: unknown;
+  try {
+    token = (await request.json()).token;
+  } catch {
+    token = undefined;
+  }
+  if (typeof token !== "string" || !token) {
+    return NextResponse.json({ error: "Token da etapa não informado." }, { status: 400 });
+  }
+
+  const found = await cancelStep(session.shop, token);
+  if (!found) console.error(`[cancel] Nenhuma etapa em andamento para ${session.shop}`);
+  return NextResponse.json({ success: found });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { parseColumnMapping } from "@/lib/column-mapping";
+import {
+  deleteMappingProfile,
+  listMappingProfiles,
+  saveMappingProfile,
+} from "@/lib/mapping-profiles";
+
+const MAX_NAME_LENGTH = 80;
+
+function errorResponse(err: unknown) {
+  const msg = err instanceof Error ? err.message : "Erro interno";
+  console.error("[column-mapping] Erro:", msg);
+  return NextResponse.json({ error: msg }, { status: 500 });
+}
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const profiles = await listMappingProfiles(session.shop);
+    return NextResponse.json({ profiles });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const mapping = parseColumnMapping(body.mapping);
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Nome do perfil é obrigatório (máx. ${MAX_NAME_LENGTH} caracteres).` },
+        { status: 400 }
+      );
+    }
+    if (!mapping) {
+      return NextResponse.json({ error: "Mapeamento vazio ou inválido." }, { status: 400 });
+    }
+
+    const profile = await saveMappingProfile(session.shop, name, mapping);
+    return NextResponse.json({ profile });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  const name = request.nextUrl.searchParams.get("name")?.trim();
+  if (!name) {
+    return NextResponse.json({ error: "Parâmetro name é obrigatório." }, { status: 400 });
+  }
+
+  try {
+    await deleteMappingProfile(session.shop, name);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -1,29 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
 import { ShopifyClient } from "@/lib/shopify";
+import { listThemes, readThemeFiles } from "@/lib/admin-operations";
 
-const THEME_FILES_QUERY = `
-  query themeFiles($themeId: ID!) {
-    theme(id: $themeId) {
-      id
-      name
-      role
-      files(filenames: [
-        "config/settings_data.json",
-        "config/settings_schema.json",
-        "templates/index.json",
-        "layout/theme.liquid"
-      ], first: 10) {
-        nodes {
-          filename
-          body {
-            ... on OnlineStoreThemeFileBodyText { content }
-          }
-        }
-      }
-    }
-  }
-`;
+const DEBUG_FILES = [
+  "config/settings_data.json",
+  "config/settings_schema.json",
+  "templates/index.json",
+  "layout/theme.liquid",
+];
 
 export async function POST(request: NextRequest) {
   const session = await getSession();
@@ -39,33 +24,25 @@ export async function POST(request: NextRequest) {
     }
 
     const client = new ShopifyClient(session.shop, session.accessToken);
-    const data = await client.graphql(THEME_FILES_QUERY, { themeId });
-
-    const result = data as {
-      theme: {
-        id: string;
-        name: string;
-        role: string;
-        files: {
-          nodes: { filename: string; body?: { content?: string } }[];
-        };
-      };
-    };
+    const theme = (await listThemes(client)).find((t) => t.id === themeId);
+    const contents = theme ? await readThemeFiles(client, theme.id, DEBUG_FILES) : null;
+    if (!theme || !contents) {
+      return NextResponse.json({ error: "Tema não encontrado." }, { status: 404 });
+    }
 
     const files: Record<string, string | null> = {};
-    for (const node of result.theme.files.nodes) {
-      const content = node.body?.content || null;
-      files[node.filename] = content;
-      console.log(`\n========== ${node.filename} ==========`);
+    contents.forEach((content, filename) => {
+      files[filename] = content || null;
+      console.log(`\n========== ${filename} ==========`);
       console.log(content || "(sem conteúdo)");
-      console.log(`========== FIM ${node.filename} ==========\n`);
-    }
+      console.log(`========== FIM ${filename} ==========\n`);
+    });
 
     return NextResponse.json({
       theme: {
-        id: result.theme.id,
-        name: result.theme.name,
-        role: result.theme.role,
+        id: theme.id,
+        name: theme.name,
+        role: theme.role,
       },
       files,
     });
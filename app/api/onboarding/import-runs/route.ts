@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getImportRun, getLatestImportRun } from "@/lib/import-runs";
+
+// Estado de uma importação do step2 (?id=) ou da mais recente da loja, para reconectar
+// a uma importação em andamento ou oferecer a retomada.
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    const run = id ? await getImportRun(session.shop, id) : await getLatestImportRun(session.shop);
+    if (!run) {
+      return NextResponse.json({ error: "Importação não encontrada." }, { status: 404 });
+    }
+    return NextResponse.json({ run });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Erro interno";
+    console.error("[import-runs] Erro:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
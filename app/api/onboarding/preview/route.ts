@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { validateProductRows } from "@/lib/csv-parser";
+import { readImportFile, readImportOptions } from "@/lib/import-source";
+import { buildCatalogPreviewPage } from "@/lib/catalog-preview";
+import { parsePriceRules } from "@/lib/price-rules";
+import { parseSanitizerOptions } from "@/lib/html-sanitizer";
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const csvFile = formData.get("csv") as File | null;
+    if (!csvFile) {
+      return NextResponse.json({ error: "CSV não fornecido." }, { status: 400 });
+    }
+
+    const { headers, rows } = await readImportFile(csvFile, readImportOptions(formData));
+    const { issues } = validateProductRows(headers, rows);
+
+    const preview = await buildCatalogPreviewPage(rows, issues, {
+      page: parseInt(formData.get("page") as string, 10) || 1,
+      pageSize: parseInt(formData.get("pageSize") as string, 10) || undefined,
+      query: (formData.get("q") as string | null) || "",
+      priceRules: parsePriceRules(formData.get("priceRules")),
+      sanitizer: parseSanitizerOptions(formData.get("sanitizer")),
+    });
+
+    return NextResponse.json(preview);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Erro interno";
+    console.error("[preview] Erro:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
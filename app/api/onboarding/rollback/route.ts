@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { ShopifyClient, forEachConcurrent } from "@/lib/shopify";
+import {
+  getOnboardingRun,
+  listLedgerEntries,
+  markLedgerEntriesUndone,
+  updateOnboardingRun,
+  type LedgerEntry,
+  type LedgerKind,
+} from "@/lib/onboarding-ledger";
+import {
+  deleteCollection,
+  deleteFiles,
+  deleteMenu,
+  deleteMetafieldDefinition,
+  deletePage,
+  deleteProduct,
+  deleteTheme,
+  publishTheme,
+  updateMenu,
+  type UserError,
+} from "@/lib/admin-operations";
+import type { MenuItemType, MenuItemUpdateInput } from "@/types/admin-api.generated";
+
+const KIND_LABELS: Record<LedgerKind, string> = {
+  product: "Produto",
+  metafield_definition: "Definição de metafield",
+  collection: "Coleção",
+  theme: "Tema",
+  theme_publish: "Tema publicado",
+  file: "Arquivo",
+  page: "Página",
+  menu: "Menu",
+  menu_update: "Menu alterado",
+};
+
+interface SavedMenuItem {
+  title: string;
+  type: MenuItemType;
+  url: string | null;
+  resourceId: string | null;
+  tags?: string[];
+  items?: SavedMenuItem[];
+}
+
+// Os ids dos itens antigos não existem mais: os itens voltam como novos.
+function toMenuItemInput(item: SavedMenuItem): MenuItemUpdateInput {
+  return {
+    title: item.title,
+    type: item.type,
+    ...(item.resourceId ? { resourceId: item.resourceId } : item.url ? { url: item.url } : {}),
+    tags: item.tags || [],
+    items: (item.items || []).map(toMenuItemInput),
+  };
+}
+
+async function undoMutation(client: ShopifyClient, entry: LedgerEntry): Promise<UserError[]> {
+  const id = entry.resourceId;
+  switch (entry.kind) {
+    case "product":
+      return deleteProduct(client, id);
+    case "metafield_definition":
+      return deleteMetafieldDefinition(client, id);
+    case "collection":
+      return deleteCollection(client, id);
+    case "theme":
+      return deleteTheme(client, id);
+    case "theme_publish":
+      return (await publishTheme(client, entry.previous?.themeId as string)).userErrors;
+    case "file":
+      return deleteFiles(client, [id]);
+    case "page":
+      return deletePage(client, id);
+    case "menu":
+      return deleteMenu(client, id);
+    case "menu_update":
+      return updateMenu(client, {
+        id,
+        title: entry.previous?.title as string,
+        items: ((entry.previous?.items as SavedMenuItem[] | undefined) || []).map(toMenuItemInput),
+      });
+  }
+}
+
+// Recurso já removido à mão conta como desfeito.
+function isAlreadyGone(message: string): boolean {
+  return /does not exist|not found|could not find|não existe/i.test(message);
+}
+
+async function undoEntry(client: ShopifyClient, entry: LedgerEntry): Promise<string | null> {
+  if (entry.kind === "theme_publish" && !entry.previous?.themeId) return "tema anterior não registrado";
+  const userErrors = await undoMutation(client, entry);
+  const messages = userErrors.map((e) => e.message).filter((m) => !isAlreadyGone(m));
+  return messages.length > 0 ? messages.join("; ") : null;
+}
+
+// Desfaz o que a execução registrou, do último recurso para o primeiro: o tema MAIN anterior
+// volta antes de o tema do onboarding ser apagado, e os menus antes das páginas. Entradas
+// já desfeitas são puladas, então o rollback pode ser repetido depois de uma falha.
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const { runId } = await request.json();
+    const run = typeof runId === "string" ? await getOnboardingRun(session.shop, runId) : null;
+    if (!run) {
+      return NextResponse.json(
+        { success: false, message: "Execução não encontrada.", errors: [] },
+        { status: 404 }
+      );
+    }
+
+    const client = new ShopifyClient(session.shop, session.accessToken);
+    const entries = (await listLedgerEntries(run.id)).filter((e) => !e.undoneAt).reverse();
+    const errors: { item: string; reason: string }[] = [];
+    const undone: number[] = [];
+
+    // Entradas seguidas do mesmo tipo (ex: centenas de produtos) são desfeitas em paralelo.
+    for (let start = 0; start < entries.length; ) {
+      let end = start + 1;
+      while (end < entries.length && entries[end].kind === entries[start].kind) end++;
+      const group = entries.slice(start, end);
+      start = end;
+
+      await forEachConcurrent(group, client.maxConcurrency, async (entry) => {
+        const item = `${KIND_LABELS[entry.kind]} ${entry.resourceId}`;
+        try {
+          const reason = await undoEntry(client, entry);
+          if (reason) {
+            console.error(`[rollback] ${item}:`, reason);
+            errors.push({ item, reason });
+          } else {
+            undone.push(entry.id);
+          }
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : "Erro";
+          console.error(`[rollback] ${item} exceção:`, reason);
+          errors.push({ item, reason });
+        }
+      });
+    }
+
+    await markLedgerEntriesUndone(undone);
+    if (errors.length === 0) await updateOnboardingRun(run.id, "rolled_back");
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      undone: undone.length,
+      failed: errors.length,
+      errors,
+      message:
+        errors.length === 0
+          ? `${undone.length} alterações desfeitas`
+          : `${undone.length} desfeitas, ${errors.length} falharam`,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Erro interno";
+    console.error("[rollback] Erro fatal:", msg);
+    return NextResponse.json(
+      { success: false, message: msg, errors: [] },
+      { status: 500 }
+    );
+  }
+}
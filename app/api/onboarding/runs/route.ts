@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { createOnboardingRun } from "@/lib/onboarding-ledger";
+
+// Abre uma execução do onboarding; a página envia o id no header X-Onboarding-Run de cada
+// etapa para que os recursos criados entrem no registro usado pelo rollback.
+export async function POST() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Não autenticado." }, { status: 401 });
+  }
+
+  try {
+    const runId = await createOnboardingRun(session.shop);
+    return NextResponse.json({ runId });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Erro interno";
+    console.error("[runs] Erro:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
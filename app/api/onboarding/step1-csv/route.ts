@@ -1,6 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { validateCSV } from "@/lib/csv-parser";
+import { validateCSV, describeDelimiter } from "@/lib/csv-parser";
+import { validateImportFile, readImportOptions } from "@/lib/import-source";
+import { getImportProfile } from "@/lib/import-profiles";
+import { suggestColumnMapping, type ColumnMapping } from "@/lib/column-mapping";
+import type { CsvValidationResult } from "@/types/onboarding";
+
+function summarizeErrors(errors: string[]): string {
+  const shown = errors.slice(0, 3).join("; ");
+  return errors.length > 3 ? `${shown} (+${errors.length - 3} erros)` : shown;
+}
+
+function describeSource(result: CsvValidationResult): string {
+  const profile = getImportProfile(result.profile);
+  const origin = profile ? `perfil ${profile.label}, ` : "";
+  if (result.format === "csv") {
+    return `${origin}delimitador ${describeDelimiter(result.delimiter || ",")}, codificação ${result.encoding}`;
+  }
+  return `${origin}planilha ${result.format.toUpperCase()}, aba "${result.sheet}"`;
+}
 
 export async function POST(request: NextRequest) {
   const session = await getSession();
@@ -9,21 +27,43 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { csvText } = await request.json();
+    // O arquivo bruto (multipart) permite detectar codificação e formato no servidor;
+    // csvText em JSON já chega decodificado pelo navegador.
+    let result: CsvValidationResult | null = null;
+    let mapping: ColumnMapping | undefined;
+
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const csvFile = formData.get("csv") as File | null;
+      if (csvFile) {
+        const options = readImportOptions(formData);
+        mapping = options.mapping;
+        result = await validateImportFile(csvFile, options);
+      }
+    } else {
+      const body = await request.json();
+      if (typeof body.csvText === "string" && body.csvText) {
+        result = validateCSV(body.csvText);
+      }
+    }
 
-    if (!csvText || typeof csvText !== "string") {
+    if (!result) {
       return NextResponse.json(
         { success: false, errors: ["CSV não fornecido."], warnings: [], message: "CSV não fornecido." },
         { status: 400 }
       );
     }
 
-    const result = validateCSV(csvText);
+    const detected = describeSource(result) + (mapping ? ", mapeamento de colunas aplicado" : "");
     return NextResponse.json({
       ...result,
+      mapping,
+      // Sugestão para o editor de colunas quando o arquivo não segue o padrão Shopify.
+      suggestedMapping: mapping ? undefined : suggestColumnMapping(result.sourceHeaders || []),
       message: result.success
-        ? `${result.totalProducts} produtos encontrados no CSV`
-        : `Validação falhou: ${(result.errors || []).join("; ")}`,
+        ? `${result.totalProducts} produtos encontrados no arquivo (${detected})`
+        : `Validação falhou (${detected}): ${summarizeErrors(result.errors || [])}`,
     });
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Erro interno";
@@ -0,0 +1,135 @@
+import { ShopifyClient } from "@/lib/shopify";
+import type { StepCancellation } from "@/lib/step-cancellation";
+import {
+  cancelBulkOperation,
+  createStagedUploads,
+  getBulkOperation,
+  parseBulkMutationResponse,
+  runBulkOperation,
+  type BulkMutation,
+  type BulkMutationResponse,
+  type BulkOperation,
+} from "@/lib/admin-operations";
+
+const BULK_POLL_INTERVAL_MS = 3000;
+const BULK_POLL_TIMEOUT_MS = 3 * 60 * 60 * 1000;
+
+export interface BulkMutationResult<T> {
+  status: BulkOperation["status"];
+  errorCode: string | null;
+  // Resposta de cada linha do JSONL de entrada, pela posição (__lineNumber).
+  responses: (BulkMutationResponse<T> | undefined)[];
+}
+
+async function uploadVariables(client: ShopifyClient, lines: unknown[]): Promise<string> {
+  const staged = await createStagedUploads(client, [
+    {
+      resource: "BULK_MUTATION_VARIABLES",
+      filename: "bulk-variables.jsonl",
+      mimeType: "text/jsonl",
+      httpMethod: "POST",
+    },
+  ]);
+  if (staged.userErrors.length > 0) {
+    throw new Error(`stagedUploadsCreate: ${staged.userErrors.map((e) => e.message).join("; ")}`);
+  }
+  const target = staged.stagedTargets[0];
+  if (!target) throw new Error("stagedUploadsCreate não retornou destino de upload");
+
+  const formData = new FormData();
+  target.parameters.forEach((p) => formData.append(p.name, p.value));
+  const jsonl = lines.map((line) => JSON.stringify(line)).join("\n");
+  formData.append("file", new Blob([jsonl], { type: "text/jsonl" }), "bulk-variables.jsonl");
+
+  const uploadRes = await fetch(target.url, { method: "POST", body: formData });
+  if (!uploadRes.ok) throw new Error(`Upload do JSONL falhou: ${uploadRes.status}`);
+
+  // bulkOperationRunMutation recebe o "key" do upload, não a URL
+  const key = target.parameters.find((p) => p.name === "key")?.value;
+  if (!key) throw new Error("stagedUploadsCreate não retornou o parâmetro key");
+  return key;
+}
+
+// Com a etapa cancelada, pede o cancelamento e segue até a operação parar: o que já foi
+// processado chega em partialDataUrl.
+async function waitForBulkOperation(
+  client: ShopifyClient,
+  id: string,
+  onProgress: (objectCount: number) => void,
+  cancellation?: StepCancellation
+): Promise<BulkOperation> {
+  const deadline = Date.now() + BULK_POLL_TIMEOUT_MS;
+  let cancelRequested = false;
+  while (Date.now() < deadline) {
+    if (!cancelRequested && cancellation && (await cancellation.checkpoint())) {
+      cancelRequested = true;
+      try {
+        const userErrors = await cancelBulkOperation(client, id);
+        console.error(
+          `[step2] Bulk operation ${id}: ` +
+            (userErrors.length > 0
+              ? `cancelamento recusado (${userErrors.map((e) => e.message).join("; ")})`
+              : "cancelamento solicitado")
+        );
+      } catch (err) {
+        console.error(`[step2] bulkOperationCancel ${id}:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    const operation = await getBulkOperation(client, id);
+    if (!operation) throw new Error(`Bulk operation ${id} não encontrada`);
+
+    onProgress(Number(operation.objectCount) || 0);
+    if (operation.status !== "CREATED" && operation.status !== "RUNNING" && operation.status !== "CANCELING") {
+      return operation;
+    }
+    await new Promise((r) => setTimeout(r, BULK_POLL_INTERVAL_MS));
+  }
+  throw new Error(`Bulk operation ${id} não terminou no tempo limite`);
+}
+
+async function downloadResults<T, TVariables>(
+  mutation: BulkMutation<T, TVariables>,
+  url: string,
+  total: number
+): Promise<BulkMutationResult<T>["responses"]> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Download do resultado falhou: ${res.status}`);
+
+  const responses: BulkMutationResult<T>["responses"] = new Array(total);
+  for (const line of (await res.text()).split("\n")) {
+    if (!line.trim()) continue;
+    const parsed = parseBulkMutationResponse(mutation, JSON.parse(line));
+    if (parsed.__lineNumber !== undefined) responses[parsed.__lineNumber] = parsed;
+  }
+  return responses;
+}
+
+// A loja só executa uma bulk mutation por vez; se outra estiver rodando, a Shopify
+// devolve userError e a importação falha com essa mensagem.
+export async function runBulkMutation<T, TVariables>(
+  client: ShopifyClient,
+  mutation: BulkMutation<T, TVariables>,
+  lines: TVariables[],
+  onProgress: (objectCount: number) => void,
+  cancellation?: StepCancellation
+): Promise<BulkMutationResult<T>> {
+  const stagedUploadPath = await uploadVariables(client, lines);
+
+  const { bulkOperation, userErrors } = await runBulkOperation(client, mutation.document, stagedUploadPath);
+  if (userErrors.length > 0 || !bulkOperation) {
+    throw new Error(`bulkOperationRunMutation: ${userErrors.map((e) => e.message).join("; ") || "sem operação"}`);
+  }
+  console.error(`[step2] Bulk operation ${bulkOperation.id} iniciada (${lines.length} linhas)`);
+
+  const operation = await waitForBulkOperation(client, bulkOperation.id, onProgress, cancellation);
+  console.error(`[step2] Bulk operation ${operation.id}: ${operation.status} (${operation.objectCount} objetos)`);
+
+  // Em falha parcial a Shopify ainda entrega o que foi processado em partialDataUrl.
+  const url = operation.url || operation.partialDataUrl;
+  return {
+    status: operation.status,
+    errorCode: operation.errorCode,
+    responses: url ? await downloadResults(mutation, url, lines.length) : new Array(lines.length),
+  };
+}
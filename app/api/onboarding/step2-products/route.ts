@@ -1,219 +1,283 @@
 import { NextRequest } from "next/server";
 import { getSession } from "@/lib/session";
-import { ShopifyClient } from "@/lib/shopify";
-import { parseCSV, groupProductsByHandle } from "@/lib/csv-parser";
-
-const GET_LOCATIONS = `
-  query getLocations {
-    locations(first: 1) {
-      edges {
-        node {
-          id
-          name
-        }
-      }
-    }
-  }
-`;
-
-const GET_ONLINE_STORE_PUBLICATION = `
-  query {
-    publications(first: 10) {
-      edges {
-        node {
-          id
-          name
-          supportsFuturePublishing
-        }
-      }
-    }
+import { ShopifyClient, forEachConcurrent } from "@/lib/shopify";
+import {
+  parseCSV,
+  parseCSVStream,
+  groupProductsByHandle,
+  streamProductsByHandle,
+} from "@/lib/csv-parser";
+import { streamImportRows, readImportOptions } from "@/lib/import-source";
+import { applyPriceRules, parsePriceRules, toVariantInput, type PriceRule } from "@/lib/price-rules";
+import {
+  DEFAULT_SANITIZER_OPTIONS,
+  describeSanitizeReport,
+  parseSanitizerOptions,
+  sanitizeHtml,
+  type HtmlSanitizeReport,
+  type HtmlSanitizerOptions,
+} from "@/lib/html-sanitizer";
+import {
+  findColumn,
+  getOptionNames,
+  getCollectionNames,
+  isPublished,
+  buildProductInput,
+  buildProductMedia,
+  buildVariants,
+  buildVariantImages,
+  variantMediaAlt,
+  type InventoryLocation,
+  type ProductMediaInput,
+  type ProductMetafieldInput,
+  type VariantImportInput,
+} from "@/lib/product-mapper";
+import {
+  describeProductChanges,
+  describeProductDiff,
+  diffProduct,
+  isEmptyDiff,
+  type ExistingProduct,
+  type ProductDiff,
+} from "@/lib/product-diff";
+import { describeMetafieldColumn, findMetafieldColumns, type MetafieldColumn } from "@/lib/metafields";
+import { buildProductSetInput } from "@/lib/product-set";
+import { runBulkMutation } from "./bulk";
+import {
+  createImportRun,
+  getImportRun,
+  listImportRunItems,
+  saveImportRunItems,
+  updateImportRun,
+  type ImportRunItem,
+} from "@/lib/import-runs";
+import { openLedger, type RunLedger } from "@/lib/onboarding-ledger";
+import { openSimulation } from "@/lib/simulation";
+import { openCancellation } from "@/lib/step-cancellation";
+import {
+  PRODUCT_SET_BULK,
+  PUBLISHABLE_PUBLISH_BULK,
+  appendVariantMedia,
+  createMetafieldDefinition,
+  createProduct,
+  createProductOptions,
+  createVariants,
+  findProductByHandle,
+  findProductBySku,
+  getMetafieldDefinition,
+  getOnlineStorePublicationId,
+  getProductMediaStatus,
+  listLocations,
+  publishToChannel,
+  searchTaxonomyCategories,
+  updateProduct,
+  updateVariants,
+  type ExistingProductNode,
+} from "@/lib/admin-operations";
+import type { ImportedProductSummary, ProductChangeReport } from "@/types/onboarding";
+import type { ProductSetMutationVariables } from "@/types/admin-api.generated";
+
+const MEDIA_READY_ATTEMPTS = 10;
+const MEDIA_READY_INTERVAL_MS = 1000;
+
+async function fetchOnlineStorePublicationId(client: ShopifyClient): Promise<string | null> {
+  try {
+    return await getOnlineStorePublicationId(client);
+  } catch (err) {
+    console.error("[step2] Erro ao buscar publicationId:", err);
+    return null;
   }
-`;
+}
+
+// A location principal (isPrimary) recebe a coluna "Variant Inventory Qty".
+async function fetchLocations(client: ShopifyClient): Promise<InventoryLocation[]> {
+  const locations = await listLocations(client);
+  if (locations.length > 0) return locations;
+  throw new Error("Nenhuma location encontrada na loja.");
+}
+
+// Mídia criada pelo productCreate para cada originalSource, casada pelo alt: a ordem do
+// retorno não é garantida e mídias recusadas somem da lista. Alt repetido fica de fora
+// (a variante recebe a imagem por mediaSrc).
+function matchCreatedMedia(
+  media: ProductMediaInput[],
+  created: { id: string; alt: string | null }[]
+): Map<string, string> {
+  const count = (alts: (string | null | undefined)[], alt: string) => alts.filter((a) => a === alt).length;
+  const inputAlts = media.map((m) => m.alt);
+  const createdAlts = created.map((node) => node.alt);
+  const matched = new Map<string, string>();
+  media.forEach((m) => {
+    if (!m.alt || count(inputAlts, m.alt) > 1 || count(createdAlts, m.alt) !== 1) return;
+    matched.set(m.originalSource, created.find((node) => node.alt === m.alt)!.id);
+  });
+  return matched;
+}
 
-const PUBLISHABLE_PUBLISH = `
-  mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
-    publishablePublish(id: $id, input: $input) {
-      publishable { availablePublicationsCount { count } }
-      userErrors { field message }
+// Mídia ainda em processamento não pode ser vinculada a variantes; espera ficar READY.
+async function attachExistingMediaToVariants(
+  client: ShopifyClient,
+  productId: string,
+  variantMedia: { variantId: string; mediaId: string }[]
+): Promise<string | null> {
+  const pending = new Set(variantMedia.map((v) => v.mediaId));
+  for (let attempt = 0; attempt < MEDIA_READY_ATTEMPTS && pending.size > 0; attempt++) {
+    const nodes = await getProductMediaStatus(client, productId);
+    for (const node of nodes || []) {
+      if (node.status === "READY" || node.status === "FAILED") pending.delete(node.id);
     }
+    if (pending.size > 0) await new Promise((r) => setTimeout(r, MEDIA_READY_INTERVAL_MS));
   }
-`;
-
-const CREATE_PRODUCT = `
-  mutation productCreate($input: ProductInput!, $media: [CreateMediaInput!]) {
-    productCreate(input: $input, media: $media) {
-      product {
-        id
-        handle
-        variants(first: 1) {
-          edges {
-            node {
-              id
-            }
-          }
+
+  const userErrors = await appendVariantMedia(
+    client,
+    productId,
+    variantMedia.map((v) => ({ variantId: v.variantId, mediaIds: [v.mediaId] }))
+  );
+  return userErrors.length > 0 ? userErrors.map((e) => e.message).join("; ") : null;
+}
+
+// Cria as definições que faltam (fixadas no admin) antes do primeiro produto. Colunas cuja
+// definição existe com outro tipo, ou que não puderam ser criadas, são descartadas.
+async function ensureMetafieldDefinitions(
+  client: ShopifyClient,
+  columns: MetafieldColumn[],
+  warnings: string[],
+  ledger: RunLedger
+): Promise<Set<string>> {
+  const rejected = new Set<string>();
+  for (const column of columns) {
+    const label = describeMetafieldColumn(column);
+    try {
+      const existing = await getMetafieldDefinition(client, {
+        ownerType: column.owner,
+        namespace: column.namespace,
+        key: column.key,
+      });
+      if (existing) {
+        if (existing.type.name !== column.type) {
+          rejected.add(column.header);
+          warnings.push(`Metafield ${label}: a loja já define o tipo ${existing.type.name}, não ${column.type}; coluna ignorada`);
         }
+        continue;
       }
-      userErrors { field message }
-    }
-  }
-`;
 
-const PRODUCT_OPTIONS_CREATE = `
-  mutation productOptionsCreate($productId: ID!, $options: [OptionCreateInput!]!) {
-    productOptionsCreate(productId: $productId, options: $options) {
-      userErrors { field message code }
-    }
-  }
-`;
-
-const VARIANTS_BULK_CREATE = `
-  mutation productVariantsBulkCreate(
-    $productId: ID!,
-    $strategy: ProductVariantsBulkCreateStrategy,
-    $variants: [ProductVariantsBulkInput!]!
-  ) {
-    productVariantsBulkCreate(
-      productId: $productId,
-      strategy: $strategy,
-      variants: $variants
-    ) {
-      productVariants {
-        id
-        title
-        price
+      const created = await createMetafieldDefinition(client, {
+        name: column.key.replace(/[_-]+/g, " ").replace(/^\w/, (c) => c.toUpperCase()),
+        namespace: column.namespace,
+        key: column.key,
+        type: column.type,
+        ownerType: column.owner,
+        pin: true,
+      });
+      const userErrors = created.userErrors;
+      if (userErrors.length > 0) {
+        rejected.add(column.header);
+        const reason = userErrors.map((e) => e.message).join("; ");
+        warnings.push(`Metafield ${label}: falha ao criar definição (${reason}); coluna ignorada`);
+        console.error(`[step2] metafieldDefinitionCreate ${label}:`, reason);
+      } else {
+        console.error(`[step2] Definição de metafield criada: ${label} [${column.type}]`);
+        const definition = created.createdDefinition;
+        if (definition) await ledger.record("metafield_definition", definition.id);
       }
-      userErrors { field message }
+    } catch (err) {
+      rejected.add(column.header);
+      const reason = err instanceof Error ? err.message : "Erro";
+      warnings.push(`Metafield ${label}: ${reason}; coluna ignorada`);
+      console.error(`[step2] Definição de metafield ${label} exceção:`, reason);
     }
   }
-`;
+  return rejected;
+}
 
-async function fetchOnlineStorePublicationId(client: ShopifyClient): Promise<string | null> {
-  try {
-    const data = await client.graphql(GET_ONLINE_STORE_PUBLICATION);
-    const result = data as {
-      publications: { edges: { node: { id: string; name: string } }[] };
-    };
-    const onlineStore = result.publications.edges.find(
-      (e) => e.node.name === "Online Store"
-    );
-    return onlineStore?.node.id || null;
-  } catch (err) {
-    console.error("[step2] Erro ao buscar publicationId:", err);
-    return null;
-  }
+function withoutRejectedMetafields<T extends { metafields?: ProductMetafieldInput[] }>(
+  target: T,
+  rejected: MetafieldColumn[]
+): T {
+  if (!target.metafields || rejected.length === 0) return target;
+  target.metafields = target.metafields.filter(
+    (m) => !rejected.some((c) => c.namespace === m.namespace && c.key === m.key)
+  );
+  if (target.metafields.length === 0) delete target.metafields;
+  return target;
 }
 
-async function fetchLocationId(client: ShopifyClient): Promise<string> {
-  const data = await client.graphqlWithRetry(GET_LOCATIONS);
-  const result = data as {
-    locations: { edges: { node: { id: string; name: string } }[] };
+function toExistingProduct(node: ExistingProductNode): ExistingProduct {
+  return {
+    ...node,
+    metafields: node.metafields.nodes,
+    variants: node.variants.nodes.map((v) => ({ ...v, metafields: v.metafields.nodes })),
+    mediaUrls: node.media.nodes.map((m) => m.image?.url).filter((url): url is string => !!url),
   };
-  if (result.locations.edges.length > 0) {
-    return result.locations.edges[0].node.id;
-  }
-  throw new Error("Nenhuma location encontrada na loja.");
 }
 
-function findColumn(row: Record<string, string>, name: string): string {
-  if (row[name] !== undefined) return row[name];
-  const lower = name.toLowerCase();
-  for (const key of Object.keys(row)) {
-    if (key.toLowerCase() === lower) return row[key];
+async function findExistingProduct(
+  client: ShopifyClient,
+  handle: string,
+  variants: VariantImportInput[]
+): Promise<ExistingProduct | null> {
+  const byHandle = await findProductByHandle(client, handle);
+  if (byHandle) return toExistingProduct(byHandle);
+
+  for (const sku of variants.map((v) => v.inventoryItem?.sku).filter((s): s is string => !!s)) {
+    const bySku = await findProductBySku(client, sku);
+    if (bySku) return toExistingProduct(bySku);
   }
-  return "";
+  return null;
 }
 
-function buildVariants(
-  productRows: Record<string, string>[]
-): {
-  price: string;
-  compareAtPrice?: string;
-  sku?: string;
-  optionValues: { name: string; optionName: string }[];
-}[] {
-  const first = productRows[0];
-
-  // Nomes das opções (ex: Color, Size)
-  const optionNames: string[] = [];
-  for (let i = 1; i <= 3; i++) {
-    const name = findColumn(first, `Option${i} Name`)?.trim();
-    if (name) optionNames.push(name);
-    else break;
-  }
-
-  // Preço base: usado como fallback para linhas de variante sem preço
-  const basePriceRaw =
-    findColumn(first, "Variant Price").trim() ||
-    productRows
-      .map((r) => findColumn(r, "Variant Price").trim())
-      .find((v) => v) ||
-    "0.00";
-  const basePrice = basePriceRaw.replace(",", ".");
-
-  // Linhas que realmente representam variantes (têm opções ou preço)
-  const variantRows = productRows.filter((r) => {
-    const hasPrice = !!findColumn(r, "Variant Price")?.trim();
-    const hasOptions =
-      !!findColumn(r, "Option1 Value")?.trim() ||
-      !!findColumn(r, "Option2 Value")?.trim() ||
-      !!findColumn(r, "Option3 Value")?.trim();
-    return hasPrice || hasOptions;
-  });
+// Aplica só o que mudou. Estoque de variantes existentes não é alterado no upsert.
+async function applyProductDiff(client: ShopifyClient, productId: string, diff: ProductDiff): Promise<string | null> {
+  const problems: string[] = [];
 
-  if (variantRows.length === 0) {
-    console.error(
-      `[step2] buildVariants: nenhuma linha de variante encontrada para "${findColumn(
-        first,
-        "Handle"
-      )}". Keys: ${Object.keys(first).join(", ")}`
-    );
-    return [
-      {
-        price: basePrice,
-        optionValues: [{ name: "Default Title", optionName: "Title" }],
-      },
-    ];
+  if (Object.keys(diff.product).length > 0 || diff.mediaToAdd.length > 0) {
+    const userErrors = await updateProduct(client, { id: productId, ...diff.product }, diff.mediaToAdd);
+    if (userErrors.length > 0) problems.push(`productUpdate: ${userErrors.map((e) => e.message).join("; ")}`);
   }
 
-  return variantRows.map((r) => {
-    const rawPrice = findColumn(r, "Variant Price").trim() || basePrice;
-    const price = rawPrice.replace(",", ".");
-
-    const variant: {
-      price: string;
-      compareAtPrice?: string;
-      sku?: string;
-      optionValues: { name: string; optionName: string }[];
-    } = {
-      price,
-      optionValues: [],
-    };
+  if (diff.variantsToUpdate.length > 0) {
+    const userErrors = await updateVariants(client, productId, diff.variantsToUpdate);
+    if (userErrors.length > 0) problems.push(`variantsBulkUpdate: ${userErrors.map((e) => e.message).join("; ")}`);
+  }
 
-    const compareAt = findColumn(r, "Variant Compare At Price")?.trim();
-    if (compareAt) {
-      variant.compareAtPrice = compareAt.replace(",", ".");
-    }
+  if (diff.variantsToCreate.length > 0) {
+    const { userErrors } = await createVariants(client, {
+      productId,
+      strategy: "DEFAULT",
+      variants: diff.variantsToCreate,
+    });
+    if (userErrors.length > 0) problems.push(`variantsBulkCreate: ${userErrors.map((e) => e.message).join("; ")}`);
+  }
 
-    const sku = findColumn(r, "Variant SKU")?.trim();
-    if (sku) {
-      variant.sku = sku;
-    }
+  return problems.length > 0 ? problems.join(" | ") : null;
+}
 
-    const optionValues: { name: string; optionName: string }[] = [];
-    for (let i = 0; i < optionNames.length; i++) {
-      const value = findColumn(r, `Option${i + 1} Value`)?.trim();
-      if (value) {
-        optionValues.push({ name: value, optionName: optionNames[i] });
-      }
-    }
+async function resolveCategoryId(
+  client: ShopifyClient,
+  categoryName: string,
+  cache: Map<string, string | null>
+): Promise<string | null> {
+  if (cache.has(categoryName)) return cache.get(categoryName)!;
 
-    if (optionValues.length === 0) {
-      optionValues.push({ name: "Default Title", optionName: "Title" });
+  // O export traz o caminho completo ("Apparel & Accessories > Clothing"); a busca usa o último nível
+  const leaf = categoryName.split(">").pop()!.trim();
+  let categoryId: string | null = null;
+  try {
+    const nodes = await searchTaxonomyCategories(client, leaf);
+    const match =
+      nodes.find((n) => n.fullName.toLowerCase() === categoryName.toLowerCase()) ||
+      nodes.find((n) => n.fullName.toLowerCase().endsWith(leaf.toLowerCase()));
+    categoryId = match?.id || null;
+    if (!categoryId) {
+      console.error(`[step2] Categoria "${categoryName}" não encontrada na taxonomia da Shopify.`);
     }
+  } catch (err) {
+    console.error(`[step2] Erro ao buscar categoria "${categoryName}":`, err instanceof Error ? err.message : err);
+  }
 
-    variant.optionValues = optionValues;
-    return variant;
-  });
+  cache.set(categoryName, categoryId);
+  return categoryId;
 }
 
 export async function POST(request: NextRequest) {
@@ -223,21 +287,62 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { csvText } = await request.json();
-    const { rows } = parseCSV(csvText);
-    const grouped = groupProductsByHandle(rows);
-    const entries = Array.from(grouped.entries());
-    const total = entries.length;
+    // O arquivo (CSV ou planilha) chega via multipart para ser lido em streaming; o corpo
+    // JSON com csvText continua aceito para chamadas antigas.
+    let sourceRows: AsyncIterable<Record<string, string>>;
+    let total: number;
+    let priceRules: PriceRule[] = [];
+    let sanitizerOptions: HtmlSanitizerOptions | null = DEFAULT_SANITIZER_OPTIONS;
+    let bulkMode = false;
+    let upsertMode = false;
+    let dryRunMode = false;
+    let resumeRunId: string | null = null;
+
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const csvFile = formData.get("csv") as File | null;
+      if (!csvFile) {
+        return Response.json(
+          { success: false, errors: [{ handle: "_global", reason: "CSV não fornecido." }] },
+          { status: 400 }
+        );
+      }
+      sourceRows = streamImportRows(csvFile, readImportOptions(formData));
+      total = Number(formData.get("totalProducts")) || 0;
+      priceRules = parsePriceRules(formData.get("priceRules"));
+      sanitizerOptions = parseSanitizerOptions(formData.get("sanitizer"));
+      bulkMode = formData.get("importMode") === "bulk";
+      upsertMode = formData.get("importMode") === "upsert";
+      dryRunMode = formData.get("importMode") === "dryrun";
+      resumeRunId = (formData.get("runId") as string | null) || null;
+    } else {
+      const { csvText } = await request.json();
+      if (!csvText || typeof csvText !== "string") {
+        return Response.json(
+          { success: false, errors: [{ handle: "_global", reason: "CSV não fornecido." }] },
+          { status: 400 }
+        );
+      }
+      const parsed = parseCSV(csvText);
+      total = groupProductsByHandle(parsed.rows).size;
+      sourceRows = parseCSVStream(new Blob([csvText]).stream(), { delimiter: parsed.delimiter });
+    }
 
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 2);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 2);
+    // A simulação registra as mutations uma a uma; a bulk operation subiria o JSONL e
+    // rodaria tudo fora do client. productSet sem identifier cria, como o modo normal.
+    if (simulation.active) bulkMode = false;
 
-    let locationId: string;
+    let locations: InventoryLocation[];
     try {
-      locationId = await fetchLocationId(client);
-      console.error(`[step2] Location encontrada: ${locationId}`);
+      locations = await fetchLocations(client);
+      console.error(`[step2] Locations: ${locations.map((l) => `${l.name} (${l.id}${l.isPrimary ? ", principal" : ""})`).join(", ")}`);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Erro";
-      console.error("[step2] Falha ao buscar locationId:", msg);
+      console.error("[step2] Falha ao buscar locations:", msg);
       return Response.json({
         type: "complete",
         success: false,
@@ -250,8 +355,6 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    void locationId;
-
     const publicationId = await fetchOnlineStorePublicationId(client);
     if (publicationId) {
       console.error(`[step2] Online Store publication: ${publicationId}`);
@@ -260,199 +363,561 @@ export async function POST(request: NextRequest) {
     }
 
     const productIds: string[] = [];
+    const products: ImportedProductSummary[] = [];
     const errors: { handle: string; reason: string }[] = [];
+    const sanitized: { handle: string; report: HtmlSanitizeReport }[] = [];
+    const categoryCache = new Map<string, string | null>();
+    const warnings: string[] = [];
+    let rejectedProductMetafields: MetafieldColumn[] = [];
+    let rejectedVariantMetafields: MetafieldColumn[] = [];
+    let metafieldsReady: Promise<void> | null = null;
     let processed = 0;
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    const changes: ProductChangeReport[] = [];
+    let resumed = 0;
+
+    // Checkpoint por handle no Supabase: uma importação interrompida (aba fechada, limite
+    // de tempo da função) é retomada pulando o que já foi concluído.
+    let runId: string | null = null;
+    const checkpoints = new Map<string, ImportRunItem>();
+    if (!dryRunMode && !simulation.active) {
+      try {
+        const previous = resumeRunId ? await getImportRun(session.shop, resumeRunId) : null;
+        if (previous) {
+          runId = previous.id;
+          for (const item of await listImportRunItems(previous.id)) checkpoints.set(item.handle, item);
+          await updateImportRun(previous.id, { status: "running" });
+          console.error(`[step2] Retomando importação ${runId}: ${previous.done} concluídos, ${previous.failed} com erro`);
+        } else {
+          runId = await createImportRun(session.shop, bulkMode ? "bulk" : upsertMode ? "upsert" : "create", total);
+        }
+      } catch (err) {
+        console.error("[step2] Checkpoints desativados:", err instanceof Error ? err.message : err);
+      }
+    }
+
+    const saveCheckpoints = async (items: ImportRunItem[]) => {
+      if (!runId || items.length === 0) return;
+      try {
+        await saveImportRunItems(runId, items);
+      } catch (err) {
+        console.error("[step2] Checkpoint:", err instanceof Error ? err.message : err);
+      }
+    };
+    const recordFailure = async (handle: string, reason: string) => {
+      errors.push({ handle, reason });
+      await saveCheckpoints([{ handle, status: "failed", productId: null, reason, summary: null }]);
+    };
+    // Bloco repetido de um handle fora de ordem: as linhas não entram no produto já enviado.
+    const reportScattered = (handle: string, rows: Record<string, string>[]) => {
+      errors.push({ handle, reason: `${rows.length} linha(s) separada(s) do restante do produto não foram importadas; deixe as linhas do handle juntas` });
+    };
+    // Handle concluído numa execução anterior entra no resultado sem chamar a Shopify.
+    const restoreCheckpoint = (handle: string): boolean => {
+      const checkpoint = checkpoints.get(handle);
+      if (checkpoint?.status !== "done" || !checkpoint.productId) return false;
+      productIds.push(checkpoint.productId);
+      if (checkpoint.summary) products.push(checkpoint.summary);
+      resumed++;
+      return true;
+    };
+
+    // Monta input, mídia e variantes de um handle; compartilhado pelos modos normal e bulk.
+    const prepareProduct = async (handle: string, productRows: Record<string, string>[]) => {
+      const first = productRows[0];
+
+      // Produtos em paralelo esperam as definições criadas a partir do primeiro.
+      metafieldsReady ??= (async () => {
+        const metafieldColumns = findMetafieldColumns(Object.keys(first));
+        if (metafieldColumns.length === 0 || dryRunMode) return;
+        const rejected = await ensureMetafieldDefinitions(client, metafieldColumns, warnings, ledger);
+        const rejectedColumns = metafieldColumns.filter((c) => rejected.has(c.header));
+        rejectedProductMetafields = rejectedColumns.filter((c) => c.owner === "PRODUCT");
+        rejectedVariantMetafields = rejectedColumns.filter((c) => c.owner === "PRODUCTVARIANT");
+      })();
+      await metafieldsReady;
+
+      const media = buildProductMedia(handle, productRows);
+
+      const input = withoutRejectedMetafields(buildProductInput(handle, productRows), rejectedProductMetafields);
+
+      if (sanitizerOptions && input.descriptionHtml) {
+        const cleaned = sanitizeHtml(input.descriptionHtml, sanitizerOptions);
+        input.descriptionHtml = cleaned.html;
+        if (cleaned.changed) sanitized.push({ handle, report: cleaned.report });
+      }
+
+      const categoryName = findColumn(first, "Product Category").trim();
+      if (categoryName) {
+        const categoryId = await resolveCategoryId(client, categoryName, categoryCache);
+        if (categoryId) input.category = categoryId;
+      }
+
+      const inventoryIssues = new Set<string>();
+      const built = buildVariants(productRows, locations, (issue) => inventoryIssues.add(issue));
+      const variants = applyPriceRules(input, built, priceRules)
+        .map(toVariantInput)
+        .map((v) => withoutRejectedMetafields(v, rejectedVariantMetafields));
+      inventoryIssues.forEach((issue) => warnings.push(`${handle}: ${issue}`));
+
+      return { first, input, media, variants };
+    };
+
+    // Modo bulk: um productSet por linha de JSONL numa única bulk operation, seguida de
+    // outra para publicar. O progresso acompanha o objectCount da operação.
+    const cancellation = openCancellation(request, session.shop);
+
+    const importInBulk = async (emitProgress: () => void) => {
+      const lines: ProductSetMutationVariables[] = [];
+      const pending: { handle: string; publish: boolean; summary: Omit<ImportedProductSummary, "id"> }[] = [];
+
+      for await (const [handle, productRows] of streamProductsByHandle(sourceRows, reportScattered)) {
+        if (await cancellation.checkpoint()) return;
+        if (restoreCheckpoint(handle)) {
+          processed++;
+          continue;
+        }
+        try {
+          const { first, input, media, variants } = await prepareProduct(handle, productRows);
+          const setInput = buildProductSetInput(input, variants, media, buildVariantImages(productRows),
+            (variant) => variantMediaAlt(input.title, variant.optionValues));
+          // Handle já enviado numa execução anterior pode existir na loja: productSet pelo
+          // handle atualiza em vez de duplicar.
+          lines.push(checkpoints.has(handle) ? { input: setInput, identifier: { handle } } : { input: setInput });
+          pending.push({
+            handle,
+            publish: isPublished(first),
+            summary: {
+              handle,
+              vendor: input.vendor,
+              productType: input.productType,
+              tags: input.tags,
+              collections: getCollectionNames(first),
+            },
+          });
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : "Erro desconhecido";
+          await recordFailure(handle, reason);
+          processed++;
+        }
+      }
+
+      total = Math.max(total, processed + pending.length);
+      emitProgress();
+      if (lines.length === 0 || (await cancellation.checkpoint())) return;
+      await saveCheckpoints(pending.map((item) => ({
+        handle: item.handle,
+        status: "pending",
+        productId: null,
+        reason: null,
+        summary: null,
+      })));
+
+      const failedBefore = processed;
+      const result = await runBulkMutation(client, PRODUCT_SET_BULK, lines, (count) => {
+        processed = failedBefore + Math.min(count, lines.length);
+        emitProgress();
+      }, cancellation);
+
+      const toPublish: string[] = [];
+      const results: ImportRunItem[] = [];
+      pending.forEach((item, i) => {
+        const response = result.responses[i];
+        const payload = response?.data?.productSet;
+        if (payload?.product) {
+          const summary = { id: payload.product.id, ...item.summary };
+          productIds.push(payload.product.id);
+          products.push(summary);
+          results.push({ handle: item.handle, status: "done", productId: payload.product.id, reason: null, summary });
+          created++;
+          if (item.publish) toPublish.push(payload.product.id);
+          if (payload.userErrors.length > 0) {
+            console.error(`[step2] productSet ${item.handle}:`, payload.userErrors.map((e) => e.message).join("; "));
+          }
+          return;
+        }
+        const reason =
+          payload?.userErrors.map((e) => e.message).join("; ") ||
+          response?.errors?.map((e) => e.message).join("; ") ||
+          `Bulk operation ${result.status}${result.errorCode ? ` (${result.errorCode})` : ""}`;
+        errors.push({ handle: item.handle, reason });
+        results.push({ handle: item.handle, status: "failed", productId: null, reason, summary: null });
+      });
+      await saveCheckpoints(results);
+      await ledger.recordAll("product", results.flatMap((r) => (r.productId ? [r.productId] : [])));
+      processed = failedBefore + pending.length;
+      emitProgress();
+
+      // Cancelado: os produtos criados ficam sem publicar.
+      if (publicationId && toPublish.length > 0 && !(await cancellation.checkpoint())) {
+        try {
+          const published = await runBulkMutation(
+            client,
+            PUBLISHABLE_PUBLISH_BULK,
+            toPublish.map((id) => ({ id, input: [{ publicationId }] })),
+            () => {}
+          );
+          const failures = published.responses.filter(
+            (r) => !r || r.errors || !r.data?.publishablePublish || r.data.publishablePublish.userErrors.length > 0
+          ).length;
+          if (failures > 0) warnings.push(`${failures} produtos não puderam ser publicados na Online Store`);
+        } catch (pubErr) {
+          const reason = pubErr instanceof Error ? pubErr.message : "Erro";
+          warnings.push(`Publicação em massa falhou: ${reason}`);
+          console.error("[step2] Publish bulk:", reason);
+        }
+      }
+    };
 
     const encoder = new TextEncoder();
+    // Cancelar pela página (ou fechar a aba) aborta cancellation.signal: o laço para de
+    // iniciar produtos, termina os que estão em andamento e emite "cancelled".
+    let clientGone = false;
     const stream = new ReadableStream({
       async start(controller) {
-        for (const [handle, productRows] of entries) {
+        const send = (event: Record<string, unknown>) => {
+          if (clientGone) return;
           try {
-            const first = productRows[0];
+            controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+          } catch {
+            clientGone = true;
+          }
+        };
 
-            if (processed === 0) {
-              console.error(`[step2] CSV headers (keys do primeiro row): ${Object.keys(first).join(" | ")}`);
-              console.error(`[step2] Primeiro produto "${handle}" Variant Price raw: "${findColumn(first, "Variant Price")}"`);
-            }
+        const emitProgress = () => {
+          total = Math.max(total, processed);
+          send({ type: "progress", processed, total });
+        };
+
+        const close = () => {
+          cancellation.release();
+          if (clientGone) return;
+          try {
+            controller.close();
+          } catch {
+            clientGone = true;
+          }
+        };
 
-            const images = productRows
-              .filter((r: Record<string, string>) => findColumn(r, "Image Src")?.trim())
-              .map((r: Record<string, string>) => findColumn(r, "Image Src"));
-
-            const media = images.map((url: string) => ({
-              originalSource: url,
-              mediaContentType: "IMAGE" as const,
-              alt: findColumn(first, "Title") || handle,
-            }));
-
-            const input = {
-              title: findColumn(first, "Title") || handle,
-              descriptionHtml: findColumn(first, "Body (HTML)") || "",
-              vendor: findColumn(first, "Vendor") || "",
-              productType: findColumn(first, "Type") || "",
-              tags: findColumn(first, "Tags")
-                ? findColumn(first, "Tags").split(",").map((t: string) => t.trim())
-                : [],
-              status:
-                findColumn(first, "Status")?.toLowerCase() === "active"
-                  ? "ACTIVE"
-                  : "DRAFT",
-            };
-
-            const createData = await client.graphqlWithRetry(CREATE_PRODUCT, {
-              input,
-              media: media.length > 0 ? media : undefined,
+        const finish = async () => {
+          if (dryRunMode) {
+            // Indexado pela posição no CSV; produtos com erro deixam buracos.
+            const reports = changes.filter(Boolean);
+            const count = (action: ProductChangeReport["action"]) => reports.filter((c) => c.action === action).length;
+            send({
+              type: "complete",
+              success: errors.length === 0,
+              dryRun: true,
+              total,
+              changes: reports,
+              errors,
+              message: `Simulação: ${count("create")} novos, ${count("update")} com alterações, ${count("unchanged")} sem alteração`,
             });
+            close();
+            return;
+          }
 
-            const createResult = createData as {
-              productCreate: {
-                product: {
-                  id: string;
-                  handle: string;
-                  variants: {
-                    edges: { node: { id: string } }[];
-                  };
-                } | null;
-                userErrors: { field: string; message: string }[];
-              };
-            };
-
-            if (createResult.productCreate.userErrors.length > 0) {
-              const reason = createResult.productCreate.userErrors
-                .map((e) => e.message)
-                .join("; ");
-              errors.push({ handle, reason });
-              console.error(`[step2] productCreate ${handle}:`, reason);
-              processed++;
-              controller.enqueue(
-                encoder.encode(JSON.stringify({ type: "progress", processed, total }) + "\n")
-              );
-              continue;
+          const cancelled = cancellation.signal.aborted;
+          if (runId) {
+            try {
+              await updateImportRun(runId, {
+                status: cancelled ? "cancelled" : errors.length === 0 ? "completed" : "failed",
+                total,
+              });
+            } catch (err) {
+              console.error("[step2] Finalizar importação:", err instanceof Error ? err.message : err);
             }
+          }
 
-            const product = createResult.productCreate.product;
-            if (!product) {
-              errors.push({ handle, reason: "productCreate não retornou produto" });
-              processed++;
-              controller.enqueue(
-                encoder.encode(JSON.stringify({ type: "progress", processed, total }) + "\n")
-              );
-              continue;
-            }
+          if (cancelled) {
+            const message = `Importação cancelada: ${productIds.length} de ${total} produtos importados` +
+              (errors.length > 0 ? `, ${errors.length} com erro` : "");
+            console.error(`[step2] ${message}`);
+            send({
+              type: "cancelled",
+              success: false,
+              imported: productIds.length,
+              failed: errors.length,
+              processed,
+              total,
+              runId,
+              productIds,
+              products,
+              errors,
+              message,
+            });
+            close();
+            return;
+          }
 
-            productIds.push(product.id);
+          const result = {
+            type: "complete",
+            success: productIds.length > 0,
+            imported: productIds.length,
+            failed: errors.length,
+            created,
+            updated,
+            skipped,
+            resumed,
+            runId,
+            total,
+            productIds,
+            products,
+            errors,
+            sanitized,
+            simulation: simulation.report(),
+            warnings: [
+              ...warnings,
+              ...sanitized.map((s) => `${s.handle}: descrição limpa — ${describeSanitizeReport(s.report)}`),
+            ],
+            message:
+              (errors.length === 0
+                ? `${productIds.length} produtos importados com sucesso`
+                : `${productIds.length} importados, ${errors.length} com erro`) +
+              (upsertMode ? ` (${created} criados, ${updated} atualizados, ${skipped} sem alteração)` : "") +
+              (resumed > 0 ? ` — ${resumed} já importados antes da retomada` : ""),
+          };
+
+          send(result);
+          close();
+        };
 
-            // Criar opções de produto (Color, Size, etc.) antes das variantes
-            const optionNamesForProduct: string[] = [];
-            for (let i = 1; i <= 3; i++) {
-              const name = findColumn(first, `Option${i} Name`)?.trim();
-              if (name) optionNamesForProduct.push(name);
-              else break;
-            }
+        if (runId) send({ type: "run", runId, resumed: checkpoints.size > 0 });
 
-            if (optionNamesForProduct.length > 0) {
-              try {
-                const optData = await client.graphqlWithRetry(PRODUCT_OPTIONS_CREATE, {
-                  productId: product.id,
-                  options: optionNamesForProduct.map((name, index) => ({
-                    name,
-                    position: index + 1,
-                  })),
-                });
-                const optResult = optData as {
-                  productOptionsCreate: {
-                    userErrors: { field: string; message: string; code?: string }[];
+        if (bulkMode) {
+          try {
+            await importInBulk(emitProgress);
+          } catch (err) {
+            const reason = err instanceof Error ? err.message : "Erro desconhecido";
+            errors.push({ handle: "_bulk", reason: `Importação em massa falhou: ${reason}` });
+            console.error("[step2] Bulk:", reason);
+          }
+          await finish();
+          return;
+        }
+
+        try {
+          await forEachConcurrent(streamProductsByHandle(sourceRows, reportScattered), client.maxConcurrency, async ([handle, productRows], index) => {
+            try {
+              if (index === 0) {
+                const firstRow = productRows[0];
+                console.error(`[step2] CSV headers (keys do primeiro row): ${Object.keys(firstRow).join(" | ")}`);
+                console.error(`[step2] Primeiro produto "${handle}" Variant Price raw: "${findColumn(firstRow, "Variant Price")}"`);
+              }
+
+              if (await cancellation.checkpoint()) return;
+              if (restoreCheckpoint(handle)) {
+                processed++;
+                emitProgress();
+                return;
+              }
+              if (!dryRunMode) {
+                await saveCheckpoints([{ handle, status: "pending", productId: null, reason: null, summary: null }]);
+              }
+
+              const { first, input, media, variants } = await prepareProduct(handle, productRows);
+
+              // Dry-run: só leitura, nada é gravado na loja.
+              if (dryRunMode) {
+                const existing = await findExistingProduct(client, handle, variants);
+                changes[index] = describeProductChanges(handle, existing, input, variants, media);
+                processed++;
+                emitProgress();
+                return;
+              }
+
+              // Handle iniciado numa execução anterior pode já existir na loja.
+              if (upsertMode || checkpoints.has(handle)) {
+                const existing = await findExistingProduct(client, handle, variants);
+                if (existing) {
+                  const diff = diffProduct(existing, input, variants, media);
+                  if (isEmptyDiff(diff)) {
+                    skipped++;
+                  } else {
+                    const reason = await applyProductDiff(client, existing.id, diff);
+                    if (reason) {
+                      await recordFailure(handle, reason);
+                      console.error(`[step2] Upsert ${handle}:`, reason);
+                      processed++;
+                      emitProgress();
+                      return;
+                    }
+                    updated++;
+                    console.error(`[step2] Upsert ${handle} (${existing.handle}): ${describeProductDiff(diff)}`);
+                  }
+                  const summary = {
+                    id: existing.id,
+                    handle,
+                    vendor: input.vendor,
+                    productType: input.productType,
+                    tags: input.tags,
+                    collections: getCollectionNames(first),
                   };
-                };
-                if (optResult.productOptionsCreate.userErrors.length > 0) {
-                  const msg = optResult.productOptionsCreate.userErrors
-                    .map((e) => `${Array.isArray(e.field) ? e.field.join(".") : ""}: ${e.message}${e.code ? ` (${e.code})` : ""}`)
-                    .join("; ");
-                  console.error(`[step2] productOptionsCreate ${handle}:`, msg);
+                  productIds.push(existing.id);
+                  products.push(summary);
+                  await saveCheckpoints([{ handle, status: "done", productId: existing.id, reason: null, summary }]);
+                  processed++;
+                  emitProgress();
+                  return;
                 }
-              } catch (optErr) {
-                console.error(
-                  `[step2] productOptionsCreate ${handle} exceção:`,
-                  optErr instanceof Error ? optErr.message : optErr
-                );
               }
-            }
 
-            if (publicationId) {
-              try {
-                await client.graphqlWithRetry(PUBLISHABLE_PUBLISH, {
-                  id: product.id,
-                  input: [{ publicationId }],
-                });
-              } catch (pubErr) {
-                console.error(`[step2] Publish ${handle}:`, pubErr instanceof Error ? pubErr.message : pubErr);
+              const createResult = await createProduct(client, input, media);
+
+              if (createResult.userErrors.length > 0) {
+                const reason = createResult.userErrors
+                  .map((e) => e.message)
+                  .join("; ");
+                await recordFailure(handle, reason);
+                console.error(`[step2] productCreate ${handle}:`, reason);
+                processed++;
+                emitProgress();
+                return;
+              }
+
+              const product = createResult.product;
+              if (!product) {
+                await recordFailure(handle, "productCreate não retornou produto");
+                processed++;
+                emitProgress();
+                return;
+              }
+              await ledger.record("product", product.id);
+
+              const summary = {
+                id: product.id,
+                handle,
+                vendor: input.vendor,
+                productType: input.productType,
+                tags: input.tags,
+                collections: getCollectionNames(first),
+              };
+              productIds.push(product.id);
+              created++;
+              products.push(summary);
+
+              // Criar opções de produto (Color, Size, etc.) antes das variantes
+              const optionNamesForProduct = getOptionNames(first);
+
+              if (optionNamesForProduct.length > 0) {
+                try {
+                  const optErrors = await createProductOptions(client, product.id, optionNamesForProduct);
+                  if (optErrors.length > 0) {
+                    const msg = optErrors
+                      .map((e) => `${e.field ? e.field.join(".") : ""}: ${e.message}${e.code ? ` (${e.code})` : ""}`)
+                      .join("; ");
+                    console.error(`[step2] productOptionsCreate ${handle}:`, msg);
+                  }
+                } catch (optErr) {
+                  console.error(
+                    `[step2] productOptionsCreate ${handle} exceção:`,
+                    optErr instanceof Error ? optErr.message : optErr
+                  );
+                }
               }
-            }
 
-            const variants = buildVariants(productRows);
+              if (publicationId && isPublished(first)) {
+                try {
+                  const pubErrors = await publishToChannel(client, product.id, publicationId);
+                  if (pubErrors.length > 0) {
+                    console.error(`[step2] Publish ${handle}:`, pubErrors.map((e) => e.message).join("; "));
+                  }
+                } catch (pubErr) {
+                  console.error(`[step2] Publish ${handle}:`, pubErr instanceof Error ? pubErr.message : pubErr);
+                }
+              }
 
-            if (processed <= 2) {
-              console.error(`[step2] Variantes para "${handle}":`, JSON.stringify(variants, null, 2));
-            }
+              // Variant Image já enviada como imagem do produto é reaproveitada (mediaId, após o
+              // processamento); as demais são criadas junto com as variantes via mediaSrc.
+              const variantImages = buildVariantImages(productRows);
+              const variantOnlyMedia: ProductMediaInput[] = [];
+              const existingVariantMedia: { variantIndex: number; mediaId: string }[] = [];
+              const createdMedia = matchCreatedMedia(media, product.media.nodes);
+              variants.forEach((variant, i) => {
+                const src = variantImages[i];
+                if (!src) return;
+                const mediaId = createdMedia.get(src);
+                if (mediaId) {
+                  existingVariantMedia.push({ variantIndex: i, mediaId });
+                  return;
+                }
+                if (!variantOnlyMedia.some((m) => m.originalSource === src)) {
+                  variantOnlyMedia.push({
+                    originalSource: src,
+                    mediaContentType: "IMAGE",
+                    alt: variantMediaAlt(input.title, variant.optionValues),
+                  });
+                }
+                variant.mediaSrc = [src];
+              });
 
-            if (variants.length > 0) {
-              try {
-                const varData = await client.graphqlWithRetry(VARIANTS_BULK_CREATE, {
-                  productId: product.id,
-                  strategy: "REMOVE_STANDALONE_VARIANT",
-                  variants,
-                });
-
-                const varResult = varData as {
-                  productVariantsBulkCreate: {
-                    productVariants: { id: string; price: string }[] | null;
-                    userErrors: { field: string; message: string }[];
-                  };
-                };
-
-                if (varResult.productVariantsBulkCreate.userErrors.length > 0) {
-                  const reason = varResult.productVariantsBulkCreate.userErrors
-                    .map((e) => `${e.field}: ${e.message}`)
-                    .join("; ");
-                  console.error(`[step2] variantsBulkCreate ${handle} ERRO:`, reason);
-                  console.error(`[step2] Input enviado:`, JSON.stringify(variants));
-                } else if (processed <= 2) {
-                  console.error(`[step2] variantsBulkCreate ${handle} OK:`,
-                    JSON.stringify(varResult.productVariantsBulkCreate.productVariants));
+              if (index <= 2) {
+                console.error(`[step2] Variantes para "${handle}":`, JSON.stringify(variants, null, 2));
+              }
+
+              if (variants.length > 0) {
+                try {
+                  const varResult = await createVariants(client, {
+                    productId: product.id,
+                    strategy: "REMOVE_STANDALONE_VARIANT",
+                    variants,
+                    media: variantOnlyMedia,
+                  });
+
+                  if (varResult.userErrors.length > 0) {
+                    const reason = varResult.userErrors
+                      .map((e) => `${e.field}: ${e.message}`)
+                      .join("; ");
+                    console.error(`[step2] variantsBulkCreate ${handle} ERRO:`, reason);
+                    console.error(`[step2] Input enviado:`, JSON.stringify(variants));
+                  } else {
+                    if (index <= 2) {
+                      console.error(`[step2] variantsBulkCreate ${handle} OK:`,
+                        JSON.stringify(varResult.productVariants));
+                    }
+
+                    const createdVariants = varResult.productVariants || [];
+                    const variantMedia = existingVariantMedia
+                      .filter((v) => createdVariants[v.variantIndex])
+                      .map((v) => ({ variantId: createdVariants[v.variantIndex].id, mediaId: v.mediaId }));
+                    if (variantMedia.length > 0) {
+                      try {
+                        const mediaError = await attachExistingMediaToVariants(client, product.id, variantMedia);
+                        if (mediaError) console.error(`[step2] Imagens de variante ${handle}:`, mediaError);
+                      } catch (mediaErr) {
+                        console.error(`[step2] Imagens de variante ${handle} exceção:`,
+                          mediaErr instanceof Error ? mediaErr.message : mediaErr);
+                      }
+                    }
+                  }
+                } catch (varErr) {
+                  const reason = varErr instanceof Error ? varErr.message : "Erro";
+                  console.error(`[step2] variantsBulkCreate ${handle} exceção:`, reason);
                 }
-              } catch (varErr) {
-                const reason = varErr instanceof Error ? varErr.message : "Erro";
-                console.error(`[step2] variantsBulkCreate ${handle} exceção:`, reason);
               }
+
+              await saveCheckpoints([{ handle, status: "done", productId: product.id, reason: null, summary }]);
+            } catch (err) {
+              const reason = err instanceof Error ? err.message : "Erro desconhecido";
+              await recordFailure(handle, reason);
+              console.error(`[step2] Produto ${handle} exceção:`, reason);
             }
-          } catch (err) {
-            const reason = err instanceof Error ? err.message : "Erro desconhecido";
-            errors.push({ handle, reason });
-            console.error(`[step2] Produto ${handle} exceção:`, reason);
-          }
 
-          processed++;
-          controller.enqueue(
-            encoder.encode(JSON.stringify({ type: "progress", processed, total }) + "\n")
-          );
+            processed++;
+            emitProgress();
+          }, cancellation.signal);
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : "Erro desconhecido";
+          errors.push({ handle: "_csv", reason: `Falha ao ler o CSV: ${reason}` });
+          console.error("[step2] Erro ao ler CSV:", reason);
         }
 
-        const result = {
-          type: "complete",
-          success: productIds.length > 0,
-          imported: productIds.length,
-          failed: errors.length,
-          total,
-          productIds,
-          errors,
-          message:
-            errors.length === 0
-              ? `${productIds.length} produtos importados com sucesso`
-              : `${productIds.length} importados, ${errors.length} com erro`,
-        };
-
-        controller.enqueue(encoder.encode(JSON.stringify(result) + "\n"));
-        controller.close();
+        await finish();
+      },
+      cancel() {
+        clientGone = true;
       },
     });
 
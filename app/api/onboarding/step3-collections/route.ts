@@ -1,72 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { ShopifyClient } from "@/lib/shopify";
+import { ShopifyClient, forEachConcurrent, mapConcurrent } from "@/lib/shopify";
 import { slugify, chunkArray } from "@/lib/validators";
-
-const CREATE_COLLECTION = `
-  mutation collectionCreate($input: CollectionInput!) {
-    collectionCreate(input: $input) {
-      collection {
-        id
-        handle
-        title
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const GET_COLLECTION_BY_HANDLE = `
-  query getCollectionByHandle($handle: String!) {
-    collectionByHandle(handle: $handle) {
-      id
-      handle
-      title
-    }
-  }
-`;
-
-const ADD_PRODUCTS_TO_COLLECTION = `
-  mutation collectionAddProducts($id: ID!, $productIds: [ID!]!) {
-    collectionAddProducts(id: $id, productIds: $productIds) {
-      collection { id }
-      userErrors { field message }
-    }
-  }
-`;
-
-const GET_ONLINE_STORE_PUBLICATION = `
-  query {
-    publications(first: 10) {
-      edges {
-        node {
-          id
-          name
-        }
-      }
-    }
-  }
-`;
-
-const PUBLISHABLE_PUBLISH = `
-  mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
-    publishablePublish(id: $id, input: $input) {
-      publishable { availablePublicationsCount { count } }
-      userErrors { field message }
-    }
-  }
-`;
+import { assignProductsToCollections, parseCollectionRules } from "@/lib/collection-rules";
+import type { ImportedProductSummary } from "@/types/onboarding";
+import { parseCollectionRequests, type SmartCollectionRuleSet } from "@/lib/smart-collections";
+import { openLedger, type RunLedger } from "@/lib/onboarding-ledger";
+import { isSimulated, openSimulation } from "@/lib/simulation";
+import {
+  addCollectionProducts,
+  createCollection,
+  getCollectionByHandle,
+  getOnlineStorePublicationId,
+  publishToChannel,
+} from "@/lib/admin-operations";
+
+interface CollectionRef {
+  id: string;
+  handle: string;
+  name: string;
+  // Coleções automáticas (ruleSet) não aceitam collectionAddProducts.
+  smart: boolean;
+}
 
 async function fetchOnlineStorePublicationId(client: ShopifyClient): Promise<string | null> {
   try {
-    const data = await client.graphql(GET_ONLINE_STORE_PUBLICATION);
-    const result = data as {
-      publications: { edges: { node: { id: string; name: string } }[] };
-    };
-    const onlineStore = result.publications.edges.find(
-      (e) => e.node.name === "Online Store"
-    );
-    return onlineStore?.node.id || null;
+    return await getOnlineStorePublicationId(client);
   } catch (err) {
     console.error("[step3] Erro ao buscar publicationId:", err);
     return null;
@@ -75,10 +34,10 @@ async function fetchOnlineStorePublicationId(client: ShopifyClient): Promise<str
 
 async function publishToOnlineStore(client: ShopifyClient, resourceId: string, publicationId: string): Promise<void> {
   try {
-    await client.graphqlWithRetry(PUBLISHABLE_PUBLISH, {
-      id: resourceId,
-      input: [{ publicationId }],
-    });
+    const userErrors = await publishToChannel(client, resourceId, publicationId);
+    if (userErrors.length > 0) {
+      console.error(`[step3] Publish ${resourceId}:`, userErrors.map((e) => e.message).join("; "));
+    }
   } catch (err) {
     console.error(`[step3] Publish ${resourceId}:`, err instanceof Error ? err.message : err);
   }
@@ -86,29 +45,31 @@ async function publishToOnlineStore(client: ShopifyClient, resourceId: string, p
 
 async function findOrCreateCollection(
   client: ShopifyClient,
+  ledger: RunLedger,
   name: string,
-  handle: string
-): Promise<{ id: string; handle: string; name: string } | null> {
+  handle: string,
+  ruleSet?: SmartCollectionRuleSet
+): Promise<CollectionRef | null> {
+  // Na simulação o collectionCreate não chega à loja para responder "já existe".
+  if (isSimulated(client)) {
+    const existing = await fetchExistingCollection(client, name, handle);
+    if (existing) return existing;
+  }
+
   try {
-    const data = await client.graphqlWithRetry(CREATE_COLLECTION, {
-      input: { title: name, handle },
-    });
-    const result = data as {
-      collectionCreate: {
-        collection: { id: string; handle: string; title: string } | null;
-        userErrors: { field: string; message: string }[];
-      };
-    };
+    const result = await createCollection(client, ruleSet ? { title: name, handle, ruleSet } : { title: name, handle });
 
-    if (result.collectionCreate.collection) {
+    if (result.collection) {
+      await ledger.record("collection", result.collection.id);
       return {
-        id: result.collectionCreate.collection.id,
-        handle: result.collectionCreate.collection.handle,
+        id: result.collection.id,
+        handle: result.collection.handle,
         name,
+        smart: !!result.collection.ruleSet,
       };
     }
 
-    const hasDuplicate = result.collectionCreate.userErrors.some(
+    const hasDuplicate = result.userErrors.some(
       (e) => e.message.toLowerCase().includes("taken") || e.message.toLowerCase().includes("already")
     );
 
@@ -117,7 +78,7 @@ async function findOrCreateCollection(
       return await fetchExistingCollection(client, name, handle);
     }
 
-    console.error(`[step3] Erro ao criar coleção "${name}":`, result.collectionCreate.userErrors);
+    console.error(`[step3] Erro ao criar coleção "${name}":`, result.userErrors);
     return null;
   } catch (err) {
     console.error(`[step3] Exceção ao criar coleção "${name}":`, err);
@@ -129,17 +90,15 @@ async function fetchExistingCollection(
   client: ShopifyClient,
   name: string,
   handle: string
-): Promise<{ id: string; handle: string; name: string } | null> {
+): Promise<CollectionRef | null> {
   try {
-    const data = await client.graphqlWithRetry(GET_COLLECTION_BY_HANDLE, { handle });
-    const result = data as {
-      collectionByHandle: { id: string; handle: string; title: string } | null;
-    };
-    if (result.collectionByHandle) {
+    const existing = await getCollectionByHandle(client, handle);
+    if (existing) {
       return {
-        id: result.collectionByHandle.id,
-        handle: result.collectionByHandle.handle,
+        id: existing.id,
+        handle: existing.handle,
         name,
+        smart: !!existing.ruleSet,
       };
     }
   } catch (err) {
@@ -148,6 +107,28 @@ async function fetchExistingCollection(
   return null;
 }
 
+async function addProductsToCollection(
+  client: ShopifyClient,
+  collectionId: string,
+  label: string,
+  productIds: string[],
+  errors: { name: string; reason: string }[]
+): Promise<number> {
+  let added = 0;
+  await forEachConcurrent(chunkArray(productIds, 250), client.maxConcurrency, async (batch, i) => {
+    try {
+      const userErrors = await addCollectionProducts(client, collectionId, batch);
+      if (userErrors.length > 0) throw new Error(userErrors.map((e) => e.message).join("; "));
+      added += batch.length;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : "Erro";
+      console.error(`[step3] Vincular batch ${i + 1} a ${label}:`, reason);
+      errors.push({ name: `${label} batch ${i + 1}`, reason });
+    }
+  });
+  return added;
+}
+
 export async function POST(request: NextRequest) {
   const session = await getSession();
   if (!session) {
@@ -155,10 +136,13 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { collections: collectionNames, productIds } = await request.json();
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const { collections: collectionNames, productIds, products, collectionRules } = await request.json();
+    const simulation = openSimulation(request, 3);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 3);
     const errors: { name: string; reason: string }[] = [];
-    const createdCollections: { id: string; handle: string; name: string }[] = [];
+    const warnings: string[] = [];
+    const createdCollections: CollectionRef[] = [];
 
     const publicationId = await fetchOnlineStorePublicationId(client);
     if (publicationId) {
@@ -167,19 +151,27 @@ export async function POST(request: NextRequest) {
       console.error("[step3] Online Store publication não encontrada.");
     }
 
-    for (const name of collectionNames as string[]) {
-      const handle = slugify(name);
-      const col = await findOrCreateCollection(client, name, handle);
+    // Criadas em paralelo; a ordem do formulário é mantida porque o tema e os menus dependem dela.
+    const requests = parseCollectionRequests(collectionNames);
+    const results = await mapConcurrent(requests, client.maxConcurrency, async ({ name, ruleSet }) => {
+      const col = await findOrCreateCollection(client, ledger, name, slugify(name), ruleSet);
+      if (col && publicationId) await publishToOnlineStore(client, col.id, publicationId);
+      return col;
+    });
+    requests.forEach(({ name, ruleSet }, i) => {
+      const col = results[i];
       if (col) {
+        if (ruleSet && !col.smart) {
+          warnings.push(`${name}: já existia como coleção manual; as regras automáticas não foram aplicadas`);
+        }
         createdCollections.push(col);
-        if (publicationId) await publishToOnlineStore(client, col.id, publicationId);
       } else {
         errors.push({ name, reason: "Falha ao criar e coleção existente não encontrada" });
       }
-    }
+    });
 
     let bestSellersId = "";
-    const bs = await findOrCreateCollection(client, "Best Sellers", "best-sellers");
+    const bs = await findOrCreateCollection(client, ledger, "Best Sellers", "best-sellers");
     if (bs) {
       bestSellersId = bs.id;
       if (publicationId) await publishToOnlineStore(client, bs.id, publicationId);
@@ -188,31 +180,52 @@ export async function POST(request: NextRequest) {
     }
 
     if (bestSellersId && productIds && productIds.length > 0) {
-      const batches = chunkArray(productIds as string[], 250);
-      for (let i = 0; i < batches.length; i++) {
-        try {
-          await client.graphqlWithRetry(ADD_PRODUCTS_TO_COLLECTION, {
-            id: bestSellersId,
-            productIds: batches[i],
-          });
-        } catch (err) {
-          const reason = err instanceof Error ? err.message : "Erro";
-          console.error(`[step3] Vincular batch ${i + 1} ao Best Sellers:`, reason);
-          errors.push({ name: `Best Sellers batch ${i + 1}`, reason });
+      await addProductsToCollection(client, bestSellersId, "Best Sellers", productIds as string[], errors);
+    }
+
+    // Coluna "Collection" + regras Tipo/Tag/Fornecedor → coleção. Coleções citadas no CSV
+    // que não estão no formulário são criadas também, mas não entram no tema/menus.
+    const assignments = assignProductsToCollections(
+      Array.isArray(products) ? (products as ImportedProductSummary[]) : [],
+      parseCollectionRules(collectionRules)
+    );
+    const extraCollections: CollectionRef[] = [];
+    const assigned: { handle: string; name: string; count: number }[] = [];
+
+    await forEachConcurrent(Array.from(assignments), client.maxConcurrency, async ([handle, { name, productIds: ids }]) => {
+      let col = createdCollections.find((c) => c.handle === handle || slugify(c.name) === handle) || null;
+      if (!col) {
+        col = await findOrCreateCollection(client, ledger, name, handle);
+        if (!col) {
+          errors.push({ name, reason: "Falha ao criar coleção indicada no CSV" });
+          return;
         }
+        extraCollections.push(col);
+        if (publicationId) await publishToOnlineStore(client, col.id, publicationId);
       }
-    }
+      if (col.smart) {
+        warnings.push(`${col.name}: coleção automática — ${ids.length} produto(s) entram pelas regras, não pela coluna/regra de vínculo`);
+        return;
+      }
+      const count = await addProductsToCollection(client, col.id, col.name, ids, errors);
+      assigned.push({ handle: col.handle, name: col.name, count });
+    });
 
     return NextResponse.json({
       success: createdCollections.length > 0 || bestSellersId !== "",
       collections: createdCollections,
       bestSellersId,
+      extraCollections,
+      assigned,
       created: createdCollections.length,
       errors,
+      warnings,
+      simulation: simulation.report(),
       message:
-        errors.length === 0
+        (errors.length === 0
           ? `${createdCollections.length} coleções criadas com sucesso`
-          : `${createdCollections.length} coleções OK, ${errors.length} com problema`,
+          : `${createdCollections.length} coleções OK, ${errors.length} com problema`) +
+        (assigned.length > 0 ? `, ${assigned.reduce((n, a) => n + a.count, 0)} vínculos por coluna/regra` : ""),
     });
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Erro interno";
@@ -2,47 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
 import { ShopifyClient } from "@/lib/shopify";
 import { put, del } from "@vercel/blob";
-
-const THEME_CREATE = `
-  mutation themeCreate($name: String!, $source: URL!, $role: ThemeRole!) {
-    themeCreate(name: $name, source: $source, role: $role) {
-      theme {
-        id
-        name
-        processing
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const THEME_STATUS = `
-  query getTheme($id: ID!) {
-    theme(id: $id) {
-      id
-      processing
-    }
-  }
-`;
-
-const LIST_THEMES = `
-  query listThemes {
-    themes(first: 50) {
-      nodes { id name role }
-    }
-  }
-`;
+import { openLedger } from "@/lib/onboarding-ledger";
+import { openSimulation } from "@/lib/simulation";
+import { openCancellation, type StepCancellation } from "@/lib/step-cancellation";
+import { checkThemeZip } from "@/lib/theme-zip";
+import { createTheme, getThemeProcessing, listThemes } from "@/lib/admin-operations";
 
 async function findExistingTheme(
   client: ShopifyClient,
   themeName: string
 ): Promise<string | null> {
   try {
-    const data = await client.graphql(LIST_THEMES);
-    const result = data as {
-      themes: { nodes: { id: string; name: string; role: string }[] };
-    };
-    const match = result.themes.nodes.find((t) => t.name === themeName);
+    const match = (await listThemes(client)).find((t) => t.name === themeName);
     return match?.id || null;
   } catch (err) {
     console.error("[step4] Erro ao listar temas:", err);
@@ -52,17 +23,19 @@ async function findExistingTheme(
 
 async function waitForProcessing(
   client: ShopifyClient,
-  themeId: string
+  themeId: string,
+  cancellation: StepCancellation
 ): Promise<boolean> {
   const MAX_POLLS = 60;
   const POLL_INTERVAL = 3000;
 
   for (let i = 0; i < MAX_POLLS; i++) {
     await new Promise((r) => setTimeout(r, POLL_INTERVAL));
+    if (await cancellation.checkpoint()) return false;
     try {
-      const data = await client.graphql(THEME_STATUS, { id: themeId });
-      const result = data as { theme: { id: string; processing: boolean } };
-      if (!result.theme.processing) return true;
+      const processing = await getThemeProcessing(client, themeId);
+      if (processing === null) console.error(`[step4] Tema ${themeId} não encontrado no polling ${i + 1}`);
+      else if (!processing) return true;
     } catch (err) {
       console.error(`[step4] Erro no polling ${i + 1}:`, err);
     }
@@ -70,6 +43,11 @@ async function waitForProcessing(
   return false;
 }
 
+function cancelled(message: string, themeId?: string) {
+  console.error(`[step4] ${message}`);
+  return NextResponse.json({ type: "cancelled", success: false, themeId, message, errors: [] });
+}
+
 export async function POST(request: NextRequest) {
   const session = await getSession();
   if (!session) {
@@ -77,6 +55,7 @@ export async function POST(request: NextRequest) {
   }
 
   let blobUrl: string | null = null;
+  const cancellation = openCancellation(request, session.shop);
 
   try {
     const formData = await request.formData();
@@ -89,10 +68,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 4);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 4);
     const storeName = session.shop.replace(".myshopify.com", "");
     const themeName = `VT-PRO - ${storeName}`;
 
+    // A simulação não envia o .zip; o que a Shopify recusaria é conferido aqui.
+    if (simulation.active) {
+      const problems = checkThemeZip(new Uint8Array(await themeZip.arrayBuffer()));
+      if (problems.length > 0) {
+        return NextResponse.json({
+          success: false,
+          message: problems.join("; "),
+          errors: problems,
+          simulation: simulation.report(),
+        });
+      }
+    }
+
     const existingId = await findExistingTheme(client, themeName);
     if (existingId) {
       console.error(`[step4] Tema "${themeName}" já existe (${existingId}), reutilizando.`);
@@ -100,32 +94,33 @@ export async function POST(request: NextRequest) {
         success: true,
         themeId: existingId,
         message: `Tema existente reutilizado: ${themeName}`,
+        simulation: simulation.report(),
       });
     }
 
+    // Cancelado pela página: para antes de cada passo e informa o que já foi feito.
+    if (await cancellation.checkpoint()) return cancelled("Cancelado antes do envio; nenhum tema foi criado.");
+
     // PASSO 1 — Upload do .zip para Vercel Blob Storage
-    const blob = await put(`themes/${storeName}-${Date.now()}.zip`, themeZip, {
-      access: "public",
-    });
-    blobUrl = blob.url;
-    console.error(`[step4] Blob upload OK: ${blobUrl}`);
+    if (!simulation.active) {
+      const blob = await put(`themes/${storeName}-${Date.now()}.zip`, themeZip, {
+        access: "public",
+      });
+      blobUrl = blob.url;
+      console.error(`[step4] Blob upload OK: ${blobUrl}`);
+    }
+
+    if (await cancellation.checkpoint()) return cancelled("Cancelado após o upload do .zip; nenhum tema foi criado.");
 
     // PASSO 2 — themeCreate com a URL pública do blob
-    const createData = await client.graphqlWithRetry(THEME_CREATE, {
+    const createResult = await createTheme(client, {
       name: themeName,
-      source: blobUrl,
+      source: blobUrl ?? themeZip.name,
       role: "UNPUBLISHED",
     });
 
-    const createResult = createData as {
-      themeCreate: {
-        theme: { id: string; processing: boolean } | null;
-        userErrors: { field: string; message: string }[];
-      };
-    };
-
-    if (createResult.themeCreate.userErrors.length > 0) {
-      const msgs = createResult.themeCreate.userErrors.map((e) => e.message);
+    if (createResult.userErrors.length > 0) {
+      const msgs = createResult.userErrors.map((e) => e.message);
       console.error("[step4] themeCreate userErrors:", msgs);
       return NextResponse.json({
         success: false,
@@ -134,7 +129,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const themeId = createResult.themeCreate.theme?.id;
+    const themeId = createResult.theme?.id;
     if (!themeId) {
       return NextResponse.json({
         success: false,
@@ -142,9 +137,16 @@ export async function POST(request: NextRequest) {
         errors: [],
       });
     }
-
-    // PASSO 3 — Polling até processing = false
-    const ready = await waitForProcessing(client, themeId);
+    await ledger.record("theme", themeId);
+
+    // PASSO 3 — Polling até processing = false (o tema simulado não existe na loja)
+    const ready = simulation.active || await waitForProcessing(client, themeId, cancellation);
+    if (cancellation.signal.aborted) {
+      return cancelled(
+        `Cancelado durante o processamento: tema "${themeName}" criado (${themeId}) e reutilizado na próxima execução.`,
+        themeId
+      );
+    }
     if (!ready) {
       return NextResponse.json({
         success: false,
@@ -155,18 +157,21 @@ export async function POST(request: NextRequest) {
     }
 
     // PASSO 4 — Limpar blob após sucesso
-    try {
-      await del(blobUrl);
-      blobUrl = null;
-      console.error("[step4] Blob deletado com sucesso.");
-    } catch (delErr) {
-      console.error("[step4] Falha ao deletar blob (não crítico):", delErr);
+    if (blobUrl) {
+      try {
+        await del(blobUrl);
+        blobUrl = null;
+        console.error("[step4] Blob deletado com sucesso.");
+      } catch (delErr) {
+        console.error("[step4] Falha ao deletar blob (não crítico):", delErr);
+      }
     }
 
     return NextResponse.json({
       success: true,
       themeId,
       message: `Tema "${themeName}" enviado e processado.`,
+      simulation: simulation.report(),
     });
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Erro interno";
@@ -176,6 +181,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   } finally {
+    cancellation.release();
     if (blobUrl) {
       try { await del(blobUrl); } catch { /* best effort cleanup */ }
     }
@@ -1,43 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { ShopifyClient } from "@/lib/shopify";
-
-const STAGED_UPLOADS_CREATE = `
-  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
-    stagedUploadsCreate(input: $input) {
-      stagedTargets {
-        url
-        resourceUrl
-        parameters { name value }
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const FILE_CREATE = `
-  mutation fileCreate($files: [FileCreateInput!]!) {
-    fileCreate(files: $files) {
-      files { id alt }
-      userErrors { field message }
-    }
-  }
-`;
-
-const UPDATE_COLLECTION_IMAGE = `
-  mutation collectionUpdate($input: CollectionInput!) {
-    collectionUpdate(input: $input) {
-      collection { id }
-      userErrors { field message }
-    }
-  }
-`;
-
-interface StagedTarget {
-  url: string;
-  resourceUrl: string;
-  parameters: { name: string; value: string }[];
-}
+import { ShopifyClient, forEachConcurrent, mapConcurrent } from "@/lib/shopify";
+import { openLedger, type RunLedger } from "@/lib/onboarding-ledger";
+import { isSimulated, openSimulation } from "@/lib/simulation";
+import { createImageFiles, createStagedUploads, updateCollectionImage } from "@/lib/admin-operations";
 
 interface UploadItem {
   key: string;
@@ -45,58 +11,58 @@ interface UploadItem {
   mime: string;
 }
 
+// Limite da Shopify para imagens enviadas à Files API.
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// O que o stagedUpload/fileCreate recusaria; usado pela simulação, que não envia os arquivos.
+function checkImage(item: UploadItem): string | null {
+  if (item.file.size === 0) return "Arquivo vazio";
+  if (!item.mime.startsWith("image/")) return `Tipo não suportado: ${item.mime || "desconhecido"}`;
+  if (item.file.size > MAX_IMAGE_BYTES) return "Imagem acima de 20 MB";
+  return null;
+}
+
 async function uploadSingleImage(
   client: ShopifyClient,
+  ledger: RunLedger,
   item: UploadItem
 ): Promise<{ key: string; url: string } | null> {
   try {
-    const stagedData = await client.graphqlWithRetry(STAGED_UPLOADS_CREATE, {
-      input: [
-        {
-          filename: item.file.name,
-          mimeType: item.mime,
-          httpMethod: "POST" as const,
-          resource: "IMAGE" as const,
-        },
-      ],
-    });
-
-    const result = stagedData as {
-      stagedUploadsCreate: {
-        stagedTargets: StagedTarget[];
-        userErrors: { field: string; message: string }[];
-      };
-    };
-
-    if (result.stagedUploadsCreate.userErrors.length > 0) {
-      console.error(`[step5] stagedUpload erro para ${item.key}:`, result.stagedUploadsCreate.userErrors);
+    const staged = await createStagedUploads(client, [
+      {
+        filename: item.file.name,
+        mimeType: item.mime,
+        httpMethod: "POST",
+        resource: "IMAGE",
+      },
+    ]);
+
+    if (staged.userErrors.length > 0) {
+      console.error(`[step5] stagedUpload erro para ${item.key}:`, staged.userErrors);
       return null;
     }
 
-    const target = result.stagedUploadsCreate.stagedTargets[0];
-    if (!target) return null;
+    const target = staged.stagedTargets[0];
+    if (!target?.resourceUrl) return null;
+    const resourceUrl = target.resourceUrl;
 
-    const formData = new FormData();
-    target.parameters.forEach((p) => formData.append(p.name, p.value));
-    formData.append("file", item.file);
+    if (!isSimulated(client)) {
+      const formData = new FormData();
+      target.parameters.forEach((p) => formData.append(p.name, p.value));
+      formData.append("file", item.file);
 
-    const uploadRes = await fetch(target.url, { method: "POST", body: formData });
-    if (!uploadRes.ok && uploadRes.status !== 201) {
-      console.error(`[step5] Upload S3 falhou para ${item.key}: ${uploadRes.status}`);
-      return null;
+      const uploadRes = await fetch(target.url, { method: "POST", body: formData });
+      if (!uploadRes.ok && uploadRes.status !== 201) {
+        console.error(`[step5] Upload S3 falhou para ${item.key}: ${uploadRes.status}`);
+        return null;
+      }
     }
 
-    await client.graphqlWithRetry(FILE_CREATE, {
-      files: [
-        {
-          originalSource: target.resourceUrl,
-          contentType: "IMAGE" as const,
-          alt: item.key,
-        },
-      ],
-    });
+    const fileResult = await createImageFiles(client, [{ originalSource: resourceUrl, alt: item.key }]);
+    const created = fileResult.files?.[0];
+    if (created) await ledger.record("file", created.id);
 
-    return { key: item.key, url: target.resourceUrl };
+    return { key: item.key, url: resourceUrl };
   } catch (err) {
     console.error(`[step5] Exceção ao processar ${item.key}:`, err);
     return null;
@@ -111,7 +77,9 @@ export async function POST(request: NextRequest) {
 
   try {
     const formData = await request.formData();
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 5);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 5);
 
     const logo = formData.get("logo") as File | null;
     const favicon = formData.get("favicon") as File | null;
@@ -152,28 +120,32 @@ export async function POST(request: NextRequest) {
     const urlMap: Record<string, string> = {};
     const errors: { key: string; reason: string }[] = [];
 
-    for (const item of uploads) {
-      const result = await uploadSingleImage(client, item);
+    const rejected = simulation.active ? uploads.map(checkImage) : [];
+    const results = await mapConcurrent(uploads, client.maxConcurrency, (item, i) =>
+      rejected[i] ? Promise.resolve(null) : uploadSingleImage(client, ledger, item)
+    );
+    results.forEach((result, i) => {
       if (result) {
         urlMap[result.key] = result.url;
       } else {
-        errors.push({ key: item.key, reason: "Falha no upload" });
+        errors.push({ key: uploads[i].key, reason: rejected[i] || "Falha no upload" });
       }
-    }
+    });
 
     const collectionImages: { handle: string; url: string }[] = [];
-    for (const col of collectionMeta) {
-      const colUrl = urlMap[`col_${col.handle}`];
-      if (colUrl && col.id) {
-        try {
-          await client.graphqlWithRetry(UPDATE_COLLECTION_IMAGE, {
-            input: { id: col.id, image: { src: colUrl } },
-          });
-        } catch (err) {
-          console.error(`[step5] Erro ao vincular imagem da coleção ${col.handle}:`, err);
+    const withImage = collectionMeta.filter((col) => urlMap[`col_${col.handle}`] && col.id);
+    await forEachConcurrent(withImage, client.maxConcurrency, async (col) => {
+      try {
+        const userErrors = await updateCollectionImage(client, col.id, urlMap[`col_${col.handle}`]);
+        if (userErrors.length > 0) {
+          console.error(`[step5] collectionUpdate ${col.handle}:`, userErrors.map((e) => e.message).join("; "));
         }
-        collectionImages.push({ handle: col.handle, url: colUrl });
+      } catch (err) {
+        console.error(`[step5] Erro ao vincular imagem da coleção ${col.handle}:`, err);
       }
+    });
+    for (const col of withImage) {
+      collectionImages.push({ handle: col.handle, url: urlMap[`col_${col.handle}`] });
     }
 
     const uploaded = Object.keys(urlMap).length;
@@ -188,6 +160,7 @@ export async function POST(request: NextRequest) {
       uploaded,
       failed: errors.length,
       errors,
+      simulation: simulation.report(),
       message:
         errors.length === 0
           ? `${uploaded} imagens enviadas com sucesso`
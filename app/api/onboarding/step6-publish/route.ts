@@ -1,18 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { ShopifyClient } from "@/lib/shopify";
-
-const THEME_PUBLISH = `
-  mutation themePublish($id: ID!) {
-    themePublish(id: $id) {
-      theme {
-        id
-        role
-      }
-      userErrors { field message }
-    }
-  }
-`;
+import { openLedger } from "@/lib/onboarding-ledger";
+import { openSimulation } from "@/lib/simulation";
+import { getMainTheme, publishTheme } from "@/lib/admin-operations";
 
 export async function POST(request: NextRequest) {
   const session = await getSession();
@@ -30,19 +20,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 6);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 6);
 
-    const data = await client.graphqlWithRetry(THEME_PUBLISH, { id: themeId });
+    // Tema MAIN atual, para o rollback publicá-lo de volta.
+    if (ledger.runId) {
+      try {
+        const previous = await getMainTheme(client);
+        if (previous && previous.id !== themeId) {
+          await ledger.record("theme_publish", themeId, { themeId: previous.id, name: previous.name });
+        }
+      } catch (err) {
+        console.error("[step6] Erro ao buscar tema MAIN atual:", err instanceof Error ? err.message : err);
+      }
+    }
 
-    const result = data as {
-      themePublish: {
-        theme: { id: string; role: string } | null;
-        userErrors: { field: string; message: string }[];
-      };
-    };
+    const result = await publishTheme(client, themeId);
 
-    if (result.themePublish.userErrors.length > 0) {
-      const msgs = result.themePublish.userErrors.map((e) => e.message);
+    if (result.userErrors.length > 0) {
+      const msgs = result.userErrors.map((e) => e.message);
       console.error("[step6] userErrors ao publicar tema:", msgs);
       return NextResponse.json({
         success: false,
@@ -52,12 +49,13 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const role = result.themePublish.theme?.role || "";
+    const role = result.theme?.role || "";
 
     return NextResponse.json({
       success: role === "MAIN",
       themeRole: role,
       errors: [],
+      simulation: simulation.report(),
       message: role === "MAIN" ? "Tema publicado como MAIN" : `Tema com role: ${role}`,
     });
   } catch (err) {
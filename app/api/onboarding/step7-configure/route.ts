@@ -1,58 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
 import { ShopifyClient } from "@/lib/shopify";
-
-const THEME_FILES_READ = `
-  query themeFiles($themeId: ID!) {
-    theme(id: $themeId) {
-      files(filenames: ["config/settings_data.json", "templates/index.json"], first: 2) {
-        nodes {
-          filename
-          body {
-            ... on OnlineStoreThemeFileBodyText { content }
-          }
-        }
-      }
-    }
-  }
-`;
-
-const THEME_FILES_UPSERT = `
-  mutation themeFilesUpsert($themeId: ID!, $files: [OnlineStoreThemeFilesUpsertFileInput!]!) {
-    themeFilesUpsert(themeId: $themeId, files: $files) {
-      upsertedThemeFiles { filename }
-      userErrors { field message }
-    }
-  }
-`;
-
-const FILE_CREATE = `
-  mutation fileCreate($files: [FileCreateInput!]!) {
-    fileCreate(files: $files) {
-      files {
-        id
-        ... on MediaImage {
-          id
-          fileStatus
-          image { url }
-        }
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const FILE_STATUS = `
-  query node($id: ID!) {
-    node(id: $id) {
-      ... on MediaImage {
-        id
-        fileStatus
-        image { url }
-      }
-    }
-  }
-`;
+import { openLedger, type RunLedger } from "@/lib/onboarding-ledger";
+import { isSimulatedId, openSimulation } from "@/lib/simulation";
+import { createImageFiles, getFileStatus, readThemeFiles, upsertThemeFiles } from "@/lib/admin-operations";
 
 function stripJsonComments(text: string): string {
   const start = text.indexOf("{");
@@ -68,32 +19,25 @@ function toShopifyImageRef(cdnUrl: string): string {
 
 async function uploadAndResolveImage(
   client: ShopifyClient,
+  ledger: RunLedger,
   url: string,
   alt: string
 ): Promise<{ id: string; imageUrl: string } | null> {
   try {
-    const data = await client.graphqlWithRetry(FILE_CREATE, {
-      files: [{ originalSource: url, contentType: "IMAGE", alt }],
-    });
+    const result = await createImageFiles(client, [{ originalSource: url, alt }]);
 
-    const result = data as {
-      fileCreate: {
-        files: { id: string; fileStatus?: string; image?: { url: string } }[];
-        userErrors: { field: string; message: string }[];
-      };
-    };
-
-    if (result.fileCreate.userErrors.length > 0) {
-      const msgs = result.fileCreate.userErrors.map((e) => e.message);
+    if (result.userErrors.length > 0) {
+      const msgs = result.userErrors.map((e) => e.message);
       console.error(`[step7] fileCreate userErrors para "${alt}":`, msgs);
       return null;
     }
 
-    const file = result.fileCreate.files[0];
-    if (!file?.id) {
+    const file = result.files?.[0];
+    if (!file) {
       console.error(`[step7] fileCreate não retornou ID para "${alt}".`);
       return null;
     }
+    await ledger.record("file", file.id);
 
     if (file.fileStatus === "READY" && file.image?.url) {
       return { id: file.id, imageUrl: file.image.url };
@@ -105,13 +49,12 @@ async function uploadAndResolveImage(
     for (let i = 0; i < MAX_POLLS; i++) {
       await new Promise((r) => setTimeout(r, POLL_INTERVAL));
       try {
-        const pollData = await client.graphql(FILE_STATUS, { id: file.id });
-        const node = (pollData as { node: { id: string; fileStatus: string; image?: { url: string } } }).node;
+        const node = await getFileStatus(client, file.id);
 
-        if (node.fileStatus === "READY") {
+        if (node?.fileStatus === "READY") {
           return { id: node.id, imageUrl: node.image?.url || "" };
         }
-        if (node.fileStatus === "FAILED") {
+        if (node?.fileStatus === "FAILED") {
           console.error(`[step7] Arquivo "${alt}" falhou no processamento.`);
           return null;
         }
@@ -128,25 +71,18 @@ async function uploadAndResolveImage(
   }
 }
 
+const THEME_SETTINGS_FILE = "config/settings_data.json";
+const THEME_INDEX_FILE = "templates/index.json";
+
 async function readThemeFile(
   client: ShopifyClient,
   themeId: string
 ): Promise<{ settingsData: string | null; indexJson: string | null }> {
-  const data = await client.graphql(THEME_FILES_READ, { themeId });
-  const result = data as {
-    theme: { files: { nodes: { filename: string; body?: { content?: string } }[] } };
+  const contents = await readThemeFiles(client, themeId, [THEME_SETTINGS_FILE, THEME_INDEX_FILE]);
+  return {
+    settingsData: contents?.get(THEME_SETTINGS_FILE) || null,
+    indexJson: contents?.get(THEME_INDEX_FILE) || null,
   };
-
-  let settingsData: string | null = null;
-  let indexJson: string | null = null;
-
-  for (const node of result.theme.files.nodes) {
-    const content = node.body?.content || null;
-    if (node.filename === "config/settings_data.json") settingsData = content;
-    if (node.filename === "templates/index.json") indexJson = content;
-  }
-
-  return { settingsData, indexJson };
 }
 
 function patchSettingsData(
@@ -232,20 +168,10 @@ async function upsertFileWithRetry(
 ): Promise<{ ok: boolean; error?: string }> {
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
-      const data = await client.graphqlWithRetry(THEME_FILES_UPSERT, {
-        themeId,
-        files: [{ filename, body: { type: "TEXT", value: content } }],
-      });
-
-      const result = data as {
-        themeFilesUpsert: {
-          upsertedThemeFiles: { filename: string }[] | null;
-          userErrors: { field: string; message: string }[];
-        };
-      };
+      const result = await upsertThemeFiles(client, themeId, [{ filename, content }]);
 
-      if (result.themeFilesUpsert.userErrors.length > 0) {
-        const msg = result.themeFilesUpsert.userErrors.map((e) => e.message).join("; ");
+      if (result.userErrors.length > 0) {
+        const msg = result.userErrors.map((e) => e.message).join("; ");
         console.error(`[step7] ${filename} tentativa ${attempt}/${maxAttempts} userErrors:`, msg);
         if (attempt === maxAttempts) return { ok: false, error: msg };
         await new Promise((r) => setTimeout(r, 2000 * attempt));
@@ -289,10 +215,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 7);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 7);
 
-    // PASSO 1 — Ler os arquivos atuais do tema
-    const themeFiles = await readThemeFile(client, themeId);
+    // PASSO 1 — Ler os arquivos atuais do tema. O tema criado pela simulação do step4 não
+    // existe na loja: os patches partem de arquivos vazios só para registrar os upserts.
+    const themeFiles = isSimulatedId(themeId)
+      ? { settingsData: "{}", indexJson: "{}" }
+      : await readThemeFile(client, themeId);
     if (!themeFiles.settingsData || !themeFiles.indexJson) {
       return NextResponse.json({
         success: false,
@@ -313,7 +244,7 @@ export async function POST(request: NextRequest) {
     const imageWarnings: string[] = [];
 
     for (const entry of imageEntries) {
-      const result = await uploadAndResolveImage(client, entry.url, entry.key);
+      const result = await uploadAndResolveImage(client, ledger, entry.url, entry.key);
       if (result) {
         const shopifyRef = toShopifyImageRef(result.imageUrl);
         console.log(`[step7] ${entry.key}: CDN=${result.imageUrl} → ${shopifyRef}`);
@@ -369,6 +300,7 @@ export async function POST(request: NextRequest) {
       files: upserted,
       errors,
       imageWarnings,
+      simulation: simulation.report(),
       message:
         errors.length === 0
           ? `${upserted.length} arquivos configurados com sucesso`
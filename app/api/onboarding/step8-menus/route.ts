@@ -1,125 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { ShopifyClient } from "@/lib/shopify";
 import { UK_POLICIES } from "@/lib/policies";
-
-const GET_EXISTING_PAGES = `
-  query {
-    pages(first: 50) {
-      edges {
-        node {
-          id
-          title
-          handle
-        }
-      }
-    }
-  }
-`;
-
-const PAGE_CREATE = `
-  mutation pageCreate($page: PageCreateInput!) {
-    pageCreate(page: $page) {
-      page {
-        id
-        title
-        handle
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const GET_COLLECTIONS = `
-  query {
-    collections(first: 50) {
-      edges {
-        node {
-          id
-          title
-          handle
-        }
-      }
-    }
-  }
-`;
-
-const LIST_MENUS = `
-  query {
-    menus(first: 10) {
-      edges {
-        node {
-          id
-          handle
-          title
-          items { id title type url }
-        }
-      }
-    }
-  }
-`;
-
-const MENU_CREATE = `
-  mutation menuCreate($title: String!, $handle: String!, $items: [MenuItemCreateInput!]!) {
-    menuCreate(title: $title, handle: $handle, items: $items) {
-      menu {
-        id
-        handle
-        title
-        items { id title url }
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const MENU_UPDATE = `
-  mutation menuUpdate($id: ID!, $title: String!, $items: [MenuItemUpdateInput!]!) {
-    menuUpdate(id: $id, title: $title, items: $items) {
-      menu {
-        id
-        handle
-        items { id title url }
-      }
-      userErrors { field message }
-    }
-  }
-`;
-
-const GET_ONLINE_STORE_PUBLICATION = `
-  query {
-    publications(first: 10) {
-      edges {
-        node {
-          id
-          name
-        }
-      }
-    }
-  }
-`;
-
-const PUBLISHABLE_PUBLISH = `
-  mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
-    publishablePublish(id: $id, input: $input) {
-      publishable { availablePublicationsCount { count } }
-      userErrors { field message }
-    }
-  }
-`;
-
-interface MenuNode {
-  id: string;
-  handle: string;
-  title: string;
-  items: { id: string; title: string; type: string; url: string }[];
-}
-
-interface PageNode {
-  id: string;
-  title: string;
-  handle: string;
-}
+import { openLedger } from "@/lib/onboarding-ledger";
+import { openSimulation } from "@/lib/simulation";
+import {
+  createMenu,
+  createPage,
+  getOnlineStorePublicationId,
+  listCollections,
+  listMenus,
+  listPages,
+  publishToChannel,
+  updateMenu,
+  type MenuNode,
+  type PageNode,
+} from "@/lib/admin-operations";
 
 function buildPageDefinitions(storeName: string, storeEmail: string) {
   return [
@@ -199,7 +94,9 @@ export async function POST(request: NextRequest) {
     const frontendCollections: { id: string; handle: string; name: string }[] =
       reqBody.collections || [];
 
-    const client = new ShopifyClient(session.shop, session.accessToken);
+    const simulation = openSimulation(request, 8);
+    const client = simulation.client(session.shop, session.accessToken);
+    const ledger = await openLedger(session.shop, request, 8);
     const errors: { item: string; reason: string }[] = [];
     const completed: string[] = [];
     const warnings: string[] = [];
@@ -213,9 +110,7 @@ export async function POST(request: NextRequest) {
     // ── PASSO 1: Buscar páginas existentes ──
     let existingPages: PageNode[] = [];
     try {
-      const data = await client.graphql(GET_EXISTING_PAGES);
-      const result = data as { pages: { edges: { node: PageNode }[] } };
-      existingPages = result.pages.edges.map((e) => e.node);
+      existingPages = await listPages(client);
       console.log(
         "[step8] Páginas existentes:",
         existingPages.map((p) => p.handle).join(", ") || "(nenhuma)"
@@ -234,14 +129,7 @@ export async function POST(request: NextRequest) {
 
     let publicationId: string | null = null;
     try {
-      const pubData = await client.graphql(GET_ONLINE_STORE_PUBLICATION);
-      const pubResult = pubData as {
-        publications: { edges: { node: { id: string; name: string } }[] };
-      };
-      const onlineStore = pubResult.publications.edges.find(
-        (e) => e.node.name === "Online Store"
-      );
-      publicationId = onlineStore?.node.id || null;
+      publicationId = await getOnlineStorePublicationId(client);
     } catch {
       console.error("[step8] Não foi possível buscar Online Store publication.");
     }
@@ -254,23 +142,15 @@ export async function POST(request: NextRequest) {
       }
 
       try {
-        const data = await client.graphqlWithRetry(PAGE_CREATE, {
-          page: {
-            title: pageDef.title,
-            handle: pageDef.handle,
-            body: pageDef.body,
-            isPublished: true,
-          },
+        const result = await createPage(client, {
+          title: pageDef.title,
+          handle: pageDef.handle,
+          body: pageDef.body,
+          isPublished: true,
         });
-        const result = data as {
-          pageCreate: {
-            page: PageNode | null;
-            userErrors: { field: string; message: string }[];
-          };
-        };
 
-        if (result.pageCreate.userErrors.length > 0) {
-          const msg = result.pageCreate.userErrors
+        if (result.userErrors.length > 0) {
+          const msg = result.userErrors
             .map((e) => e.message)
             .join("; ");
           console.error(`[step8] pageCreate "${pageDef.handle}":`, msg);
@@ -278,16 +158,18 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        if (result.pageCreate.page) {
-          createdPages.set(pageDef.handle, result.pageCreate.page);
+        if (result.page) {
+          const page = result.page;
+          await ledger.record("page", page.id);
+          createdPages.set(pageDef.handle, page);
           completed.push(`Página: ${pageDef.title}`);
 
           if (publicationId) {
             try {
-              await client.graphqlWithRetry(PUBLISHABLE_PUBLISH, {
-                id: result.pageCreate.page.id,
-                input: [{ publicationId }],
-              });
+              const pubErrors = await publishToChannel(client, page.id, publicationId);
+              if (pubErrors.length > 0) {
+                console.error(`[step8] Publish página ${pageDef.handle}:`, pubErrors.map((e) => e.message).join("; "));
+              }
             } catch (pubErr) {
               console.error(
                 `[step8] Publish página ${pageDef.handle}:`,
@@ -313,14 +195,7 @@ export async function POST(request: NextRequest) {
 
     if (collectionsForMenu.length === 0) {
       try {
-        const colData = await client.graphql(GET_COLLECTIONS);
-        const colResult = colData as {
-          collections: {
-            edges: { node: { id: string; title: string; handle: string } }[];
-          };
-        };
-        collectionsForMenu = colResult.collections.edges
-          .map((e) => e.node)
+        collectionsForMenu = (await listCollections(client))
           .filter((c) => c.handle !== "best-sellers" && c.handle !== "frontpage");
         console.log(
           "[step8] Coleções da loja:",
@@ -334,11 +209,7 @@ export async function POST(request: NextRequest) {
     // ── PASSO 4: Buscar menus existentes ──
     let menus: MenuNode[] = [];
     try {
-      const menuData = await client.graphql(LIST_MENUS);
-      const result = menuData as {
-        menus: { edges: { node: MenuNode }[] };
-      };
-      menus = result.menus.edges.map((e) => e.node);
+      menus = await listMenus(client);
       console.log(
         "[step8] Menus existentes:",
         menus.map((m) => `${m.handle} (${m.id}, ${m.items.length} itens)`).join(", ") || "(nenhum)"
@@ -352,14 +223,15 @@ export async function POST(request: NextRequest) {
     // ── PASSO 5: Main Menu → links para coleções ──
     const mainMenuItems = collectionsForMenu.map((col) => ({
       title: col.title,
-      type: "COLLECTION",
+      type: "COLLECTION" as const,
       resourceId: col.id,
     }));
 
     const existingMain = menus.find((m) => m.handle === "main-menu");
     if (existingMain) {
       try {
-        const data = await client.graphqlWithRetry(MENU_UPDATE, {
+        await ledger.record("menu_update", existingMain.id, { title: existingMain.title, items: existingMain.items });
+        const userErrors = await updateMenu(client, {
           id: existingMain.id,
           title: existingMain.title,
           items: mainMenuItems.map((item) => ({
@@ -368,11 +240,8 @@ export async function POST(request: NextRequest) {
             resourceId: item.resourceId,
           })),
         });
-        const result = data as {
-          menuUpdate: { userErrors: { field: string; message: string }[] };
-        };
-        if (result.menuUpdate.userErrors.length > 0) {
-          const msg = result.menuUpdate.userErrors.map((e) => e.message).join("; ");
+        if (userErrors.length > 0) {
+          const msg = userErrors.map((e) => e.message).join("; ");
           console.error("[step8] menuUpdate main-menu:", msg);
           errors.push({ item: "Main Menu (update)", reason: msg });
         } else {
@@ -385,19 +254,17 @@ export async function POST(request: NextRequest) {
       }
     } else {
       try {
-        const data = await client.graphqlWithRetry(MENU_CREATE, {
+        const result = await createMenu(client, {
           title: "Main Menu",
           handle: "main-menu",
           items: mainMenuItems,
         });
-        const result = data as {
-          menuCreate: { userErrors: { field: string; message: string }[] };
-        };
-        if (result.menuCreate.userErrors.length > 0) {
-          const msg = result.menuCreate.userErrors.map((e) => e.message).join("; ");
+        if (result.userErrors.length > 0) {
+          const msg = result.userErrors.map((e) => e.message).join("; ");
           console.error("[step8] menuCreate main-menu:", msg);
           errors.push({ item: "Main Menu (create)", reason: msg });
         } else {
+          if (result.menu) await ledger.record("menu", result.menu.id);
           completed.push(`Main Menu criado (${mainMenuItems.length} coleções)`);
         }
       } catch (err) {
@@ -418,7 +285,7 @@ export async function POST(request: NextRequest) {
       "about-us",
     ];
 
-    const footerMenuItems: { title: string; type: string; resourceId: string }[] = [];
+    const footerMenuItems: { title: string; type: "PAGE"; resourceId: string }[] = [];
     for (const handle of footerHandles) {
       const page = createdPages.get(handle);
       if (page) {
@@ -435,7 +302,8 @@ export async function POST(request: NextRequest) {
     const existingFooter = menus.find((m) => m.handle === "footer");
     if (existingFooter) {
       try {
-        const data = await client.graphqlWithRetry(MENU_UPDATE, {
+        await ledger.record("menu_update", existingFooter.id, { title: existingFooter.title, items: existingFooter.items });
+        const userErrors = await updateMenu(client, {
           id: existingFooter.id,
           title: existingFooter.title,
           items: footerMenuItems.map((item) => ({
@@ -444,11 +312,8 @@ export async function POST(request: NextRequest) {
             resourceId: item.resourceId,
           })),
         });
-        const result = data as {
-          menuUpdate: { userErrors: { field: string; message: string }[] };
-        };
-        if (result.menuUpdate.userErrors.length > 0) {
-          const msg = result.menuUpdate.userErrors.map((e) => e.message).join("; ");
+        if (userErrors.length > 0) {
+          const msg = userErrors.map((e) => e.message).join("; ");
           console.error("[step8] menuUpdate footer:", msg);
           errors.push({ item: "Footer Menu (update)", reason: msg });
         } else {
@@ -461,19 +326,17 @@ export async function POST(request: NextRequest) {
       }
     } else {
       try {
-        const data = await client.graphqlWithRetry(MENU_CREATE, {
+        const result = await createMenu(client, {
           title: "Footer",
           handle: "footer",
           items: footerMenuItems,
         });
-        const result = data as {
-          menuCreate: { userErrors: { field: string; message: string }[] };
-        };
-        if (result.menuCreate.userErrors.length > 0) {
-          const msg = result.menuCreate.userErrors.map((e) => e.message).join("; ");
+        if (result.userErrors.length > 0) {
+          const msg = result.userErrors.map((e) => e.message).join("; ");
           console.error("[step8] menuCreate footer:", msg);
           errors.push({ item: "Footer Menu (create)", reason: msg });
         } else {
+          if (result.menu) await ledger.record("menu", result.menu.id);
           completed.push(`Footer Menu criado (${footerMenuItems.length} páginas)`);
         }
       } catch (err) {
@@ -488,6 +351,7 @@ export async function POST(request: NextRequest) {
       completed,
       warnings,
       errors,
+      simulation: simulation.report(),
       message:
         errors.length === 0
           ? `${completed.length} itens configurados com sucesso`
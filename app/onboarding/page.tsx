@@ -1,10 +1,24 @@
 "use client";
 
 import { useState, useRef, FormEvent, useCallback, useEffect } from "react";
+import type { CatalogPreviewPage, CsvIssue, ImportedProductSummary, PlannedChange, ProductChangeReport } from "@/types/onboarding";
+import type { ColumnMapping, ColumnMappingRule } from "@/lib/column-mapping";
+import type { MappingProfile } from "@/lib/mapping-profiles";
+import type { ImportRun } from "@/lib/import-runs";
+import type { PriceRule, PriceRuleScope } from "@/lib/price-rules";
+import type { ExternalLinkMode } from "@/lib/html-sanitizer";
+import type { CollectionRule, CollectionRuleField } from "@/lib/collection-rules";
+import {
+  SMART_COLLECTION_RELATIONS,
+  type SmartCollectionColumn,
+  type SmartCollectionRelation,
+  type SmartCollectionRuleSet,
+} from "@/lib/smart-collections";
 
 interface CollectionField {
   name: string;
   image: File | null;
+  ruleSet?: SmartCollectionRuleSet;
 }
 
 interface StepDef {
@@ -29,12 +43,27 @@ interface StepSummary {
   message: string;
   details: string[];
   hasWarnings: boolean;
+  issues?: CsvIssue[];
 }
 
+interface SanitizerSettings {
+  enabled: boolean;
+  externalLinks: ExternalLinkMode;
+  rewriteLinksTo: string;
+  internalHosts: string;
+}
+
+type ImportMode = "create" | "upsert" | "bulk";
+
 interface PipelineData {
-  csvText: string;
+  csvEncoding: string;
+  csvDelimiter: string;
+  csvSheet: string;
+  csvProfile: string;
+  csvMapping: string;
   totalProducts: number;
   productIds: string[];
+  products: ImportedProductSummary[];
   collections: { id: string; handle: string; name: string }[];
   bestSellersId: string;
   themeId: string;
@@ -57,8 +86,22 @@ export default function OnboardingPage() {
   const [collections, setCollections] = useState<CollectionField[]>([
     { name: "", image: null },
   ]);
+  const [collectionRules, setCollectionRules] = useState<CollectionRule[]>([]);
   const [themeZip, setThemeZip] = useState<File | null>(null);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState("");
+  const [sourceHeaders, setSourceHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [priceRules, setPriceRules] = useState<PriceRule[]>([]);
+  const [sanitizer, setSanitizer] = useState<SanitizerSettings>({
+    enabled: true, externalLinks: "strip", rewriteLinksTo: "", internalHosts: "",
+  });
+  const [importMode, setImportMode] = useState<ImportMode>("create");
+  const [importRun, setImportRun] = useState<ImportRun | null>(null);
+  const [resumeImport, setResumeImport] = useState(false);
+  const [onboardingRunId, setOnboardingRunId] = useState("");
+  const [simulationPlan, setSimulationPlan] = useState<Record<number, PlannedChange[]> | null>(null);
 
   const [running, setRunning] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
@@ -71,12 +114,20 @@ export default function OnboardingPage() {
 
   const [manualStatus, setManualStatus] = useState<Record<string, "pending" | "running" | "done" | "error">>({});
   const [runningManualStep, setRunningManualStep] = useState<number | null>(null);
-  const [manualLogs, setManualLogs] = useState<Record<number, { message: string; details: string[] }>>({});
+  const [manualLogs, setManualLogs] = useState<Record<number, { message: string; details: string[]; issues?: CsvIssue[] }>>({});
   const [expandedManualLogs, setExpandedManualLogs] = useState<Record<number, boolean>>({});
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
 
+  // Etapa em execução: o token leva o servidor a parar no próximo ponto seguro e responder
+  // "cancelled"; o fetch só é abortado se o servidor não reconhecer o token.
+  const runningStepRef = useRef<{ token: string; controller: AbortController } | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  // Execução cujo registro (ledger) recebe os recursos criados; base do rollback.
+  const onboardingRunRef = useRef("");
+  // Setup automático em modo simulação: as etapas recebem o header e só devolvem o plano.
+  const simulateRef = useRef(false);
   const pipeRef = useRef<PipelineData>({
-    csvText: "", totalProducts: 0, productIds: [], collections: [],
+    csvEncoding: "", csvDelimiter: "", csvSheet: "", csvProfile: "", csvMapping: "", totalProducts: 0, productIds: [], products: [], collections: [],
     bestSellersId: "", themeId: "", logoUrl: "", faviconUrl: "",
     bannerDesktopUrl: "", bannerMobileUrl: "", collectionImages: [],
   });
@@ -86,6 +137,13 @@ export default function OnboardingPage() {
       const saved = localStorage.getItem("onboarding_steps");
       if (saved) setManualStatus(JSON.parse(saved));
     } catch { /* ignore */ }
+    const runId = localStorage.getItem("onboarding_import_run");
+    if (runId) refreshImportRun(runId);
+    const onboardingRun = localStorage.getItem("onboarding_run");
+    if (onboardingRun) {
+      onboardingRunRef.current = onboardingRun;
+      setOnboardingRunId(onboardingRun);
+    }
   }, []);
 
   useEffect(() => {
@@ -102,6 +160,41 @@ export default function OnboardingPage() {
     });
   }
 
+  // Última importação do step2 (checkpoints no servidor), para reconectar ou retomar.
+  async function refreshImportRun(id: string) {
+    try {
+      const res = await fetch(`/api/onboarding/import-runs?id=${encodeURIComponent(id)}`);
+      if (res.status === 404) {
+        localStorage.removeItem("onboarding_import_run");
+        setImportRun(null);
+        return;
+      }
+      const data = await res.json();
+      if (res.ok) setImportRun(data.run);
+    } catch { /* ignore */ }
+  }
+
+  // Sem execução registrada as etapas rodam normalmente, só não entram no rollback.
+  async function ensureOnboardingRun(fresh: boolean) {
+    if (onboardingRunRef.current && !fresh) return;
+    try {
+      const res = await fetch("/api/onboarding/runs", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onboardingRunRef.current = data.runId;
+      setOnboardingRunId(data.runId);
+      localStorage.setItem("onboarding_run", data.runId);
+    } catch (err) {
+      console.error("Falha ao registrar execução:", err);
+    }
+  }
+
+  function clearOnboardingRun() {
+    onboardingRunRef.current = "";
+    setOnboardingRunId("");
+    localStorage.removeItem("onboarding_run");
+  }
+
   function addCollection() {
     if (collections.length >= 7) return;
     setCollections([...collections, { name: "", image: null }]);
@@ -111,6 +204,14 @@ export default function OnboardingPage() {
     setCollections(collections.filter((_, i) => i !== idx));
   }
 
+  function selectCsvFile(file: File | null) {
+    setCsvFile(file);
+    setSheetNames([]);
+    setSelectedSheet("");
+    setSourceHeaders([]);
+    setColumnMapping({});
+  }
+
   function updateCollection(idx: number, field: "name" | "image", value: string | File | null) {
     const updated = [...collections];
     if (field === "name") updated[idx].name = value as string;
@@ -118,13 +219,29 @@ export default function OnboardingPage() {
     setCollections(updated);
   }
 
-  async function readFileAsText(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsText(file);
-    });
+  function updateCollectionRuleSet(idx: number, ruleSet: SmartCollectionRuleSet | undefined) {
+    setCollections(collections.map((c, i) => (i === idx ? { ...c, ruleSet } : c)));
+  }
+
+  // Arquivo + opções detectadas na etapa 1, compartilhados pelo step2 e pelo preview.
+  function buildImportForm(): FormData {
+    const pipe = pipeRef.current;
+    const csvFd = new FormData();
+    if (csvFile) csvFd.append("csv", csvFile);
+    if (pipe.csvEncoding) csvFd.append("encoding", pipe.csvEncoding);
+    if (pipe.csvDelimiter) csvFd.append("delimiter", pipe.csvDelimiter);
+    if (pipe.csvSheet) csvFd.append("sheet", pipe.csvSheet);
+    if (pipe.csvProfile) csvFd.append("profile", pipe.csvProfile);
+    if (pipe.csvMapping) csvFd.append("mapping", pipe.csvMapping);
+    if (priceRules.length > 0) csvFd.append("priceRules", JSON.stringify(priceRules));
+    csvFd.append("sanitizer", JSON.stringify({
+      enabled: sanitizer.enabled,
+      externalLinks: sanitizer.externalLinks,
+      rewriteLinksTo: sanitizer.rewriteLinksTo,
+      internalHosts: sanitizer.internalHosts.split(",").map((h) => h.trim()).filter(Boolean),
+    }));
+    if (importMode !== "create") csvFd.append("importMode", importMode);
+    return csvFd;
   }
 
   function buildRequestBody(stepId: number): { body: BodyInit; headers: Record<string, string> } {
@@ -133,14 +250,29 @@ export default function OnboardingPage() {
     let headers: Record<string, string> = {};
 
     switch (stepId) {
-      case 1:
-      case 2:
-        body = JSON.stringify({ csvText: pipe.csvText });
-        headers["Content-Type"] = "application/json";
+      case 1: {
+        const csvFd = new FormData();
+        if (csvFile) csvFd.append("csv", csvFile);
+        if (selectedSheet) csvFd.append("sheet", selectedSheet);
+        if (Object.keys(columnMapping).length > 0) csvFd.append("mapping", JSON.stringify(columnMapping));
+        body = csvFd;
+        break;
+      }
+      case 2: {
+        const csvFd = buildImportForm();
+        csvFd.append("totalProducts", String(pipe.totalProducts));
+        if (resumeImport && importRun) csvFd.append("runId", importRun.id);
+        body = csvFd;
         break;
+      }
       case 3: {
-        const colNames = collections.filter((c) => c.name.trim()).map((c) => c.name.trim());
-        body = JSON.stringify({ collections: colNames, productIds: pipe.productIds });
+        const colRequests = collections.filter((c) => c.name.trim()).map((c) => (
+          c.ruleSet ? { name: c.name.trim(), ruleSet: c.ruleSet } : c.name.trim()
+        ));
+        body = JSON.stringify({
+          collections: colRequests, productIds: pipe.productIds,
+          products: pipe.products, collectionRules,
+        });
         headers["Content-Type"] = "application/json";
         break;
       }
@@ -189,6 +321,8 @@ export default function OnboardingPage() {
         headers["Content-Type"] = "application/json";
     }
 
+    if (simulateRef.current) headers["X-Onboarding-Simulate"] = "1";
+    else if (onboardingRunRef.current) headers["X-Onboarding-Run"] = onboardingRunRef.current;
     return { body, headers };
   }
 
@@ -213,19 +347,40 @@ export default function OnboardingPage() {
       for (const w of data.warnings) details.push(`⚠ ${w}`);
     }
 
-    const message = data.message || (stepId === 1
-      ? `${data.totalProducts || 0} produtos no CSV`
-      : "Concluído");
+    const plan: PlannedChange[] | undefined = data.simulation?.plan;
+    const message = plan && data.success
+      ? `Simulação: ${describePlan(plan)}`
+      : data.message || (stepId === 1
+        ? `${data.totalProducts || 0} produtos no CSV`
+        : "Concluído");
 
-    return { message, details, hasWarnings: details.length > 0 };
+    const issues = Array.isArray(data.issues) && data.issues.length > 0 ? (data.issues as CsvIssue[]) : undefined;
+
+    return { message, details, hasWarnings: details.length > 0, issues };
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   function applyPipelineData(stepId: number, data: any) {
     const pipe = pipeRef.current;
     switch (stepId) {
-      case 1: pipe.totalProducts = data.totalProducts || 0; break;
-      case 2: pipe.productIds = data.productIds || []; break;
+      case 1:
+        pipe.totalProducts = data.totalProducts || 0;
+        pipe.csvEncoding = data.encoding || "";
+        pipe.csvDelimiter = data.delimiter || "";
+        pipe.csvSheet = data.sheet || "";
+        pipe.csvProfile = data.profile || "";
+        pipe.csvMapping = data.mapping ? JSON.stringify(data.mapping) : "";
+        setSheetNames(Array.isArray(data.sheets) ? data.sheets : []);
+        if (data.sheet) setSelectedSheet(data.sheet);
+        setSourceHeaders(Array.isArray(data.sourceHeaders) ? data.sourceHeaders : []);
+        if (data.suggestedMapping) {
+          setColumnMapping((prev) => Object.keys(prev).length > 0 ? prev : data.suggestedMapping);
+        }
+        break;
+      case 2:
+        pipe.productIds = data.productIds || [];
+        pipe.products = data.products || [];
+        break;
       case 3:
         pipe.collections = data.collections || [];
         pipe.bestSellersId = data.bestSellersId || "";
@@ -241,53 +396,141 @@ export default function OnboardingPage() {
     }
   }
 
+  async function cancelStep() {
+    const step = runningStepRef.current;
+    if (!step || cancelling) return;
+    setCancelling(true);
+    try {
+      const res = await fetch("/api/onboarding/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: step.token }),
+      });
+      const data = await res.json();
+      if (data.success) return;
+    } catch {
+      /* sem confirmação do servidor: cai para o abort */
+    }
+    // Etapa sem ponto de cancelamento no servidor: abandona a resposta.
+    step.controller.abort();
+  }
+
+  // Registra a etapa para o cancelamento e manda o token junto da requisição.
+  function startStep(headers: Record<string, string>): AbortController {
+    const token = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+    const controller = new AbortController();
+    runningStepRef.current = { token, controller };
+    headers["X-Onboarding-Cancel"] = token;
+    return controller;
+  }
+
+  function endStep() {
+    runningStepRef.current = null;
+    setCancelling(false);
+  }
+
+  // Resposta local de uma etapa abandonada: o evento "cancelled" do servidor não chega
+  // depois que o fetch é abortado.
+  function cancelledResult(progress: string) {
+    return {
+      type: "cancelled",
+      success: false,
+      message: `Cancelado${progress ? ` em ${progress}` : ""}; o que já foi concluído permanece na loja`,
+    };
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  async function runStreamingStep(stepDef: StepDef): Promise<any> {
+  async function runJsonStep(stepDef: StepDef): Promise<any> {
     const { body, headers } = buildRequestBody(stepDef.id);
-    const res = await fetch(stepDef.endpoint, { method: "POST", headers, body });
-
-    if (!res.ok && !res.body) {
-      const data = await res.json();
-      return data;
+    const controller = startStep(headers);
+    try {
+      const res = await fetch(stepDef.endpoint, { method: "POST", headers, body, signal: controller.signal });
+      return await res.json();
+    } catch (err) {
+      if (!controller.signal.aborted) throw err;
+      return cancelledResult("");
+    } finally {
+      endStep();
     }
+  }
 
-    const reader = res.body!.getReader();
-    const decoder = new TextDecoder();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let finalData: any = null;
-    let buffer = "";
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function runStreamingStep(stepDef: StepDef): Promise<any> {
+    const { body, headers } = buildRequestBody(stepDef.id);
+    const controller = startStep(headers);
+    // Com o cancelamento pedido, o servidor ainda manda "cancelled" com o que já foi importado.
+    try {
+      let progress = "";
+      let runId = "";
+      let res: Response;
+      try {
+        res = await fetch(stepDef.endpoint, { method: "POST", headers, body, signal: controller.signal });
+      } catch (err) {
+        if (!controller.signal.aborted) throw err;
+        return cancelledResult("");
+      }
 
-    while (true) {
-      const { done: readerDone, value } = await reader.read();
-      if (readerDone) break;
+      if (!res.ok && !res.body) {
+        const data = await res.json();
+        return data;
+      }
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let finalData: any = null;
+      let buffer = "";
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
         try {
-          const event = JSON.parse(line);
-          if (event.type === "progress") {
-            setStepProgress(`${event.processed}/${event.total}`);
-          } else if (event.type === "complete") {
-            finalData = event;
+          chunk = await reader.read();
+        } catch (err) {
+          if (!controller.signal.aborted) throw err;
+          if (runId) refreshImportRun(runId);
+          return cancelledResult(progress);
+        }
+        const { done: readerDone, value } = chunk;
+        if (readerDone) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            const event = JSON.parse(line);
+            if (event.type === "progress") {
+              progress = `${event.processed}/${event.total}`;
+              setStepProgress(progress);
+            } else if (event.type === "run") {
+              runId = event.runId;
+              localStorage.setItem("onboarding_import_run", runId);
+              setImportRun(null);
+              setResumeImport(false);
+            } else if (event.type === "complete" || event.type === "cancelled") {
+              finalData = event;
+            }
+          } catch {
+            /* incomplete JSON chunk, ignore */
           }
-        } catch {
-          /* incomplete JSON chunk, ignore */
         }
       }
-    }
 
-    if (buffer.trim()) {
-      try {
-        const event = JSON.parse(buffer);
-        if (event.type === "complete") finalData = event;
-      } catch { /* ignore */ }
-    }
+      if (buffer.trim()) {
+        try {
+          const event = JSON.parse(buffer);
+          if (event.type === "complete" || event.type === "cancelled") finalData = event;
+        } catch { /* ignore */ }
+      }
+
+      if (runId) refreshImportRun(runId);
 
-    return finalData || { success: false, errors: [{ handle: "_stream", reason: "No final event received" }] };
+      return finalData || { success: false, errors: [{ handle: "_stream", reason: "No final event received" }] };
+    } finally {
+      endStep();
+    }
   }
 
   const runStep = useCallback(async (stepDef: StepDef): Promise<boolean> => {
@@ -299,12 +542,13 @@ export default function OnboardingPage() {
     if (stepDef.streaming) {
       data = await runStreamingStep(stepDef);
     } else {
-      const { body, headers } = buildRequestBody(stepDef.id);
-      const res = await fetch(stepDef.endpoint, { method: "POST", headers, body });
-      data = await res.json();
+      data = await runJsonStep(stepDef);
     }
 
     applyPipelineData(stepDef.id, data);
+    if (data.simulation) {
+      setSimulationPlan((prev) => ({ ...prev, [stepDef.id]: data.simulation.plan }));
+    }
 
     const summary = extractSummary(stepDef.id, data);
     setStepSummaries((prev) => ({ ...prev, [stepDef.id]: summary }));
@@ -316,20 +560,25 @@ export default function OnboardingPage() {
 
     return true;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [primaryColor, secondaryColor, logo, favicon, bannerDesktop, bannerMobile, collections]);
+  }, [primaryColor, secondaryColor, logo, favicon, bannerDesktop, bannerMobile, collections, csvFile, selectedSheet, columnMapping, priceRules, sanitizer, importMode, resumeImport, importRun, collectionRules]);
 
   async function handleStart(e: FormEvent) {
     e.preventDefault();
+    await runPipeline(false);
+  }
+
+  async function runPipeline(simulate: boolean) {
     if (!csvFile) return;
 
+    simulateRef.current = simulate;
     setRunning(true);
     setCompletedSteps([]);
     setStepErrors({});
     setStepSummaries({});
     setExpandedSteps({});
     setDone(false);
-
-    pipeRef.current.csvText = await readFileAsText(csvFile);
+    setSimulationPlan(simulate ? {} : null);
+    if (!simulate) await ensureOnboardingRun(true);
 
     for (const stepDef of STEPS) {
       setCurrentStep(stepDef.id);
@@ -344,7 +593,7 @@ export default function OnboardingPage() {
       }
     }
 
-    setDone(true);
+    setDone(!simulate);
     setRunning(false);
   }
 
@@ -352,6 +601,7 @@ export default function OnboardingPage() {
     setRunning(true);
     const failedStep = STEPS.find((s) => stepErrors[s.id]);
     if (!failedStep) return;
+    if (!simulateRef.current) await ensureOnboardingRun(false);
 
     setStepErrors((prev) => { const n = { ...prev }; delete n[failedStep.id]; return n; });
 
@@ -370,7 +620,7 @@ export default function OnboardingPage() {
       }
     }
 
-    setDone(true);
+    setDone(!simulateRef.current);
     setRunning(false);
   }
 
@@ -380,29 +630,25 @@ export default function OnboardingPage() {
 
   async function executeManualStep(stepDef: StepDef) {
     const key = `step${stepDef.id}`;
+    simulateRef.current = false;
     setRunningManualStep(stepDef.id);
     setStepProgress("");
     saveManualStatus(key, "running");
+    await ensureOnboardingRun(false);
 
     try {
-      if ((stepDef.id === 1 || stepDef.id === 2) && csvFile && !pipeRef.current.csvText) {
-        pipeRef.current.csvText = await readFileAsText(csvFile);
-      }
-
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       let data: any;
 
       if (stepDef.streaming) {
         data = await runStreamingStep(stepDef);
       } else {
-        const { body, headers } = buildRequestBody(stepDef.id);
-        const res = await fetch(stepDef.endpoint, { method: "POST", headers, body });
-        data = await res.json();
+        data = await runJsonStep(stepDef);
       }
 
       applyPipelineData(stepDef.id, data);
       const summary = extractSummary(stepDef.id, data);
-      setManualLogs(prev => ({ ...prev, [stepDef.id]: { message: summary.message, details: summary.details } }));
+      setManualLogs(prev => ({ ...prev, [stepDef.id]: { message: summary.message, details: summary.details, issues: summary.issues } }));
 
       if (data.success) {
         saveManualStatus(key, "done");
@@ -522,6 +768,7 @@ export default function OnboardingPage() {
                       disabled={runningManualStep !== null}
                     />
                     <FileInput label="Imagem da coleção" accept=".jpg,.jpeg,.png" onChange={(f) => updateCollection(idx, "image", f)} fileName={col.image?.name} disabled={runningManualStep !== null} compact />
+                    <SmartRuleSetEditor ruleSet={col.ruleSet} onChange={(ruleSet) => updateCollectionRuleSet(idx, ruleSet)} disabled={runningManualStep !== null} />
                   </div>
                   {collections.length > 1 && (
                     <button type="button" onClick={() => removeCollection(idx)} className="text-red-400 hover:text-red-300 text-xl mt-1" disabled={runningManualStep !== null}>&times;</button>
@@ -531,11 +778,22 @@ export default function OnboardingPage() {
               {collections.length < 7 && (
                 <button type="button" onClick={addCollection} className="text-sm text-emerald-400 hover:text-emerald-300" disabled={runningManualStep !== null}>+ Adicionar Coleção</button>
               )}
+              <CollectionRulesEditor rules={collectionRules} onChange={setCollectionRules}
+                collectionNames={collections.map((c) => c.name.trim()).filter(Boolean)} disabled={runningManualStep !== null} />
             </fieldset>
 
             <fieldset className="space-y-4">
               <legend className="text-lg font-semibold text-white mb-2">CSV de Produtos</legend>
-              <FileInput label="Arquivo CSV (formato Shopify/DSers)" accept=".csv" onChange={setCsvFile} fileName={csvFile?.name} disabled={runningManualStep !== null} />
+              <FileInput label="Arquivo CSV ou planilha (formato Shopify/DSers)" accept=".csv,.xlsx,.xls,.ods" onChange={selectCsvFile} fileName={csvFile?.name} disabled={runningManualStep !== null} />
+              <SheetPicker sheets={sheetNames} value={selectedSheet} onChange={setSelectedSheet} disabled={runningManualStep !== null} />
+              <ColumnMappingEditor headers={sourceHeaders} mapping={columnMapping} onChange={setColumnMapping} disabled={runningManualStep !== null} />
+              <PriceRulesEditor rules={priceRules} onChange={setPriceRules} disabled={runningManualStep !== null} />
+              <SanitizerSettingsPanel settings={sanitizer} onChange={setSanitizer} disabled={runningManualStep !== null} />
+              <ImportModeSelect mode={importMode} onChange={setImportMode} disabled={runningManualStep !== null} />
+              {importRun && <ImportRunBanner run={importRun} resume={resumeImport} onResumeChange={setResumeImport}
+                onRefresh={() => refreshImportRun(importRun.id)} disabled={runningManualStep !== null} />}
+              {sourceHeaders.length > 0 && <CatalogPreview buildForm={buildImportForm} />}
+              {sourceHeaders.length > 0 && <StoreDiffPreview buildForm={buildImportForm} />}
             </fieldset>
           </div>
 
@@ -593,6 +851,12 @@ export default function OnboardingPage() {
                     >
                       {isRunning ? "Executando..." : status === "done" ? "Re-executar" : status === "error" ? "Tentar novamente" : "Executar"}
                     </button>
+                    {isRunning && (
+                      <button onClick={cancelStep} disabled={cancelling}
+                        className="shrink-0 px-4 py-2 text-sm font-semibold rounded-lg bg-red-600/30 hover:bg-red-600/50 disabled:opacity-40 disabled:cursor-not-allowed text-red-300 border border-red-500/30 transition-all">
+                        {cancelling ? "Cancelando..." : "Cancelar"}
+                      </button>
+                    )}
                   </div>
 
                   {log && log.details.length > 0 && !isRunning && (
@@ -606,7 +870,7 @@ export default function OnboardingPage() {
                       </button>
                       {isExpanded && (
                         <div className="mt-2 bg-black/20 rounded-lg p-3 max-h-40 overflow-y-auto">
-                          {log.details.map((d, i) => (
+                          {log.issues ? <CsvIssueList issues={log.issues} /> : log.details.map((d, i) => (
                             <p key={i} className="text-xs text-slate-300 leading-relaxed">{d}</p>
                           ))}
                         </div>
@@ -618,6 +882,10 @@ export default function OnboardingPage() {
             })}
           </div>
 
+          {onboardingRunId && (
+            <RollbackButton runId={onboardingRunId} disabled={runningManualStep !== null} />
+          )}
+
           {/* ── RESET ── */}
           <button
             onClick={() => {
@@ -625,6 +893,7 @@ export default function OnboardingPage() {
               setManualLogs({});
               setExpandedManualLogs({});
               localStorage.removeItem("onboarding_steps");
+              clearOnboardingRun();
               setToast({ message: "Status resetado com sucesso.", type: "success" });
             }}
             disabled={runningManualStep !== null}
@@ -724,7 +993,7 @@ export default function OnboardingPage() {
 
                   {isExpanded && summary && summary.details.length > 0 && (
                     <div className="ml-10 mt-1 mb-2 bg-black/20 rounded-lg p-3 max-h-40 overflow-y-auto">
-                      {summary.details.map((d, i) => (
+                      {summary.issues ? <CsvIssueList issues={summary.issues} /> : summary.details.map((d, i) => (
                         <p key={i} className="text-xs text-slate-300 leading-relaxed">{d}</p>
                       ))}
                     </div>
@@ -734,6 +1003,16 @@ export default function OnboardingPage() {
             })}
           </div>
 
+          {running && (
+            <button
+              onClick={cancelStep}
+              disabled={cancelling}
+              className="mt-4 w-full py-2 px-4 bg-red-600/30 hover:bg-red-600/50 disabled:opacity-40 disabled:cursor-not-allowed border border-red-500/30 text-red-300 font-semibold rounded-xl transition"
+            >
+              {cancelling ? "Cancelando..." : "Cancelar"}
+            </button>
+          )}
+
           {hasError && !running && (
             <button
               onClick={handleRetry}
@@ -748,6 +1027,14 @@ export default function OnboardingPage() {
               <p className="text-emerald-300 font-semibold">Setup concluído com sucesso!</p>
             </div>
           )}
+
+          {simulationPlan && !running && <SimulationPlan plans={simulationPlan} />}
+
+          {onboardingRunId && !running && (
+            <div className="mt-4">
+              <RollbackButton runId={onboardingRunId} />
+            </div>
+          )}
         </div>
 
         {/* ── FORM ── */}
@@ -790,6 +1077,7 @@ export default function OnboardingPage() {
                       disabled={running}
                     />
                     <FileInput label="Imagem da coleção" accept=".jpg,.jpeg,.png" onChange={(f) => updateCollection(idx, "image", f)} fileName={col.image?.name} disabled={running} compact />
+                    <SmartRuleSetEditor ruleSet={col.ruleSet} onChange={(ruleSet) => updateCollectionRuleSet(idx, ruleSet)} disabled={running} />
                   </div>
                   {collections.length > 1 && (
                     <button type="button" onClick={() => removeCollection(idx)} className="text-red-400 hover:text-red-300 text-xl mt-1" disabled={running}>&times;</button>
@@ -799,17 +1087,32 @@ export default function OnboardingPage() {
               {collections.length < 7 && (
                 <button type="button" onClick={addCollection} className="text-sm text-emerald-400 hover:text-emerald-300" disabled={running}>+ Adicionar Coleção</button>
               )}
+              <CollectionRulesEditor rules={collectionRules} onChange={setCollectionRules}
+                collectionNames={collections.map((c) => c.name.trim()).filter(Boolean)} disabled={running} />
             </fieldset>
 
             <fieldset className="space-y-4">
               <legend className="text-lg font-semibold text-white mb-2">CSV de Produtos</legend>
-              <FileInput label="Arquivo CSV (formato Shopify/DSers)" accept=".csv" onChange={setCsvFile} fileName={csvFile?.name} disabled={running} />
+              <FileInput label="Arquivo CSV ou planilha (formato Shopify/DSers)" accept=".csv,.xlsx,.xls,.ods" onChange={selectCsvFile} fileName={csvFile?.name} disabled={running} />
+              <SheetPicker sheets={sheetNames} value={selectedSheet} onChange={setSelectedSheet} disabled={running} />
+              <ColumnMappingEditor headers={sourceHeaders} mapping={columnMapping} onChange={setColumnMapping} disabled={running} />
+              <PriceRulesEditor rules={priceRules} onChange={setPriceRules} disabled={running} />
+              <SanitizerSettingsPanel settings={sanitizer} onChange={setSanitizer} disabled={running} />
+              <ImportModeSelect mode={importMode} onChange={setImportMode} disabled={running} />
+              {importRun && <ImportRunBanner run={importRun} resume={resumeImport} onResumeChange={setResumeImport}
+                onRefresh={() => refreshImportRun(importRun.id)} disabled={running} />}
+              {sourceHeaders.length > 0 && <CatalogPreview buildForm={buildImportForm} />}
+              {sourceHeaders.length > 0 && <StoreDiffPreview buildForm={buildImportForm} />}
             </fieldset>
 
             <button type="submit" disabled={running || !formReady}
               className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all duration-200 shadow-lg shadow-emerald-500/25 hover:shadow-emerald-500/40 text-lg">
               {running ? "Processando..." : "INICIAR SETUP"}
             </button>
+            <button type="button" onClick={() => runPipeline(true)} disabled={running || !formReady}
+              className="w-full py-2.5 px-4 bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 font-semibold rounded-xl border border-white/20 transition">
+              Simular setup (nada é gravado na loja)
+            </button>
           </form>
         )}
       </div>
@@ -828,6 +1131,810 @@ function Spinner() {
   );
 }
 
+function CsvIssueList({ issues }: { issues: CsvIssue[] }) {
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {issues.map((issue, i) => (
+          <tr key={i} className={issue.severity === "error" ? "text-red-300" : "text-amber-300"}>
+            <td className="pr-2 py-0.5 font-mono whitespace-nowrap align-top">{issue.row !== null ? `L${issue.row}` : "—"}</td>
+            <td className="pr-2 py-0.5 whitespace-nowrap align-top">
+              {issue.column && <span className="px-1.5 rounded bg-white/10">{issue.column}</span>}
+            </td>
+            <td className="py-0.5 text-slate-300 leading-relaxed">
+              {issue.handle && <span className="text-slate-400">{issue.handle}: </span>}
+              {issue.message}
+              <span className="ml-1 text-slate-500 font-mono">({issue.code})</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SheetPicker({ sheets, value, onChange, disabled }: {
+  sheets: string[]; value: string; onChange: (sheet: string) => void; disabled?: boolean;
+}) {
+  if (sheets.length < 2) return null;
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-200 mb-1">Aba da planilha (valide novamente após trocar)</label>
+      <select value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled}
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500">
+        {sheets.map((sheet) => (
+          <option key={sheet} value={sheet} className="bg-slate-800">{sheet}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const MAPPABLE_FIELDS = [
+  "Handle", "Title", "Body (HTML)", "Vendor", "Type", "Tags", "Collection", "Published", "Status",
+  "Option1 Name", "Option1 Value", "Option2 Name", "Option2 Value",
+  "Variant SKU", "Variant Price", "Variant Compare At Price", "Variant Inventory Qty",
+  "Variant Barcode", "Variant Grams", "Cost per item", "Image Src",
+];
+
+function ColumnMappingEditor({ headers, mapping, onChange, disabled }: {
+  headers: string[]; mapping: ColumnMapping; onChange: (mapping: ColumnMapping) => void; disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [profileName, setProfileName] = useState("");
+  const [profileError, setProfileError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/onboarding/column-mapping")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setProfileError(data.error);
+        else setProfiles(data.profiles || []);
+      })
+      .catch(() => setProfileError("Falha ao carregar perfis salvos."));
+  }, [open]);
+
+  if (headers.length === 0) return null;
+
+  function updateRule(field: string, patch: Partial<ColumnMappingRule>) {
+    const rule = { ...mapping[field], ...patch };
+    const cleaned: ColumnMappingRule = {};
+    if (rule.source) cleaned.source = rule.source;
+    if (rule.default) cleaned.default = rule.default;
+    if (rule.constant) cleaned.constant = rule.constant;
+
+    const next = { ...mapping };
+    if (Object.keys(cleaned).length > 0) next[field] = cleaned;
+    else delete next[field];
+    onChange(next);
+  }
+
+  function loadProfile(name: string) {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) return;
+    setProfileName(profile.name);
+    onChange(profile.mapping);
+  }
+
+  async function saveProfile() {
+    setProfileError("");
+    const res = await fetch("/api/onboarding/column-mapping", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: profileName, mapping }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setProfileError(data.error || "Falha ao salvar perfil.");
+      return;
+    }
+    setProfiles((prev) => [...prev.filter((p) => p.name !== data.profile.name), data.profile]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async function deleteProfile() {
+    setProfileError("");
+    const res = await fetch(`/api/onboarding/column-mapping?name=${encodeURIComponent(profileName)}`, { method: "DELETE" });
+    if (!res.ok) {
+      const data = await res.json();
+      setProfileError(data.error || "Falha ao remover perfil.");
+      return;
+    }
+    setProfiles((prev) => prev.filter((p) => p.name !== profileName));
+    setProfileName("");
+  }
+
+  const inputClass = "w-full px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+      <button type="button" onClick={() => setOpen(!open)} className="text-sm text-emerald-400 hover:text-emerald-300">
+        {open ? "▾" : "▸"} Mapeamento de colunas ({Object.keys(mapping).length} campos mapeados) — valide novamente após alterar
+      </button>
+
+      {open && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value="" onChange={(e) => loadProfile(e.target.value)} disabled={disabled || profiles.length === 0}
+              className="px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs focus:outline-none">
+              <option value="" className="bg-slate-800">{profiles.length > 0 ? "Carregar perfil salvo..." : "Nenhum perfil salvo"}</option>
+              {profiles.map((p) => (
+                <option key={p.name} value={p.name} className="bg-slate-800">{p.name}</option>
+              ))}
+            </select>
+            <input type="text" value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="Nome do perfil"
+              className="flex-1 min-w-[8rem] px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none" disabled={disabled} />
+            <button type="button" onClick={saveProfile} disabled={disabled || !profileName.trim() || Object.keys(mapping).length === 0}
+              className="text-xs text-emerald-400 hover:text-emerald-300 disabled:text-slate-500">Salvar</button>
+            <button type="button" onClick={deleteProfile} disabled={disabled || !profiles.some((p) => p.name === profileName)}
+              className="text-xs text-red-400 hover:text-red-300 disabled:text-slate-500">Remover</button>
+          </div>
+          {profileError && <p className="text-xs text-red-300">{profileError}</p>}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="pr-2 pb-1 font-medium">Campo</th>
+                <th className="pr-2 pb-1 font-medium">Coluna do arquivo</th>
+                <th className="pr-2 pb-1 font-medium">Padrão (se vazio)</th>
+                <th className="pb-1 font-medium">Valor fixo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MAPPABLE_FIELDS.map((field) => {
+                const rule = mapping[field] || {};
+                return (
+                  <tr key={field}>
+                    <td className="pr-2 py-0.5 text-slate-300 whitespace-nowrap">{field}</td>
+                    <td className="pr-2 py-0.5">
+                      <select value={rule.source || ""} onChange={(e) => updateRule(field, { source: e.target.value })} disabled={disabled || !!rule.constant}
+                        className={inputClass}>
+                        <option value="" className="bg-slate-800">—</option>
+                        {headers.map((h) => (
+                          <option key={h} value={h} className="bg-slate-800">{h}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="pr-2 py-0.5">
+                      <input type="text" value={rule.default || ""} onChange={(e) => updateRule(field, { default: e.target.value })} disabled={disabled || !!rule.constant} className={inputClass} />
+                    </td>
+                    <td className="py-0.5">
+                      <input type="text" value={rule.constant || ""} onChange={(e) => updateRule(field, { constant: e.target.value })} disabled={disabled} className={inputClass} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+const PRICE_SCOPE_LABELS: Record<keyof PriceRuleScope, string> = { vendor: "Fornecedor", productType: "Tipo", tag: "Tag" };
+
+function PriceRulesEditor({ rules, onChange, disabled }: {
+  rules: PriceRule[]; onChange: (rules: PriceRule[]) => void; disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+
+  function updateRule(idx: number, patch: Partial<PriceRule>) {
+    onChange(rules.map((rule, i) => (i === idx ? { ...rule, ...patch } : rule)));
+  }
+
+  function updateScope(idx: number, key: keyof PriceRuleScope | "", value: string) {
+    updateRule(idx, { scope: key ? { [key]: value } : undefined });
+  }
+
+  function parseNumber(raw: string): number | undefined {
+    const n = Number(raw.replace(",", "."));
+    return raw.trim() && Number.isFinite(n) ? n : undefined;
+  }
+
+  const inputClass = "px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+      <button type="button" onClick={() => setOpen(!open)} className="text-sm text-emerald-400 hover:text-emerald-300">
+        {open ? "▾" : "▸"} Regras de preço ({rules.length}) — a primeira regra que casar com o produto é aplicada
+      </button>
+
+      {open && (
+        <>
+          {rules.map((rule, idx) => {
+            const scopeKey = (Object.keys(rule.scope || {})[0] || "") as keyof PriceRuleScope | "";
+            return (
+              // Campos numéricos não são controlados (permitem digitar "1,"); a key muda ao remover
+              // uma regra para que os valores exibidos não fiquem deslocados.
+              <div key={`${rules.length}-${idx}`} className="grid grid-cols-2 md:grid-cols-4 gap-2 border border-white/10 rounded-lg p-2">
+                <input type="text" value={rule.name || ""} onChange={(e) => updateRule(idx, { name: e.target.value })} placeholder="Nome da regra" className={inputClass} disabled={disabled} />
+                <div className="flex gap-1">
+                  <select value={scopeKey} onChange={(e) => updateScope(idx, e.target.value as keyof PriceRuleScope | "", "")} className={inputClass} disabled={disabled}>
+                    <option value="" className="bg-slate-800">Todos os produtos</option>
+                    {(Object.keys(PRICE_SCOPE_LABELS) as (keyof PriceRuleScope)[]).map((key) => (
+                      <option key={key} value={key} className="bg-slate-800">{PRICE_SCOPE_LABELS[key]}</option>
+                    ))}
+                  </select>
+                  {scopeKey && (
+                    <input type="text" value={rule.scope?.[scopeKey] || ""} onChange={(e) => updateScope(idx, scopeKey, e.target.value)} placeholder="Valor" className={`${inputClass} flex-1 min-w-0`} disabled={disabled} />
+                  )}
+                </div>
+                <select value={rule.base || "price"} onChange={(e) => updateRule(idx, { base: e.target.value as PriceRule["base"] })} className={inputClass} disabled={disabled}>
+                  <option value="price" className="bg-slate-800">Base: preço da planilha</option>
+                  <option value="cost" className="bg-slate-800">Base: custo (Cost per item)</option>
+                </select>
+                <div className="flex gap-1">
+                  <select value={rule.markup?.type || "percent"} onChange={(e) => updateRule(idx, { markup: { type: e.target.value as "percent" | "fixed", value: rule.markup?.value ?? 0 } })} className={inputClass} disabled={disabled}>
+                    <option value="percent" className="bg-slate-800">Markup %</option>
+                    <option value="fixed" className="bg-slate-800">Markup R$</option>
+                  </select>
+                  <input type="text" inputMode="decimal" defaultValue={rule.markup?.value ?? ""} placeholder="0"
+                    onChange={(e) => {
+                      const value = parseNumber(e.target.value);
+                      updateRule(idx, { markup: value === undefined ? undefined : { type: rule.markup?.type || "percent", value } });
+                    }}
+                    className={`${inputClass} flex-1 min-w-0`} disabled={disabled} />
+                </div>
+                <select value={rule.rounding || "none"} onChange={(e) => updateRule(idx, { rounding: e.target.value as PriceRule["rounding"] })} className={inputClass} disabled={disabled}>
+                  <option value="none" className="bg-slate-800">Sem arredondamento</option>
+                  <option value="0.90" className="bg-slate-800">Arredondar para ,90</option>
+                  <option value="0.99" className="bg-slate-800">Arredondar para ,99</option>
+                </select>
+                <input type="text" inputMode="decimal" defaultValue={rule.minMarginPercent ?? ""} placeholder="Margem mínima %"
+                  onChange={(e) => updateRule(idx, { minMarginPercent: parseNumber(e.target.value) })} className={inputClass} disabled={disabled} />
+                <input type="text" inputMode="decimal" defaultValue={rule.compareAtPercent ?? ""} placeholder="Preço &quot;de&quot; +%"
+                  onChange={(e) => updateRule(idx, { compareAtPercent: parseNumber(e.target.value) })} className={inputClass} disabled={disabled} />
+                <button type="button" onClick={() => onChange(rules.filter((_, i) => i !== idx))} className="text-xs text-red-400 hover:text-red-300 text-left" disabled={disabled}>Remover regra</button>
+              </div>
+            );
+          })}
+          <button type="button" onClick={() => onChange([...rules, { markup: { type: "percent", value: 0 } }])} className="text-sm text-emerald-400 hover:text-emerald-300" disabled={disabled}>+ Adicionar Regra</button>
+        </>
+      )}
+    </div>
+  );
+}
+
+const SMART_COLUMN_LABELS: Record<SmartCollectionColumn, string> = {
+  TAG: "Tag", TITLE: "Título", TYPE: "Tipo", VENDOR: "Fornecedor", VARIANT_PRICE: "Preço",
+  VARIANT_COMPARE_AT_PRICE: "Preço \"de\"", VARIANT_INVENTORY: "Estoque", VARIANT_TITLE: "Variante",
+  IS_PRICE_REDUCED: "Em promoção",
+};
+
+const SMART_RELATION_LABELS: Record<SmartCollectionRelation, string> = {
+  EQUALS: "é igual a", NOT_EQUALS: "é diferente de", GREATER_THAN: "maior que", LESS_THAN: "menor que",
+  STARTS_WITH: "começa com", ENDS_WITH: "termina com", CONTAINS: "contém", NOT_CONTAINS: "não contém",
+  IS_SET: "está definido", IS_NOT_SET: "não está definido",
+};
+
+function SmartRuleSetEditor({ ruleSet, onChange, disabled }: {
+  ruleSet?: SmartCollectionRuleSet; onChange: (ruleSet: SmartCollectionRuleSet | undefined) => void; disabled?: boolean;
+}) {
+  const inputClass = "px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+  if (!ruleSet) {
+    return (
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <input type="checkbox" checked={false} disabled={disabled}
+          onChange={() => onChange({ appliedDisjunctively: false, rules: [{ column: "TAG", relation: "EQUALS", condition: "" }] })} />
+        Coleção automática (por regras)
+      </label>
+    );
+  }
+
+  function updateRule(idx: number, patch: Partial<SmartCollectionRuleSet["rules"][number]>) {
+    const rules = ruleSet!.rules.map((rule, i) => {
+      if (i !== idx) return rule;
+      const next = { ...rule, ...patch };
+      // Troca de coluna pode invalidar a relação escolhida.
+      if (!SMART_COLLECTION_RELATIONS[next.column].includes(next.relation)) {
+        next.relation = SMART_COLLECTION_RELATIONS[next.column][0];
+      }
+      return next;
+    });
+    onChange({ ...ruleSet!, rules });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-slate-300">
+        <input type="checkbox" checked onChange={() => onChange(undefined)} disabled={disabled} />
+        Coleção automática — produtos que atendem
+        <select value={ruleSet.appliedDisjunctively ? "any" : "all"} onChange={(e) => onChange({ ...ruleSet, appliedDisjunctively: e.target.value === "any" })} className={inputClass} disabled={disabled}>
+          <option value="all" className="bg-slate-800">todas as condições</option>
+          <option value="any" className="bg-slate-800">qualquer condição</option>
+        </select>
+      </div>
+      {ruleSet.rules.map((rule, idx) => (
+        <div key={idx} className="flex flex-wrap items-center gap-2">
+          <select value={rule.column} onChange={(e) => updateRule(idx, { column: e.target.value as SmartCollectionColumn })} className={inputClass} disabled={disabled}>
+            {(Object.keys(SMART_COLUMN_LABELS) as SmartCollectionColumn[]).map((column) => (
+              <option key={column} value={column} className="bg-slate-800">{SMART_COLUMN_LABELS[column]}</option>
+            ))}
+          </select>
+          <select value={rule.relation} onChange={(e) => updateRule(idx, { relation: e.target.value as SmartCollectionRelation })} className={inputClass} disabled={disabled}>
+            {SMART_COLLECTION_RELATIONS[rule.column].map((relation) => (
+              <option key={relation} value={relation} className="bg-slate-800">{SMART_RELATION_LABELS[relation]}</option>
+            ))}
+          </select>
+          {rule.relation !== "IS_SET" && rule.relation !== "IS_NOT_SET" && (
+            <input type="text" value={rule.condition} onChange={(e) => updateRule(idx, { condition: e.target.value })} placeholder="Valor" className={`${inputClass} flex-1 min-w-[6rem]`} disabled={disabled} />
+          )}
+          {ruleSet.rules.length > 1 && (
+            <button type="button" onClick={() => onChange({ ...ruleSet, rules: ruleSet.rules.filter((_, i) => i !== idx) })} className="text-red-400 hover:text-red-300 text-lg" disabled={disabled}>&times;</button>
+          )}
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange({ ...ruleSet, rules: [...ruleSet.rules, { column: "TAG", relation: "EQUALS", condition: "" }] })}
+        className="text-xs text-emerald-400 hover:text-emerald-300" disabled={disabled}>+ Condição</button>
+    </div>
+  );
+}
+
+const COLLECTION_RULE_FIELDS: Record<CollectionRuleField, string> = { productType: "Tipo", tag: "Tag", vendor: "Fornecedor" };
+
+function CollectionRulesEditor({ rules, onChange, collectionNames, disabled }: {
+  rules: CollectionRule[]; onChange: (rules: CollectionRule[]) => void; collectionNames: string[]; disabled?: boolean;
+}) {
+  const inputClass = "px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+  function updateRule(idx: number, patch: Partial<CollectionRule>) {
+    onChange(rules.map((rule, i) => (i === idx ? { ...rule, ...patch } : rule)));
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-2">
+      <p className="text-xs text-slate-400">
+        Produtos entram nas coleções pela coluna &quot;Collection&quot; do CSV e pelas regras abaixo. Todos entram em Best Sellers.
+      </p>
+      <datalist id="collection-rule-targets">
+        {collectionNames.map((name) => <option key={name} value={name} />)}
+      </datalist>
+      {rules.map((rule, idx) => (
+        <div key={idx} className="flex flex-wrap items-center gap-2">
+          <select value={rule.field} onChange={(e) => updateRule(idx, { field: e.target.value as CollectionRuleField })} className={inputClass} disabled={disabled}>
+            {(Object.keys(COLLECTION_RULE_FIELDS) as CollectionRuleField[]).map((field) => (
+              <option key={field} value={field} className="bg-slate-800">{COLLECTION_RULE_FIELDS[field]}</option>
+            ))}
+          </select>
+          <input type="text" value={rule.value} onChange={(e) => updateRule(idx, { value: e.target.value })} placeholder="Valor (ex: Camisetas)" className={`${inputClass} flex-1 min-w-[6rem]`} disabled={disabled} />
+          <span className="text-xs text-slate-400">&rarr;</span>
+          <input type="text" list="collection-rule-targets" value={rule.collection} onChange={(e) => updateRule(idx, { collection: e.target.value })} placeholder="Coleção" className={`${inputClass} flex-1 min-w-[6rem]`} disabled={disabled} />
+          <button type="button" onClick={() => onChange(rules.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-300 text-lg" disabled={disabled}>&times;</button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...rules, { field: "productType", value: "", collection: collectionNames[0] || "" }])}
+        className="text-sm text-emerald-400 hover:text-emerald-300" disabled={disabled}>+ Adicionar Regra de Coleção</button>
+    </div>
+  );
+}
+
+function SanitizerSettingsPanel({ settings, onChange, disabled }: {
+  settings: SanitizerSettings; onChange: (settings: SanitizerSettings) => void; disabled?: boolean;
+}) {
+  const inputClass = "w-full px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-2">
+      <label className="flex items-center gap-2 text-sm text-slate-200">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} disabled={disabled} />
+        Limpar HTML das descrições (remove scripts, estilos, iframes e tags não permitidas)
+      </label>
+      {settings.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <select value={settings.externalLinks} onChange={(e) => onChange({ ...settings, externalLinks: e.target.value as ExternalLinkMode })} className={inputClass} disabled={disabled}>
+            <option value="strip" className="bg-slate-800">Links externos: remover (mantém o texto)</option>
+            <option value="rewrite" className="bg-slate-800">Links externos: reescrever</option>
+            <option value="keep" className="bg-slate-800">Links externos: manter</option>
+          </select>
+          {settings.externalLinks === "rewrite" && (
+            <input type="text" value={settings.rewriteLinksTo} onChange={(e) => onChange({ ...settings, rewriteLinksTo: e.target.value })} placeholder="Novo destino (ex: /collections/all)" className={inputClass} disabled={disabled} />
+          )}
+          <input type="text" value={settings.internalHosts} onChange={(e) => onChange({ ...settings, internalHosts: e.target.value })} placeholder="Domínios internos (separados por vírgula)" className={inputClass} disabled={disabled} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const IMPORT_MODES: { value: ImportMode; label: string; hint: string }[] = [
+  { value: "create", label: "Criar produtos", hint: "Cada linha do CSV vira um produto novo." },
+  { value: "upsert", label: "Atualizar existentes (upsert)", hint: "Produtos já na loja (mesmo handle ou SKU) são atualizados só no que mudou; os demais são criados. Seguro para reexecutar após falha parcial." },
+  { value: "bulk", label: "Importação em massa (bulk operations)", hint: "Recomendado para catálogos grandes: envia todos os produtos numa única operação da Shopify, sem throttling por produto." },
+];
+
+function ImportModeSelect({ mode, onChange, disabled }: {
+  mode: ImportMode; onChange: (mode: ImportMode) => void; disabled?: boolean;
+}) {
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-1">
+      <select value={mode} onChange={(e) => onChange(e.target.value as ImportMode)} disabled={disabled}
+        className="w-full px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500">
+        {IMPORT_MODES.map((m) => (
+          <option key={m.value} value={m.value} className="bg-slate-800">{m.label}</option>
+        ))}
+      </select>
+      <p className="text-xs text-slate-400">{IMPORT_MODES.find((m) => m.value === mode)?.hint}</p>
+    </div>
+  );
+}
+
+// Desfaz tudo o que a execução criou (produtos, coleções, tema, arquivos, páginas, menus)
+// e restaura o tema MAIN e os menus anteriores. Pode ser repetido: o que já foi desfeito é pulado.
+function RollbackButton({ runId, disabled }: { runId: string; disabled?: boolean }) {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<{ message: string; errors: string[]; success: boolean } | null>(null);
+
+  async function rollback() {
+    if (!confirm("Desfazer tudo o que este onboarding criou na loja? Produtos, coleções, tema, páginas e menus serão removidos ou restaurados.")) return;
+    setLoading(true);
+    setResult(null);
+    try {
+      const res = await fetch("/api/onboarding/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId }),
+      });
+      const data = await res.json();
+      const errors = Array.isArray(data.errors)
+        ? data.errors.map((e: { item: string; reason: string }) => `${e.item}: ${e.reason}`)
+        : [];
+      setResult({ message: data.message || "Falha no rollback", errors, success: !!data.success });
+    } catch (err) {
+      setResult({ message: err instanceof Error ? err.message : "Erro", errors: [], success: false });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button type="button" onClick={rollback} disabled={disabled || loading}
+        className="w-full py-2.5 px-4 bg-red-600/20 hover:bg-red-600/40 disabled:opacity-40 disabled:cursor-not-allowed text-red-300 text-sm font-medium rounded-xl border border-red-500/30 transition">
+        {loading ? "Desfazendo..." : "Desfazer onboarding"}
+      </button>
+      {result && (
+        <div className={`text-xs rounded-lg p-3 ${result.success ? "bg-emerald-500/10 text-emerald-300" : "bg-red-500/10 text-red-300"}`}>
+          <p>{result.message}</p>
+          {result.errors.length > 0 && (
+            <div className="mt-1 max-h-32 overflow-y-auto">
+              {result.errors.map((e, i) => <p key={i} className="text-red-300/80">{e}</p>)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Importação interrompida: acompanha a que segue no servidor ou oferece a retomada,
+// que pula os handles já concluídos (o mesmo arquivo precisa estar selecionado).
+function ImportRunBanner({ run, resume, onResumeChange, onRefresh, disabled }: {
+  run: ImportRun; resume: boolean; onResumeChange: (resume: boolean) => void; onRefresh: () => void; disabled?: boolean;
+}) {
+  const active = run.status === "running" && !run.stale;
+
+  useEffect(() => {
+    if (!active || disabled) return;
+    const t = setInterval(onRefresh, 3000);
+    return () => clearInterval(t);
+  }, [active, disabled, onRefresh]);
+
+  if (run.status === "completed") return null;
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 space-y-2 text-sm">
+      <p className="text-amber-200">
+        {active
+          ? "Importação em andamento no servidor"
+          : run.status === "cancelled"
+            ? "Importação anterior cancelada"
+            : run.status === "failed" ? "Importação anterior terminou com erros" : "Importação anterior interrompida"}:{" "}
+        {run.done}/{run.total} concluídos{run.failed > 0 ? `, ${run.failed} com erro` : ""}
+      </p>
+      {!active && (
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={resume} onChange={(e) => onResumeChange(e.target.checked)} disabled={disabled} />
+          Retomar esta importação na etapa 2 (selecione o mesmo arquivo)
+        </label>
+      )}
+    </div>
+  );
+}
+
+const PRODUCT_STATUS_LABELS: Record<string, string> = { ACTIVE: "Ativo", DRAFT: "Rascunho", ARCHIVED: "Arquivado" };
+
+function CatalogPreview({ buildForm }: { buildForm: () => FormData }) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [result, setResult] = useState<CatalogPreviewPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function load(page: number, q = query) {
+    setLoading(true);
+    setError("");
+    try {
+      const fd = buildForm();
+      fd.append("page", String(page));
+      fd.append("q", q);
+      const res = await fetch("/api/onboarding/preview", { method: "POST", body: fd });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao carregar o preview.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggle() {
+    if (!open && !result) load(1);
+    setOpen(!open);
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+      <button type="button" onClick={toggle} className="text-sm text-emerald-400 hover:text-emerald-300">
+        {open ? "▾" : "▸"} Preview do catálogo{result ? ` (${result.totalProducts} produtos)` : ""}
+      </button>
+
+      {open && (
+        <>
+          {/* div em vez de form: o preview fica dentro do formulário do modo automático */}
+          <div className="flex gap-2">
+            <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Buscar por handle, título, SKU, marca..."
+              onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); load(1); } }}
+              className="flex-1 px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500" />
+            <button type="button" onClick={() => load(1)} disabled={loading} className="text-xs text-emerald-400 hover:text-emerald-300 disabled:text-slate-500">Buscar</button>
+          </div>
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          {loading && <Spinner />}
+
+          {result && !loading && (
+            <div className="space-y-2">
+              {result.products.map((product) => (
+                <div key={product.handle} className={`rounded-lg border p-2 text-xs ${product.issues.some((i) => i.severity === "error") ? "border-red-500/40" : "border-white/10"}`}>
+                  <div className="flex items-start gap-2">
+                    {product.images[0] && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={product.images[0].src} alt={product.images[0].alt} className="w-12 h-12 object-cover rounded shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white font-medium truncate">{product.title}</p>
+                      <p className="text-slate-400 truncate">
+                        {product.handle} · {PRODUCT_STATUS_LABELS[product.status]}{product.published ? "" : " · não publicado"}
+                        {product.vendor && ` · ${product.vendor}`}{product.productType && ` · ${product.productType}`}
+                        {` · ${product.images.length} imagem(ns)`}
+                      </p>
+                      <p className="text-slate-300">
+                        R$ {product.priceRange.min}{product.priceRange.max !== product.priceRange.min && ` – ${product.priceRange.max}`}
+                      </p>
+                    </div>
+                  </div>
+                  <table className="w-full mt-2">
+                    <tbody>
+                      {product.variants.map((variant, i) => (
+                        <tr key={i} className="text-slate-300">
+                          <td className="pr-2 py-0.5">
+                            {variant.image && (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img src={variant.image} alt="" className="inline-block w-5 h-5 object-cover rounded mr-1 align-middle" />
+                            )}
+                            {variant.optionValues.map((o) => `${o.optionName}: ${o.name}`).join(" / ")}
+                          </td>
+                          <td className="pr-2 py-0.5 font-mono text-slate-400">{variant.sku || "—"}</td>
+                          <td className="pr-2 py-0.5 text-slate-400 whitespace-nowrap">
+                            {variant.inventory.length > 0
+                              ? variant.inventory.map((q) => `${q.location}: ${q.quantity}`).join(" · ")
+                              : "sem estoque"}
+                          </td>
+                          <td className="py-0.5 text-right whitespace-nowrap">
+                            {variant.compareAtPrice && <span className="line-through text-slate-500 mr-1">{variant.compareAtPrice}</span>}
+                            {variant.price}
+                            {variant.originalPrice && (
+                              <span className="ml-1 text-slate-500" title={variant.priceRule}>(era {variant.originalPrice})</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {product.sanitizeReport && <p className="mt-1 text-amber-300/80">Descrição limpa: {product.sanitizeReport}</p>}
+                  {product.issues.length > 0 && <div className="mt-2"><CsvIssueList issues={product.issues} /></div>}
+                </div>
+              ))}
+              {result.products.length === 0 && <p className="text-xs text-slate-400">Nenhum produto encontrado.</p>}
+
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <button type="button" onClick={() => load(result.page - 1)} disabled={result.page <= 1}
+                  className="text-emerald-400 hover:text-emerald-300 disabled:text-slate-600">&larr; Anterior</button>
+                <span>Página {result.page} de {result.totalPages}</span>
+                <button type="button" onClick={() => load(result.page + 1)} disabled={result.page >= result.totalPages}
+                  className="text-emerald-400 hover:text-emerald-300 disabled:text-slate-600">Próxima &rarr;</button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+const CHANGE_ACTION_LABELS: Record<ProductChangeReport["action"], string> = {
+  create: "novo", update: "alterado", unchanged: "sem alteração",
+};
+
+// Dry-run do step2: compara o CSV com a loja sem gravar nada.
+function StoreDiffPreview({ buildForm }: { buildForm: () => FormData }) {
+  const [changes, setChanges] = useState<ProductChangeReport[] | null>(null);
+  const [summary, setSummary] = useState("");
+  const [progress, setProgress] = useState("");
+  const [onlyChanged, setOnlyChanged] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function compare() {
+    setLoading(true);
+    setError("");
+    setProgress("");
+    try {
+      const fd = buildForm();
+      fd.set("importMode", "dryrun");
+      const res = await fetch("/api/onboarding/step2-products", { method: "POST", body: fd });
+      if (!res.body) throw new Error(`HTTP ${res.status}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let final: any = null;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.type === "progress") setProgress(`${event.processed}/${event.total}`);
+          else if (event.type === "complete") final = event;
+        }
+      }
+      if (buffer.trim()) final = JSON.parse(buffer);
+      if (!final || !Array.isArray(final.changes)) {
+        throw new Error(final?.errors?.[0]?.reason || "A simulação não retornou resultado.");
+      }
+      setChanges(final.changes);
+      setSummary(final.message || "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao comparar com a loja.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const visible = (changes || []).filter((c) => !onlyChanged || c.action !== "unchanged");
+
+  return (
+    <div className="bg-white/5 rounded-xl p-3 space-y-3">
+      <div className="flex items-center gap-3">
+        <button type="button" onClick={compare} disabled={loading} className="text-sm text-emerald-400 hover:text-emerald-300 disabled:text-slate-500">
+          Comparar com a loja (simulação)
+        </button>
+        {loading && <span className="text-xs text-slate-400">{progress || "..."}</span>}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {changes && !loading && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-slate-300">
+            <span>{summary}</span>
+            <label className="flex items-center gap-1 text-slate-400">
+              <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} />
+              Só alterações
+            </label>
+          </div>
+          {visible.map((change) => (
+            <div key={change.handle} className="rounded-lg border border-white/10 p-2 text-xs space-y-1">
+              <p className="text-white font-medium">
+                {change.handle}
+                <span className={`ml-2 ${change.action === "create" ? "text-emerald-400" : change.action === "update" ? "text-amber-300" : "text-slate-500"}`}>
+                  {CHANGE_ACTION_LABELS[change.action]}
+                </span>
+              </p>
+              {change.fields.map((f) => (
+                <p key={f.field} className="text-slate-300">
+                  {f.field}: <span className="line-through text-slate-500">{f.from || "—"}</span> &rarr; {f.to || "—"}
+                </p>
+              ))}
+              <ChangeList label="Tags" added={change.tags.added} removed={change.tags.removed} />
+              <ChangeList label="Variantes" added={change.variants.added} removed={change.variants.removed} />
+              {change.variants.updated.map((v) => (
+                <p key={v.variant} className="text-slate-300">
+                  ~ {v.variant}: {v.changes.map((c) => `${c.field} ${c.from || "—"} → ${c.to}`).join(", ")}
+                </p>
+              ))}
+              <ChangeList label="Imagens" added={change.images.added} removed={change.images.removed} />
+            </div>
+          ))}
+          {visible.length === 0 && <p className="text-xs text-slate-400">Nenhuma alteração em relação à loja.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const PLAN_ACTIONS: Record<PlannedChange["action"], { label: string; className: string }> = {
+  create: { label: "criar", className: "text-emerald-400" },
+  update: { label: "atualizar", className: "text-blue-300" },
+  overwrite: { label: "sobrescrever", className: "text-amber-300" },
+};
+
+const PLAN_RESOURCES: Record<PlannedChange["resource"], string> = {
+  product: "Produto",
+  metafield_definition: "Definição de metafield",
+  collection: "Coleção",
+  theme: "Tema",
+  theme_file: "Arquivos do tema",
+  file: "Arquivo",
+  page: "Página",
+  menu: "Menu",
+};
+
+function describePlan(plan: PlannedChange[]): string {
+  const parts = (Object.keys(PLAN_ACTIONS) as PlannedChange["action"][])
+    .map((action) => ({ action, count: plan.filter((c) => c.action === action).length }))
+    .filter((p) => p.count > 0)
+    .map((p) => `${p.count} a ${PLAN_ACTIONS[p.action].label}`);
+  return parts.length > 0 ? parts.join(", ") : "nenhuma alteração na loja";
+}
+
+// Plano do setup simulado, etapa por etapa: o que seria criado, atualizado ou sobrescrito.
+function SimulationPlan({ plans }: { plans: Record<number, PlannedChange[]> }) {
+  const steps = STEPS.filter((s) => plans[s.id]);
+  return (
+    <div className="mt-4 bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+      <div>
+        <p className="text-white font-semibold">Plano da simulação</p>
+        <p className="text-xs text-slate-400">
+          Nada foi gravado na loja. Total: {describePlan(steps.flatMap((s) => plans[s.id]))}.
+        </p>
+      </div>
+      {steps.map((step) => (
+        <div key={step.id} className="space-y-1">
+          <p className="text-xs font-semibold text-slate-300">Etapa {step.id}: {step.label}</p>
+          {plans[step.id].length === 0 && <p className="text-xs text-slate-500">Nenhuma alteração.</p>}
+          <div className="max-h-48 overflow-y-auto space-y-0.5">
+            {plans[step.id].map((change, i) => (
+              <p key={i} className="text-xs text-slate-300 break-all">
+                <span className={`mr-2 ${PLAN_ACTIONS[change.action].className}`}>{PLAN_ACTIONS[change.action].label}</span>
+                {PLAN_RESOURCES[change.resource]}: {change.target}
+                {change.detail && <span className="text-slate-500"> — {change.detail}</span>}
+              </p>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ChangeList({ label, added, removed }: { label: string; added: string[]; removed: string[] }) {
+  if (added.length === 0 && removed.length === 0) return null;
+  return (
+    <p className="text-slate-300 break-all">
+      {label}:
+      {added.map((item) => <span key={`+${item}`} className="ml-1 text-emerald-400">+{item}</span>)}
+      {removed.map((item) => <span key={`-${item}`} className="ml-1 text-red-400">−{item}</span>)}
+    </p>
+  );
+}
+
 function FileInput({ label, accept, onChange, fileName, disabled, compact }: {
   label: string; accept: string; onChange: (file: File | null) => void;
   fileName?: string; disabled?: boolean; compact?: boolean;
@@ -0,0 +1,34 @@
+import type { CodegenConfig } from "@graphql-codegen/cli";
+
+// Tipos das variáveis e respostas de lib/admin-operations.ts gerados a partir do schema da
+// Admin API (graphql/admin-2026-01.graphql, mesma versão de lib/shopify.ts). Rodar
+// `npm run codegen` depois de mudar um documento ou de atualizar o schema.
+const config: CodegenConfig = {
+  schema: "graphql/admin-2026-01.graphql",
+  documents: ["lib/admin-operations.ts"],
+  generates: {
+    "types/admin-api.generated.ts": {
+      plugins: ["typescript", "typescript-operations"],
+      config: {
+        onlyOperationTypes: true,
+        enumsAsTypes: true,
+        skipTypename: true,
+        avoidOptionals: { field: true },
+        useTypeImports: true,
+        defaultScalarType: "unknown",
+        scalars: {
+          ID: "string",
+          URL: "string",
+          Decimal: "string",
+          Money: "string",
+          HTML: "string",
+          DateTime: "string",
+          UnsignedInt64: "string",
+          FormattedString: "string",
+        },
+      },
+    },
+  },
+};
+
+export default config;
@@ -0,0 +1,1317 @@
+import type { ShopifyClient } from "@/lib/shopify";
+import type { MetafieldOwner } from "@/lib/metafields";
+import type { ProductDiff, VariantUpdate } from "@/lib/product-diff";
+import type { ProductImportInput, ProductMediaInput, VariantImportInput } from "@/lib/product-mapper";
+import type { SmartCollectionRuleSet } from "@/lib/smart-collections";
+import type * as Admin from "@/types/admin-api.generated";
+import {
+  array,
+  boolean,
+  enumOf,
+  nullable,
+  number,
+  object,
+  fragment,
+  optional,
+  parseResponse,
+  schemaEnum,
+  string,
+  type Infer,
+  type Shape,
+} from "@/lib/response-shape";
+
+// Operações da Admin API das rotas do onboarding. Variáveis e resposta de cada documento têm
+// o tipo gerado do schema em graphql/ (`npm run codegen` gera types/admin-api.generated.ts);
+// o shape confere a resposta em tempo de execução e precisa caber no tipo gerado, então um
+// campo removido ou renomeado no schema quebra a compilação. Os documentos ficam exportados
+// para quem os roda de outro jeito (bulk operation).
+
+// A string do documento carrega os tipos do codegen só para o TypeScript.
+export type AdminDocument<TResult, TVariables> = string & {
+  readonly __types?: (variables: TVariables) => TResult;
+};
+
+function adminDocument<TResult, TVariables>(source: string): AdminDocument<TResult, TVariables> {
+  return source as AdminDocument<TResult, TVariables>;
+}
+
+const userErrors = array(object({ field: nullable(array(string)), message: string }));
+
+export type UserError = Infer<typeof userErrors>[number];
+
+// userErrors das mutations que também selecionam o code (enum de cada payload).
+function codedUserErrors<TCode extends string>() {
+  return array(object({ field: nullable(array(string)), message: string, code: nullable(schemaEnum<TCode>()) }));
+}
+
+export type CodedUserError = UserError & { code: string | null };
+
+// O shape pode ser mais estreito que o tipo gerado (enumOf, campos de fragmento), nunca mais largo.
+async function run<TResult, TVariables, T extends TResult>(
+  client: ShopifyClient,
+  operation: string,
+  document: AdminDocument<TResult, TVariables>,
+  variables: NoInfer<TVariables>,
+  shape: Shape<T>
+): Promise<T> {
+  return parseResponse(shape, await client.graphqlWithRetry(document, variables as Record<string, unknown>), operation);
+}
+
+// ── Publicações ──
+
+export const GET_PUBLICATIONS = adminDocument<Admin.PublicationsQuery, Admin.PublicationsQueryVariables>(/* GraphQL */ `
+  query publications {
+    publications(first: 10) {
+      edges {
+        node {
+          id
+          name
+        }
+      }
+    }
+  }
+`);
+
+export const PUBLISHABLE_PUBLISH = adminDocument<Admin.PublishablePublishMutation, Admin.PublishablePublishMutationVariables>(/* GraphQL */ `
+  mutation publishablePublish($id: ID!, $input: [PublicationInput!]!) {
+    publishablePublish(id: $id, input: $input) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const bulkPublishShape = object({ publishablePublish: nullable(object({ userErrors })) });
+
+const publicationsShape = object({
+  publications: object({ edges: array(object({ node: object({ id: string, name: string }) })) }),
+});
+
+export async function getOnlineStorePublicationId(client: ShopifyClient): Promise<string | null> {
+  const data = await run(client, "publications", GET_PUBLICATIONS, {}, publicationsShape);
+  return data.publications.edges.find((e) => e.node.name === "Online Store")?.node.id || null;
+}
+
+const publishShape = object({ publishablePublish: object({ userErrors }) });
+
+// Modo bulk do step2: uma linha por produto criado.
+export const PUBLISHABLE_PUBLISH_BULK = bulkMutation("publishablePublish", PUBLISHABLE_PUBLISH, bulkPublishShape);
+
+export async function publishToChannel(
+  client: ShopifyClient,
+  resourceId: string,
+  publicationId: string
+): Promise<UserError[]> {
+  const data = await run(client, "publishablePublish", PUBLISHABLE_PUBLISH, {
+    id: resourceId,
+    input: [{ publicationId }],
+  }, publishShape);
+  return data.publishablePublish.userErrors;
+}
+
+// ── Produtos ──
+
+export const CREATE_PRODUCT = adminDocument<Admin.ProductCreateMutation, Admin.ProductCreateMutationVariables>(/* GraphQL */ `
+  mutation productCreate($input: ProductInput!, $media: [CreateMediaInput!]) {
+    productCreate(input: $input, media: $media) {
+      product {
+        id
+        handle
+        variants(first: 1) {
+          edges {
+            node {
+              id
+            }
+          }
+        }
+        media(first: 250) {
+          nodes { id alt }
+        }
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+const createProductShape = object({
+  productCreate: object({
+    product: nullable(object({
+      id: string,
+      handle: string,
+      variants: object({ edges: array(object({ node: object({ id: string }) })) }),
+      media: object({ nodes: array(object({ id: string, alt: nullable(string) })) }),
+    })),
+    userErrors,
+  }),
+});
+
+export type CreateProductResult = Infer<typeof createProductShape>["productCreate"];
+
+export async function createProduct(
+  client: ShopifyClient,
+  input: ProductImportInput,
+  media: ProductMediaInput[]
+): Promise<CreateProductResult> {
+  const data = await run(client, "productCreate", CREATE_PRODUCT, {
+    input,
+    media: media.length > 0 ? media : undefined,
+  }, createProductShape);
+  return data.productCreate;
+}
+
+// Modo bulk: cada linha do JSONL são as variáveis de um productSet.
+export const PRODUCT_SET = adminDocument<Admin.ProductSetMutation, Admin.ProductSetMutationVariables>(/* GraphQL */ `
+  mutation productSet($input: ProductSetInput!, $identifier: ProductSetIdentifiers) {
+    productSet(input: $input, identifier: $identifier, synchronous: true) {
+      product { id handle }
+      userErrors { field message code }
+    }
+  }
+`);
+
+export const PRODUCT_UPDATE = adminDocument<Admin.ProductUpdateMutation, Admin.ProductUpdateMutationVariables>(/* GraphQL */ `
+  mutation productUpdate($product: ProductUpdateInput!, $media: [CreateMediaInput!]) {
+    productUpdate(product: $product, media: $media) {
+      userErrors { field message }
+    }
+  }
+`);
+
+export const PRODUCT_OPTIONS_CREATE = adminDocument<Admin.ProductOptionsCreateMutation, Admin.ProductOptionsCreateMutationVariables>(/* GraphQL */ `
+  mutation productOptionsCreate($productId: ID!, $options: [OptionCreateInput!]!) {
+    productOptionsCreate(productId: $productId, options: $options) {
+      userErrors { field message code }
+    }
+  }
+`);
+
+export const VARIANTS_BULK_CREATE = adminDocument<Admin.ProductVariantsBulkCreateMutation, Admin.ProductVariantsBulkCreateMutationVariables>(/* GraphQL */ `
+  mutation productVariantsBulkCreate(
+    $productId: ID!,
+    $strategy: ProductVariantsBulkCreateStrategy,
+    $variants: [ProductVariantsBulkInput!]!,
+    $media: [CreateMediaInput!]
+  ) {
+    productVariantsBulkCreate(
+      productId: $productId,
+      strategy: $strategy,
+      variants: $variants,
+      media: $media
+    ) {
+      productVariants {
+        id
+        title
+        price
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const VARIANTS_BULK_UPDATE = adminDocument<Admin.ProductVariantsBulkUpdateMutation, Admin.ProductVariantsBulkUpdateMutationVariables>(/* GraphQL */ `
+  mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      userErrors { field message }
+    }
+  }
+`);
+
+export const PRODUCT_MEDIA_STATUS = adminDocument<Admin.ProductMediaStatusQuery, Admin.ProductMediaStatusQueryVariables>(/* GraphQL */ `
+  query productMediaStatus($id: ID!) {
+    product(id: $id) {
+      media(first: 250) {
+        nodes { id status }
+      }
+    }
+  }
+`);
+
+export const VARIANT_APPEND_MEDIA = adminDocument<Admin.ProductVariantAppendMediaMutation, Admin.ProductVariantAppendMediaMutationVariables>(/* GraphQL */ `
+  mutation productVariantAppendMedia($productId: ID!, $variantMedia: [ProductVariantAppendMediaInput!]!) {
+    productVariantAppendMedia(productId: $productId, variantMedia: $variantMedia) {
+      userErrors { field message }
+    }
+  }
+`);
+
+// Modo upsert: produto existente é localizado pelo handle ou, se o handle mudou, pelo SKU.
+const EXISTING_PRODUCT_FIELDS = /* GraphQL */ `
+  fragment ExistingProductFields on Product {
+    id
+    handle
+    title
+    descriptionHtml
+    vendor
+    productType
+    tags
+    status
+    seo { title description }
+    metafields(first: 50) { nodes { namespace key value } }
+    variants(first: 250) {
+      nodes {
+        id
+        sku
+        price
+        compareAtPrice
+        barcode
+        taxable
+        inventoryPolicy
+        selectedOptions { name value }
+        metafields(first: 50) { nodes { namespace key value } }
+      }
+    }
+    media(first: 250) {
+      nodes {
+        ... on MediaImage { image { url } }
+      }
+    }
+  }
+`;
+
+export const FIND_PRODUCT_BY_HANDLE = adminDocument<Admin.ProductByHandleQuery, Admin.ProductByHandleQueryVariables>(/* GraphQL */ `
+  query productByHandle($handle: String!) {
+    productByIdentifier(identifier: { handle: $handle }) { ...ExistingProductFields }
+  }
+  ${EXISTING_PRODUCT_FIELDS}
+`);
+
+export const FIND_PRODUCT_BY_SKU = adminDocument<Admin.ProductBySkuQuery, Admin.ProductBySkuQueryVariables>(/* GraphQL */ `
+  query productBySku($query: String!) {
+    productVariants(first: 1, query: $query) {
+      nodes { product { ...ExistingProductFields } }
+    }
+  }
+  ${EXISTING_PRODUCT_FIELDS}
+`);
+
+const productSetShape = object({
+  productSet: nullable(object({
+    product: nullable(object({ id: string, handle: string })),
+    userErrors: codedUserErrors<Admin.ProductSetUserErrorCode>(),
+  })),
+});
+
+export const PRODUCT_SET_BULK = bulkMutation("productSet", PRODUCT_SET, productSetShape);
+
+const updateProductShape = object({ productUpdate: object({ userErrors }) });
+
+export async function updateProduct(
+  client: ShopifyClient,
+  product: { id: string } & ProductDiff["product"],
+  media: ProductMediaInput[]
+): Promise<UserError[]> {
+  const data = await run(client, "productUpdate", PRODUCT_UPDATE, {
+    product,
+    media: media.length > 0 ? media : undefined,
+  }, updateProductShape);
+  return data.productUpdate.userErrors;
+}
+
+const productOptionsShape = object({
+  productOptionsCreate: object({ userErrors: codedUserErrors<Admin.ProductOptionsCreateUserErrorCode>() }),
+});
+
+// Opções na ordem das colunas Option1..3 do CSV.
+export async function createProductOptions(
+  client: ShopifyClient,
+  productId: string,
+  names: string[]
+): Promise<CodedUserError[]> {
+  const data = await run(client, "productOptionsCreate", PRODUCT_OPTIONS_CREATE, {
+    productId,
+    options: names.map((name, index) => ({ name, position: index + 1 })),
+  }, productOptionsShape);
+  return data.productOptionsCreate.userErrors;
+}
+
+const createVariantsShape = object({
+  productVariantsBulkCreate: object({
+    productVariants: nullable(array(object({ id: string, title: string, price: string }))),
+    userErrors,
+  }),
+});
+
+export type CreateVariantsResult = Infer<typeof createVariantsShape>["productVariantsBulkCreate"];
+
+export async function createVariants(
+  client: ShopifyClient,
+  variables: {
+    productId: string;
+    strategy: "DEFAULT" | "REMOVE_STANDALONE_VARIANT";
+    variants: VariantImportInput[];
+    media?: ProductMediaInput[];
+  }
+): Promise<CreateVariantsResult> {
+  const data = await run(client, "productVariantsBulkCreate", VARIANTS_BULK_CREATE, {
+    ...variables,
+    media: variables.media && variables.media.length > 0 ? variables.media : undefined,
+  }, createVariantsShape);
+  return data.productVariantsBulkCreate;
+}
+
+const updateVariantsShape = object({ productVariantsBulkUpdate: object({ userErrors }) });
+
+export async function updateVariants(
+  client: ShopifyClient,
+  productId: string,
+  variants: VariantUpdate[]
+): Promise<UserError[]> {
+  const data = await run(client, "productVariantsBulkUpdate", VARIANTS_BULK_UPDATE, { productId, variants }, updateVariantsShape);
+  return data.productVariantsBulkUpdate.userErrors;
+}
+
+const mediaStatus = enumOf("UPLOADED", "PROCESSING", "READY", "FAILED");
+
+const productMediaStatusShape = object({
+  product: nullable(object({ media: object({ nodes: array(object({ id: string, status: mediaStatus })) }) })),
+});
+
+// null quando o produto não existe.
+export async function getProductMediaStatus(
+  client: ShopifyClient,
+  productId: string
+): Promise<{ id: string; status: Infer<typeof mediaStatus> }[] | null> {
+  const data = await run(client, "product", PRODUCT_MEDIA_STATUS, { id: productId }, productMediaStatusShape);
+  return data.product ? data.product.media.nodes : null;
+}
+
+const appendVariantMediaShape = object({ productVariantAppendMedia: object({ userErrors }) });
+
+export async function appendVariantMedia(
+  client: ShopifyClient,
+  productId: string,
+  variantMedia: { variantId: string; mediaIds: string[] }[]
+): Promise<UserError[]> {
+  const data = await run(client, "productVariantAppendMedia", VARIANT_APPEND_MEDIA, {
+    productId,
+    variantMedia,
+  }, appendVariantMediaShape);
+  return data.productVariantAppendMedia.userErrors;
+}
+
+const ownerMetafields = object({ nodes: array(object({ namespace: string, key: string, value: string })) });
+
+const existingProductShape = object({
+  id: string,
+  handle: string,
+  title: string,
+  descriptionHtml: string,
+  vendor: string,
+  productType: string,
+  tags: array(string),
+  status: enumOf("ACTIVE", "DRAFT", "ARCHIVED"),
+  seo: object({ title: nullable(string), description: nullable(string) }),
+  metafields: ownerMetafields,
+  variants: object({
+    nodes: array(object({
+      id: string,
+      sku: nullable(string),
+      price: string,
+      compareAtPrice: nullable(string),
+      barcode: nullable(string),
+      taxable: boolean,
+      inventoryPolicy: enumOf("DENY", "CONTINUE"),
+      selectedOptions: array(object({ name: string, value: string })),
+      metafields: ownerMetafields,
+    })),
+  }),
+  // Mídias que não são imagem não têm o fragmento.
+  media: object({ nodes: array(fragment(object({ image: nullable(object({ url: string })) }))) }),
+});
+
+export type ExistingProductNode = Infer<typeof existingProductShape>;
+
+const productByHandleShape = object({ productByIdentifier: nullable(existingProductShape) });
+
+export async function findProductByHandle(client: ShopifyClient, handle: string): Promise<ExistingProductNode | null> {
+  const data = await run(client, "productByIdentifier", FIND_PRODUCT_BY_HANDLE, { handle }, productByHandleShape);
+  return data.productByIdentifier;
+}
+
+const productBySkuShape = object({
+  productVariants: object({ nodes: array(object({ product: existingProductShape })) }),
+});
+
+export async function findProductBySku(client: ShopifyClient, sku: string): Promise<ExistingProductNode | null> {
+  const data = await run(client, "productVariants", FIND_PRODUCT_BY_SKU, {
+    query: `sku:"${sku.replace(/"/g, '\\"')}"`,
+  }, productBySkuShape);
+  return data.productVariants.nodes[0]?.product || null;
+}
+
+export const PRODUCT_DELETE = adminDocument<Admin.ProductDeleteMutation, Admin.ProductDeleteMutationVariables>(/* GraphQL */ `
+  mutation productDelete($input: ProductDeleteInput!) {
+    productDelete(input: $input) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteProductShape = object({ productDelete: object({ userErrors }) });
+
+export async function deleteProduct(client: ShopifyClient, productId: string): Promise<UserError[]> {
+  const data = await run(client, "productDelete", PRODUCT_DELETE, { input: { id: productId } }, deleteProductShape);
+  return data.productDelete.userErrors;
+}
+
+// ── Locations ──
+
+export const GET_LOCATIONS = adminDocument<Admin.GetLocationsQuery, Admin.GetLocationsQueryVariables>(/* GraphQL */ `
+  query getLocations {
+    locations(first: 50) {
+      edges {
+        node {
+          id
+          name
+          isPrimary
+        }
+      }
+    }
+  }
+`);
+
+const locationsShape = object({
+  locations: object({ edges: array(object({ node: object({ id: string, name: string, isPrimary: boolean }) })) }),
+});
+
+// isPrimary está depreciado na 2026-01, mas segue sendo o que define a location principal.
+export async function listLocations(
+  client: ShopifyClient
+): Promise<{ id: string; name: string; isPrimary: boolean }[]> {
+  const data = await run(client, "locations", GET_LOCATIONS, {}, locationsShape);
+  return data.locations.edges.map((e) => e.node);
+}
+
+// ── Metafields ──
+
+export const GET_METAFIELD_DEFINITION = adminDocument<Admin.MetafieldDefinitionQuery, Admin.MetafieldDefinitionQueryVariables>(/* GraphQL */ `
+  query metafieldDefinition($ownerType: MetafieldOwnerType!, $namespace: String!, $key: String!) {
+    metafieldDefinitions(first: 1, ownerType: $ownerType, namespace: $namespace, key: $key) {
+      nodes {
+        id
+        type { name }
+      }
+    }
+  }
+`);
+
+export const CREATE_METAFIELD_DEFINITION = adminDocument<Admin.MetafieldDefinitionCreateMutation, Admin.MetafieldDefinitionCreateMutationVariables>(/* GraphQL */ `
+  mutation metafieldDefinitionCreate($definition: MetafieldDefinitionInput!) {
+    metafieldDefinitionCreate(definition: $definition) {
+      createdDefinition { id }
+      userErrors { field message code }
+    }
+  }
+`);
+
+export interface MetafieldDefinitionInput {
+  name: string;
+  namespace: string;
+  key: string;
+  type: string;
+  ownerType: MetafieldOwner;
+  pin: boolean;
+}
+
+const metafieldDefinitionShape = object({
+  metafieldDefinitions: object({ nodes: array(object({ id: string, type: object({ name: string }) })) }),
+});
+
+export async function getMetafieldDefinition(
+  client: ShopifyClient,
+  variables: { ownerType: MetafieldOwner; namespace: string; key: string }
+): Promise<{ id: string; type: { name: string } } | null> {
+  const data = await run(client, "metafieldDefinitions", GET_METAFIELD_DEFINITION, variables, metafieldDefinitionShape);
+  return data.metafieldDefinitions.nodes[0] || null;
+}
+
+const createMetafieldDefinitionShape = object({
+  metafieldDefinitionCreate: object({
+    createdDefinition: nullable(object({ id: string })),
+    userErrors: codedUserErrors<Admin.MetafieldDefinitionCreateUserErrorCode>(),
+  }),
+});
+
+export async function createMetafieldDefinition(
+  client: ShopifyClient,
+  definition: MetafieldDefinitionInput
+): Promise<Infer<typeof createMetafieldDefinitionShape>["metafieldDefinitionCreate"]> {
+  const data = await run(client, "metafieldDefinitionCreate", CREATE_METAFIELD_DEFINITION, {
+    definition,
+  }, createMetafieldDefinitionShape);
+  return data.metafieldDefinitionCreate;
+}
+
+// Sem cascata: valores que já existiam na loja com o mesmo namespace.key continuam lá. Os
+// criados pela execução saem com os produtos apagados antes.
+export const METAFIELD_DEFINITION_DELETE = adminDocument<Admin.MetafieldDefinitionDeleteMutation, Admin.MetafieldDefinitionDeleteMutationVariables>(/* GraphQL */ `
+  mutation metafieldDefinitionDelete($id: ID!) {
+    metafieldDefinitionDelete(id: $id, deleteAllAssociatedMetafields: false) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteMetafieldDefinitionShape = object({ metafieldDefinitionDelete: object({ userErrors }) });
+
+export async function deleteMetafieldDefinition(client: ShopifyClient, definitionId: string): Promise<UserError[]> {
+  const data = await run(client, "metafieldDefinitionDelete", METAFIELD_DEFINITION_DELETE, { id: definitionId }, deleteMetafieldDefinitionShape);
+  return data.metafieldDefinitionDelete.userErrors;
+}
+
+// ── Taxonomia ──
+
+export const SEARCH_TAXONOMY_CATEGORY = adminDocument<Admin.SearchTaxonomyCategoryQuery, Admin.SearchTaxonomyCategoryQueryVariables>(/* GraphQL */ `
+  query searchTaxonomyCategory($search: String!) {
+    taxonomy {
+      categories(search: $search, first: 5) {
+        nodes {
+          id
+          fullName
+        }
+      }
+    }
+  }
+`);
+
+const taxonomyShape = object({
+  taxonomy: object({ categories: object({ nodes: array(object({ id: string, fullName: string })) }) }),
+});
+
+export async function searchTaxonomyCategories(
+  client: ShopifyClient,
+  search: string
+): Promise<{ id: string; fullName: string }[]> {
+  const data = await run(client, "taxonomy", SEARCH_TAXONOMY_CATEGORY, { search }, taxonomyShape);
+  return data.taxonomy.categories.nodes;
+}
+
+// ── Coleções ──
+
+export const CREATE_COLLECTION = adminDocument<Admin.CollectionCreateMutation, Admin.CollectionCreateMutationVariables>(/* GraphQL */ `
+  mutation collectionCreate($input: CollectionInput!) {
+    collectionCreate(input: $input) {
+      collection {
+        id
+        handle
+        title
+        ruleSet { appliedDisjunctively }
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const GET_COLLECTION_BY_HANDLE = adminDocument<Admin.GetCollectionByHandleQuery, Admin.GetCollectionByHandleQueryVariables>(/* GraphQL */ `
+  query getCollectionByHandle($handle: String!) {
+    collectionByHandle(handle: $handle) {
+      id
+      handle
+      title
+      ruleSet { appliedDisjunctively }
+    }
+  }
+`);
+
+export const GET_COLLECTIONS = adminDocument<Admin.CollectionsQuery, Admin.CollectionsQueryVariables>(/* GraphQL */ `
+  query collections {
+    collections(first: 50) {
+      edges {
+        node {
+          id
+          title
+          handle
+        }
+      }
+    }
+  }
+`);
+
+export const ADD_PRODUCTS_TO_COLLECTION = adminDocument<Admin.CollectionAddProductsMutation, Admin.CollectionAddProductsMutationVariables>(/* GraphQL */ `
+  mutation collectionAddProducts($id: ID!, $productIds: [ID!]!) {
+    collectionAddProducts(id: $id, productIds: $productIds) {
+      userErrors { field message }
+    }
+  }
+`);
+
+export const UPDATE_COLLECTION = adminDocument<Admin.CollectionUpdateMutation, Admin.CollectionUpdateMutationVariables>(/* GraphQL */ `
+  mutation collectionUpdate($input: CollectionInput!) {
+    collectionUpdate(input: $input) {
+      userErrors { field message }
+    }
+  }
+`);
+
+// ruleSet só vem preenchido em coleções automáticas.
+const collectionShape = object({
+  id: string,
+  handle: string,
+  title: string,
+  ruleSet: nullable(object({ appliedDisjunctively: boolean })),
+});
+
+export type CollectionNode = Infer<typeof collectionShape>;
+
+const createCollectionShape = object({
+  collectionCreate: object({ collection: nullable(collectionShape), userErrors }),
+});
+
+export async function createCollection(
+  client: ShopifyClient,
+  input: { title: string; handle: string; ruleSet?: SmartCollectionRuleSet }
+): Promise<Infer<typeof createCollectionShape>["collectionCreate"]> {
+  const data = await run(client, "collectionCreate", CREATE_COLLECTION, { input }, createCollectionShape);
+  return data.collectionCreate;
+}
+
+const collectionByHandleShape = object({ collectionByHandle: nullable(collectionShape) });
+
+export async function getCollectionByHandle(client: ShopifyClient, handle: string): Promise<CollectionNode | null> {
+  const data = await run(client, "collectionByHandle", GET_COLLECTION_BY_HANDLE, { handle }, collectionByHandleShape);
+  return data.collectionByHandle;
+}
+
+const collectionsShape = object({
+  collections: object({ edges: array(object({ node: object({ id: string, title: string, handle: string }) })) }),
+});
+
+export async function listCollections(client: ShopifyClient): Promise<{ id: string; title: string; handle: string }[]> {
+  const data = await run(client, "collections", GET_COLLECTIONS, {}, collectionsShape);
+  return data.collections.edges.map((e) => e.node);
+}
+
+const addCollectionProductsShape = object({ collectionAddProducts: object({ userErrors }) });
+
+export async function addCollectionProducts(
+  client: ShopifyClient,
+  collectionId: string,
+  productIds: string[]
+): Promise<UserError[]> {
+  const data = await run(client, "collectionAddProducts", ADD_PRODUCTS_TO_COLLECTION, {
+    id: collectionId,
+    productIds,
+  }, addCollectionProductsShape);
+  return data.collectionAddProducts.userErrors;
+}
+
+const updateCollectionShape = object({ collectionUpdate: object({ userErrors }) });
+
+export async function updateCollectionImage(
+  client: ShopifyClient,
+  collectionId: string,
+  imageSrc: string
+): Promise<UserError[]> {
+  const data = await run(client, "collectionUpdate", UPDATE_COLLECTION, {
+    input: { id: collectionId, image: { src: imageSrc } },
+  }, updateCollectionShape);
+  return data.collectionUpdate.userErrors;
+}
+
+export const COLLECTION_DELETE = adminDocument<Admin.CollectionDeleteMutation, Admin.CollectionDeleteMutationVariables>(/* GraphQL */ `
+  mutation collectionDelete($input: CollectionDeleteInput!) {
+    collectionDelete(input: $input) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteCollectionShape = object({ collectionDelete: object({ userErrors }) });
+
+export async function deleteCollection(client: ShopifyClient, collectionId: string): Promise<UserError[]> {
+  const data = await run(client, "collectionDelete", COLLECTION_DELETE, { input: { id: collectionId } }, deleteCollectionShape);
+  return data.collectionDelete.userErrors;
+}
+
+// ── Uploads e arquivos ──
+
+export const STAGED_UPLOADS_CREATE = adminDocument<Admin.StagedUploadsCreateMutation, Admin.StagedUploadsCreateMutationVariables>(/* GraphQL */ `
+  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets {
+        url
+        resourceUrl
+        parameters { name value }
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+export interface StagedUploadInput {
+  filename: string;
+  mimeType: string;
+  httpMethod: "POST" | "PUT";
+  resource: "IMAGE" | "FILE" | "BULK_MUTATION_VARIABLES";
+}
+
+const stagedUploadsShape = object({
+  stagedUploadsCreate: object({
+    stagedTargets: array(object({
+      url: string,
+      // Nulo para BULK_MUTATION_VARIABLES, que é referenciado pelo parâmetro "key".
+      resourceUrl: nullable(string),
+      parameters: array(object({ name: string, value: string })),
+    })),
+    userErrors,
+  }),
+});
+
+export type StagedUploadsResult = Infer<typeof stagedUploadsShape>["stagedUploadsCreate"];
+
+export async function createStagedUploads(
+  client: ShopifyClient,
+  input: StagedUploadInput[]
+): Promise<StagedUploadsResult> {
+  const data = await run(client, "stagedUploadsCreate", STAGED_UPLOADS_CREATE, { input }, stagedUploadsShape);
+  return data.stagedUploadsCreate;
+}
+
+export const FILE_CREATE = adminDocument<Admin.FileCreateMutation, Admin.FileCreateMutationVariables>(/* GraphQL */ `
+  mutation fileCreate($files: [FileCreateInput!]!) {
+    fileCreate(files: $files) {
+      files {
+        id
+        alt
+        fileStatus
+        ... on MediaImage {
+          image { url }
+        }
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+const fileCreateShape = object({
+  fileCreate: object({
+    files: nullable(array(object({
+      id: string,
+      alt: nullable(string),
+      fileStatus: enumOf("UPLOADED", "PROCESSING", "READY", "FAILED"),
+      image: optional(nullable(object({ url: string }))),
+    }))),
+    userErrors,
+  }),
+});
+
+export type FileCreateResult = Infer<typeof fileCreateShape>["fileCreate"];
+
+export async function createImageFiles(
+  client: ShopifyClient,
+  files: { originalSource: string; alt: string }[]
+): Promise<FileCreateResult> {
+  const data = await run(client, "fileCreate", FILE_CREATE, {
+    files: files.map((f) => ({ ...f, contentType: "IMAGE" as const })),
+  }, fileCreateShape);
+  return data.fileCreate;
+}
+
+export const FILE_STATUS = adminDocument<Admin.NodeQuery, Admin.NodeQueryVariables>(/* GraphQL */ `
+  query node($id: ID!) {
+    node(id: $id) {
+      ... on MediaImage {
+        id
+        fileStatus
+        image { url }
+      }
+    }
+  }
+`);
+
+const fileStatusShape = object({
+  node: nullable(object({
+    id: string,
+    fileStatus: enumOf("UPLOADED", "PROCESSING", "READY", "FAILED"),
+    image: nullable(object({ url: string })),
+  })),
+});
+
+export type FileStatusNode = NonNullable<Infer<typeof fileStatusShape>["node"]>;
+
+// null enquanto a loja ainda não enxerga o arquivo recém-criado.
+export async function getFileStatus(client: ShopifyClient, fileId: string): Promise<FileStatusNode | null> {
+  const data = await run(client, "node", FILE_STATUS, { id: fileId }, fileStatusShape);
+  return data.node;
+}
+
+export const FILE_DELETE = adminDocument<Admin.FileDeleteMutation, Admin.FileDeleteMutationVariables>(/* GraphQL */ `
+  mutation fileDelete($fileIds: [ID!]!) {
+    fileDelete(fileIds: $fileIds) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteFilesShape = object({ fileDelete: object({ userErrors }) });
+
+export async function deleteFiles(client: ShopifyClient, fileIds: string[]): Promise<UserError[]> {
+  const data = await run(client, "fileDelete", FILE_DELETE, { fileIds }, deleteFilesShape);
+  return data.fileDelete.userErrors;
+}
+
+// ── Temas ──
+
+export const LIST_THEMES = adminDocument<Admin.ListThemesQuery, Admin.ListThemesQueryVariables>(/* GraphQL */ `
+  query listThemes {
+    themes(first: 50) {
+      nodes { id name role }
+    }
+  }
+`);
+
+export const GET_MAIN_THEME = adminDocument<Admin.MainThemeQuery, Admin.MainThemeQueryVariables>(/* GraphQL */ `
+  query mainTheme {
+    themes(first: 1, roles: [MAIN]) {
+      nodes { id name }
+    }
+  }
+`);
+
+export const THEME_CREATE = adminDocument<Admin.ThemeCreateMutation, Admin.ThemeCreateMutationVariables>(/* GraphQL */ `
+  mutation themeCreate($name: String!, $source: URL!, $role: ThemeRole!) {
+    themeCreate(name: $name, source: $source, role: $role) {
+      theme {
+        id
+        name
+        processing
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const THEME_STATUS = adminDocument<Admin.GetThemeQuery, Admin.GetThemeQueryVariables>(/* GraphQL */ `
+  query getTheme($id: ID!) {
+    theme(id: $id) {
+      id
+      processing
+    }
+  }
+`);
+
+export const THEME_PUBLISH = adminDocument<Admin.ThemePublishMutation, Admin.ThemePublishMutationVariables>(/* GraphQL */ `
+  mutation themePublish($id: ID!) {
+    themePublish(id: $id) {
+      theme {
+        id
+        role
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const THEME_FILES_READ = adminDocument<Admin.ThemeFilesQuery, Admin.ThemeFilesQueryVariables>(/* GraphQL */ `
+  query themeFiles($themeId: ID!, $filenames: [String!]!) {
+    theme(id: $themeId) {
+      files(filenames: $filenames, first: 250) {
+        nodes {
+          filename
+          body {
+            ... on OnlineStoreThemeFileBodyText { content }
+          }
+        }
+      }
+    }
+  }
+`);
+
+export const THEME_FILES_UPSERT = adminDocument<Admin.ThemeFilesUpsertMutation, Admin.ThemeFilesUpsertMutationVariables>(/* GraphQL */ `
+  mutation themeFilesUpsert($themeId: ID!, $files: [OnlineStoreThemeFilesUpsertFileInput!]!) {
+    themeFilesUpsert(themeId: $themeId, files: $files) {
+      upsertedThemeFiles { filename }
+      userErrors { field message }
+    }
+  }
+`);
+
+const listThemesShape = object({
+  themes: object({ nodes: array(object({ id: string, name: string, role: schemaEnum<Admin.ThemeRole>() })) }),
+});
+
+export async function listThemes(client: ShopifyClient): Promise<Infer<typeof listThemesShape>["themes"]["nodes"]> {
+  const data = await run(client, "themes", LIST_THEMES, {}, listThemesShape);
+  return data.themes.nodes;
+}
+
+const mainThemeShape = object({ themes: object({ nodes: array(object({ id: string, name: string })) }) });
+
+export async function getMainTheme(client: ShopifyClient): Promise<{ id: string; name: string } | null> {
+  const data = await run(client, "themes", GET_MAIN_THEME, {}, mainThemeShape);
+  return data.themes.nodes[0] || null;
+}
+
+const createThemeShape = object({
+  themeCreate: object({
+    theme: nullable(object({ id: string, name: string, processing: boolean })),
+    userErrors,
+  }),
+});
+
+export async function createTheme(
+  client: ShopifyClient,
+  variables: { name: string; source: string; role: "UNPUBLISHED" | "DEVELOPMENT" }
+): Promise<Infer<typeof createThemeShape>["themeCreate"]> {
+  const data = await run(client, "themeCreate", THEME_CREATE, variables, createThemeShape);
+  return data.themeCreate;
+}
+
+const themeStatusShape = object({ theme: nullable(object({ id: string, processing: boolean })) });
+
+// null quando o tema não existe (ou foi apagado durante o processamento).
+export async function getThemeProcessing(client: ShopifyClient, themeId: string): Promise<boolean | null> {
+  const data = await run(client, "theme", THEME_STATUS, { id: themeId }, themeStatusShape);
+  return data.theme ? data.theme.processing : null;
+}
+
+const publishThemeShape = object({
+  themePublish: object({ theme: nullable(object({ id: string, role: schemaEnum<Admin.ThemeRole>() })), userErrors }),
+});
+
+export async function publishTheme(
+  client: ShopifyClient,
+  themeId: string
+): Promise<Infer<typeof publishThemeShape>["themePublish"]> {
+  const data = await run(client, "themePublish", THEME_PUBLISH, { id: themeId }, publishThemeShape);
+  return data.themePublish;
+}
+
+const themeFilesShape = object({
+  theme: nullable(object({
+    files: object({
+      nodes: array(object({
+        filename: string,
+        // Arquivos binários não têm o fragmento de texto.
+        body: fragment(object({ content: string })),
+      })),
+    }),
+  })),
+});
+
+// Conteúdo de texto por filename; arquivo ausente no tema fica de fora. null se o tema não existe.
+export async function readThemeFiles(
+  client: ShopifyClient,
+  themeId: string,
+  filenames: string[]
+): Promise<Map<string, string> | null> {
+  const data = await run(client, "theme", THEME_FILES_READ, { themeId, filenames }, themeFilesShape);
+  if (!data.theme) return null;
+  const contents = new Map<string, string>();
+  data.theme.files.nodes.forEach((node) => {
+    if ("content" in node.body) contents.set(node.filename, node.body.content);
+  });
+  return contents;
+}
+
+const upsertThemeFilesShape = object({
+  themeFilesUpsert: object({ upsertedThemeFiles: nullable(array(object({ filename: string }))), userErrors }),
+});
+
+export async function upsertThemeFiles(
+  client: ShopifyClient,
+  themeId: string,
+  files: { filename: string; content: string }[]
+): Promise<Infer<typeof upsertThemeFilesShape>["themeFilesUpsert"]> {
+  const data = await run(client, "themeFilesUpsert", THEME_FILES_UPSERT, {
+    themeId,
+    files: files.map((f) => ({ filename: f.filename, body: { type: "TEXT" as const, value: f.content } })),
+  }, upsertThemeFilesShape);
+  return data.themeFilesUpsert;
+}
+
+export const THEME_DELETE = adminDocument<Admin.ThemeDeleteMutation, Admin.ThemeDeleteMutationVariables>(/* GraphQL */ `
+  mutation themeDelete($id: ID!) {
+    themeDelete(id: $id) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteThemeShape = object({ themeDelete: object({ userErrors }) });
+
+export async function deleteTheme(client: ShopifyClient, themeId: string): Promise<UserError[]> {
+  const data = await run(client, "themeDelete", THEME_DELETE, { id: themeId }, deleteThemeShape);
+  return data.themeDelete.userErrors;
+}
+
+// ── Páginas ──
+
+export const GET_EXISTING_PAGES = adminDocument<Admin.PagesQuery, Admin.PagesQueryVariables>(/* GraphQL */ `
+  query pages {
+    pages(first: 50) {
+      edges {
+        node {
+          id
+          title
+          handle
+        }
+      }
+    }
+  }
+`);
+
+export const PAGE_CREATE = adminDocument<Admin.PageCreateMutation, Admin.PageCreateMutationVariables>(/* GraphQL */ `
+  mutation pageCreate($page: PageCreateInput!) {
+    pageCreate(page: $page) {
+      page {
+        id
+        title
+        handle
+      }
+      userErrors { field message }
+    }
+  }
+`);
+
+const pageShape = object({ id: string, title: string, handle: string });
+
+export type PageNode = Infer<typeof pageShape>;
+
+const pagesShape = object({ pages: object({ edges: array(object({ node: pageShape })) }) });
+
+export async function listPages(client: ShopifyClient): Promise<PageNode[]> {
+  const data = await run(client, "pages", GET_EXISTING_PAGES, {}, pagesShape);
+  return data.pages.edges.map((e) => e.node);
+}
+
+const createPageShape = object({ pageCreate: object({ page: nullable(pageShape), userErrors }) });
+
+export async function createPage(
+  client: ShopifyClient,
+  page: { title: string; handle: string; body: string; isPublished: boolean }
+): Promise<Infer<typeof createPageShape>["pageCreate"]> {
+  const data = await run(client, "pageCreate", PAGE_CREATE, { page }, createPageShape);
+  return data.pageCreate;
+}
+
+export const PAGE_DELETE = adminDocument<Admin.PageDeleteMutation, Admin.PageDeleteMutationVariables>(/* GraphQL */ `
+  mutation pageDelete($id: ID!) {
+    pageDelete(id: $id) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deletePageShape = object({ pageDelete: object({ userErrors }) });
+
+export async function deletePage(client: ShopifyClient, pageId: string): Promise<UserError[]> {
+  const data = await run(client, "pageDelete", PAGE_DELETE, { id: pageId }, deletePageShape);
+  return data.pageDelete.userErrors;
+}
+
+// ── Menus ──
+
+// Três níveis de itens, com resourceId e tags, para o rollback restaurar o menu como estava.
+export const LIST_MENUS = adminDocument<Admin.MenusQuery, Admin.MenusQueryVariables>(/* GraphQL */ `
+  fragment MenuItemFields on MenuItem { title type url resourceId tags }
+  query menus {
+    menus(first: 10) {
+      edges {
+        node {
+          id
+          handle
+          title
+          items {
+            id
+            ...MenuItemFields
+            items { ...MenuItemFields items { ...MenuItemFields } }
+          }
+        }
+      }
+    }
+  }
+`);
+
+export const MENU_CREATE = adminDocument<Admin.MenuCreateMutation, Admin.MenuCreateMutationVariables>(/* GraphQL */ `
+  mutation menuCreate($title: String!, $handle: String!, $items: [MenuItemCreateInput!]!) {
+    menuCreate(title: $title, handle: $handle, items: $items) {
+      menu { id }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const MENU_UPDATE = adminDocument<Admin.MenuUpdateMutation, Admin.MenuUpdateMutationVariables>(/* GraphQL */ `
+  mutation menuUpdate($id: ID!, $title: String!, $items: [MenuItemUpdateInput!]!) {
+    menuUpdate(id: $id, title: $title, items: $items) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const menuItemFields = {
+  title: string,
+  type: schemaEnum<Admin.MenuItemType>(),
+  url: nullable(string),
+  resourceId: nullable(string),
+  tags: array(string),
+};
+
+const menuShape = object({
+  id: string,
+  handle: string,
+  title: string,
+  items: array(object({
+    id: string,
+    ...menuItemFields,
+    items: array(object({ ...menuItemFields, items: array(object(menuItemFields)) })),
+  })),
+});
+
+export type MenuNode = Infer<typeof menuShape>;
+
+const menusShape = object({ menus: object({ edges: array(object({ node: menuShape })) }) });
+
+export async function listMenus(client: ShopifyClient): Promise<MenuNode[]> {
+  const data = await run(client, "menus", LIST_MENUS, {}, menusShape);
+  return data.menus.edges.map((e) => e.node);
+}
+
+const createMenuShape = object({ menuCreate: object({ menu: nullable(object({ id: string })), userErrors }) });
+
+export async function createMenu(
+  client: ShopifyClient,
+  variables: Admin.MenuCreateMutationVariables
+): Promise<Infer<typeof createMenuShape>["menuCreate"]> {
+  const data = await run(client, "menuCreate", MENU_CREATE, variables, createMenuShape);
+  return data.menuCreate;
+}
+
+const updateMenuShape = object({ menuUpdate: object({ userErrors }) });
+
+export async function updateMenu(
+  client: ShopifyClient,
+  variables: Admin.MenuUpdateMutationVariables
+): Promise<UserError[]> {
+  const data = await run(client, "menuUpdate", MENU_UPDATE, variables, updateMenuShape);
+  return data.menuUpdate.userErrors;
+}
+
+export const MENU_DELETE = adminDocument<Admin.MenuDeleteMutation, Admin.MenuDeleteMutationVariables>(/* GraphQL */ `
+  mutation menuDelete($id: ID!) {
+    menuDelete(id: $id) {
+      userErrors { field message }
+    }
+  }
+`);
+
+const deleteMenuShape = object({ menuDelete: object({ userErrors }) });
+
+export async function deleteMenu(client: ShopifyClient, menuId: string): Promise<UserError[]> {
+  const data = await run(client, "menuDelete", MENU_DELETE, { id: menuId }, deleteMenuShape);
+  return data.menuDelete.userErrors;
+}
+
+// ── Bulk operations ──
+
+export const BULK_OPERATION_RUN_MUTATION = adminDocument<Admin.BulkOperationRunMutationMutation, Admin.BulkOperationRunMutationMutationVariables>(/* GraphQL */ `
+  mutation bulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+    bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+      bulkOperation { id status }
+      userErrors { field message }
+    }
+  }
+`);
+
+export const BULK_OPERATION_CANCEL = adminDocument<Admin.BulkOperationCancelMutation, Admin.BulkOperationCancelMutationVariables>(/* GraphQL */ `
+  mutation bulkOperationCancel($id: ID!) {
+    bulkOperationCancel(id: $id) {
+      userErrors { field message }
+    }
+  }
+`);
+
+export const BULK_OPERATION_STATUS = adminDocument<Admin.BulkOperationStatusQuery, Admin.BulkOperationStatusQueryVariables>(/* GraphQL */ `
+  query bulkOperationStatus($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+        partialDataUrl
+      }
+    }
+  }
+`);
+
+// Mutation rodada em bulk: cada linha do JSONL de entrada são as variáveis de uma execução, e
+// o shape confere o `data` de cada linha do JSONL de resultado.
+export interface BulkMutation<T, TVariables> {
+  operation: string;
+  document: AdminDocument<unknown, TVariables>;
+  result: Shape<T>;
+}
+
+function bulkMutation<TResult, TVariables, T extends TResult>(
+  operation: string,
+  document: AdminDocument<TResult, TVariables>,
+  result: Shape<T>
+): BulkMutation<T, TVariables> {
+  return { operation, document, result };
+}
+
+export interface BulkMutationResponse<T> {
+  __lineNumber?: number;
+  data?: T;
+  errors?: { message: string }[];
+}
+
+const bulkOperationStatus = enumOf("CREATED", "RUNNING", "COMPLETED", "CANCELING", "CANCELED", "FAILED", "EXPIRED");
+
+const bulkOperationShape = object({
+  id: string,
+  status: bulkOperationStatus,
+  errorCode: nullable(schemaEnum<Admin.BulkOperationErrorCode>()),
+  objectCount: string,
+  url: nullable(string),
+  partialDataUrl: nullable(string),
+});
+
+export type BulkOperation = Infer<typeof bulkOperationShape>;
+
+const runBulkOperationShape = object({
+  bulkOperationRunMutation: object({
+    bulkOperation: nullable(object({ id: string, status: bulkOperationStatus })),
+    userErrors,
+  }),
+});
+
+export async function runBulkOperation(
+  client: ShopifyClient,
+  mutation: string,
+  stagedUploadPath: string
+): Promise<Infer<typeof runBulkOperationShape>["bulkOperationRunMutation"]> {
+  const data = await run(client, "bulkOperationRunMutation", BULK_OPERATION_RUN_MUTATION, {
+    mutation,
+    stagedUploadPath,
+  }, runBulkOperationShape);
+  return data.bulkOperationRunMutation;
+}
+
+const cancelBulkOperationShape = object({ bulkOperationCancel: object({ userErrors }) });
+
+export async function cancelBulkOperation(client: ShopifyClient, id: string): Promise<UserError[]> {
+  const data = await run(client, "bulkOperationCancel", BULK_OPERATION_CANCEL, { id }, cancelBulkOperationShape);
+  return data.bulkOperationCancel.userErrors;
+}
+
+const bulkOperationStatusShape = object({ node: nullable(bulkOperationShape) });
+
+export async function getBulkOperation(client: ShopifyClient, id: string): Promise<BulkOperation | null> {
+  const data = await run(client, "node", BULK_OPERATION_STATUS, { id }, bulkOperationStatusShape);
+  return data.node;
+}
+
+export function parseBulkMutationResponse<T, TVariables>(
+  mutation: BulkMutation<T, TVariables>,
+  line: unknown
+): BulkMutationResponse<T> {
+  const shape = object({
+    __lineNumber: optional(number),
+    data: optional(mutation.result),
+    errors: optional(array(object({ message: string }))),
+  });
+  return parseResponse(shape, line, `${mutation.operation} (bulk)`);
+}
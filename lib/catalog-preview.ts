@@ -0,0 +1,149 @@
+import type {
+  CatalogPreviewPage,
+  CatalogPreviewProduct,
+  CatalogPreviewVariant,
+  CsvIssue,
+} from "@/types/onboarding";
+import { streamProductsByHandle } from "@/lib/csv-parser";
+import {
+  buildProductInput,
+  buildProductMedia,
+  buildVariants,
+  buildVariantImages,
+  getVariantRows,
+  isPublished,
+  readInventoryQuantities,
+} from "@/lib/product-mapper";
+import { applyPriceRules, type PriceRule } from "@/lib/price-rules";
+import { describeSanitizeReport, sanitizeHtml, type HtmlSanitizerOptions } from "@/lib/html-sanitizer";
+
+export interface CatalogPreviewOptions {
+  priceRules?: PriceRule[];
+  sanitizer?: HtmlSanitizerOptions | null;
+}
+
+export const DEFAULT_PREVIEW_PAGE_SIZE = 25;
+export const MAX_PREVIEW_PAGE_SIZE = 100;
+
+// Mesmo caminho do step2: buildProductInput/buildVariants/buildProductMedia,
+// para que o preview mostre exatamente o que será enviado à loja.
+export function buildCatalogPreviewProduct(
+  handle: string,
+  productRows: Record<string, string>[],
+  issues: CsvIssue[] = [],
+  options: CatalogPreviewOptions = {}
+): CatalogPreviewProduct {
+  const input = buildProductInput(handle, productRows);
+  const priced = applyPriceRules(input, buildVariants(productRows), options.priceRules || []);
+  const variantRows = getVariantRows(productRows);
+  const variantImages = buildVariantImages(productRows);
+
+  let sanitizeReport: string | undefined;
+  if (options.sanitizer && input.descriptionHtml) {
+    const cleaned = sanitizeHtml(input.descriptionHtml, options.sanitizer);
+    input.descriptionHtml = cleaned.html;
+    if (cleaned.changed) sanitizeReport = describeSanitizeReport(cleaned.report);
+  }
+
+  const variants: CatalogPreviewVariant[] = priced.map((v, i) => ({
+    optionValues: v.optionValues,
+    sku: v.inventoryItem?.sku || "",
+    price: v.price,
+    ...(v.compareAtPrice ? { compareAtPrice: v.compareAtPrice } : {}),
+    ...(v.barcode ? { barcode: v.barcode } : {}),
+    ...(v.inventoryPolicy ? { inventoryPolicy: v.inventoryPolicy } : {}),
+    ...(v.originalPrice ? { originalPrice: v.originalPrice } : {}),
+    ...(v.priceRule ? { priceRule: v.priceRule } : {}),
+    inventory: variantRows[i]
+      ? readInventoryQuantities(variantRows[i]).map((q) => ({ location: q.location || "Principal", quantity: q.quantity }))
+      : [],
+    ...(variantImages[i] ? { image: variantImages[i] } : {}),
+  }));
+
+  const optionValues = new Map<string, string[]>();
+  for (const variant of variants) {
+    for (const { optionName, name } of variant.optionValues) {
+      const values = optionValues.get(optionName) || [];
+      if (!values.includes(name)) values.push(name);
+      optionValues.set(optionName, values);
+    }
+  }
+
+  const prices = variants.map((v) => Number(v.price)).filter(Number.isFinite);
+  const min = prices.length > 0 ? Math.min(...prices) : 0;
+  const max = prices.length > 0 ? Math.max(...prices) : 0;
+
+  return {
+    handle,
+    title: input.title,
+    vendor: input.vendor,
+    productType: input.productType,
+    descriptionHtml: input.descriptionHtml,
+    ...(sanitizeReport ? { sanitizeReport } : {}),
+    tags: input.tags,
+    status: input.status,
+    published: isPublished(productRows[0]),
+    options: Array.from(optionValues, ([name, values]) => ({ name, values })),
+    variants,
+    images: buildProductMedia(handle, productRows).map((m) => ({ src: m.originalSource, alt: m.alt })),
+    priceRange: { min: min.toFixed(2), max: max.toFixed(2) },
+    issues,
+  };
+}
+
+function matchesQuery(product: CatalogPreviewProduct, query: string): boolean {
+  if (!query) return true;
+  const haystack = [
+    product.handle,
+    product.title,
+    product.vendor,
+    product.productType,
+    ...product.tags,
+    ...product.variants.map((v) => v.sku),
+  ].join(" ").toLowerCase();
+  return query.toLowerCase().split(/\s+/).every((term) => haystack.includes(term));
+}
+
+export async function buildCatalogPreviewPage(
+  rows: Iterable<Record<string, string>> | AsyncIterable<Record<string, string>>,
+  issues: CsvIssue[],
+  options: CatalogPreviewOptions & { page?: number; pageSize?: number; query?: string } = {}
+): Promise<CatalogPreviewPage> {
+  const query = (options.query || "").trim();
+  const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_PREVIEW_PAGE_SIZE, 1), MAX_PREVIEW_PAGE_SIZE);
+  const page = Math.max(options.page || 1, 1);
+  const start = (page - 1) * pageSize;
+
+  const issuesByHandle = new Map<string, CsvIssue[]>();
+  for (const issue of issues) {
+    if (!issue.handle) continue;
+    const list = issuesByHandle.get(issue.handle) || [];
+    list.push(issue);
+    issuesByHandle.set(issue.handle, list);
+  }
+
+  // Só os produtos da página são guardados; os demais são apenas contados.
+  const products: CatalogPreviewProduct[] = [];
+  let totalProducts = 0;
+
+  for await (const [handle, productRows] of streamProductsByHandle(rows)) {
+    const product = buildCatalogPreviewProduct(
+      handle,
+      productRows,
+      issuesByHandle.get(handle),
+      options
+    );
+    if (!matchesQuery(product, query)) continue;
+    if (totalProducts >= start && products.length < pageSize) products.push(product);
+    totalProducts++;
+  }
+
+  return {
+    products,
+    page,
+    pageSize,
+    totalProducts,
+    totalPages: Math.max(Math.ceil(totalProducts / pageSize), 1),
+    query,
+  };
+}
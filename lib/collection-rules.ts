@@ -0,0 +1,66 @@
+import type { ImportedProductSummary } from "@/types/onboarding";
+import { slugify } from "@/lib/validators";
+
+export type CollectionRuleField = "productType" | "tag" | "vendor";
+
+export interface CollectionRule {
+  field: CollectionRuleField;
+  value: string;
+  collection: string;
+}
+
+const RULE_FIELDS: CollectionRuleField[] = ["productType", "tag", "vendor"];
+
+export function parseCollectionRules(raw: unknown): CollectionRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: CollectionRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const { field, value, collection } = item as Record<string, unknown>;
+    if (!RULE_FIELDS.includes(field as CollectionRuleField)) continue;
+    if (typeof value !== "string" || !value.trim()) continue;
+    if (typeof collection !== "string" || !collection.trim()) continue;
+    rules.push({ field: field as CollectionRuleField, value: value.trim(), collection: collection.trim() });
+  }
+  return rules;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesRule(product: ImportedProductSummary, rule: CollectionRule): boolean {
+  switch (rule.field) {
+    case "productType":
+      return sameText(product.productType, rule.value);
+    case "vendor":
+      return sameText(product.vendor, rule.value);
+    case "tag":
+      return product.tags.some((t) => sameText(t, rule.value));
+  }
+}
+
+// Agrupa os produtos por coleção (chave = handle da coleção), somando a coluna
+// "Collection" de cada produto às regras Tipo/Tag/Fornecedor → coleção.
+export function assignProductsToCollections(
+  products: ImportedProductSummary[],
+  rules: CollectionRule[]
+): Map<string, { name: string; productIds: string[] }> {
+  const assignments = new Map<string, { name: string; productIds: string[] }>();
+
+  const assign = (collection: string, productId: string) => {
+    const handle = slugify(collection);
+    if (!handle) return;
+    const entry = assignments.get(handle) || { name: collection, productIds: [] };
+    if (!entry.productIds.includes(productId)) entry.productIds.push(productId);
+    assignments.set(handle, entry);
+  };
+
+  for (const product of products) {
+    for (const collection of product.collections) assign(collection, product.id);
+    for (const rule of rules) {
+      if (matchesRule(product, rule)) assign(rule.collection, product.id);
+    }
+  }
+  return assignments;
+}
@@ -0,0 +1,111 @@
+import { KNOWN_COLUMNS } from "@/lib/product-mapper";
+
+export interface ColumnMappingRule {
+  source?: string;
+  default?: string;
+  constant?: string;
+}
+
+// Campo canônico (coluna do export Shopify) → como obter o valor na planilha de origem.
+export type ColumnMapping = Record<string, ColumnMappingRule>;
+
+// Cabeçalhos comuns em planilhas de fornecedores brasileiros.
+const FIELD_ALIASES: Record<string, string[]> = {
+  "Handle": ["slug", "url", "identificador", "codigo produto"],
+  "Title": ["nome", "titulo", "produto", "nome do produto", "name"],
+  "Body (HTML)": ["descricao", "descricao completa", "description"],
+  "Vendor": ["marca", "fabricante", "fornecedor", "brand"],
+  "Type": ["tipo", "categoria", "category"],
+  "Tags": ["etiquetas", "palavras chave"],
+  "Variant SKU": ["sku", "codigo", "referencia", "ref"],
+  "Variant Price": ["preco", "preco venda", "preco de venda", "valor", "price"],
+  "Variant Compare At Price": ["preco de", "preco original", "preco antigo", "preco cheio"],
+  "Variant Inventory Qty": ["estoque", "quantidade", "qtd", "stock"],
+  "Variant Barcode": ["ean", "gtin", "codigo de barras"],
+  "Variant Grams": ["peso", "peso g", "peso gramas"],
+  "Cost per item": ["custo", "preco de custo"],
+  "Image Src": ["imagem", "foto", "url imagem", "image"],
+  "Collection": ["colecao", "colecoes", "collections"],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function parseColumnMapping(raw: unknown): ColumnMapping | undefined {
+  const value = typeof raw === "string" ? safeParse(raw) : raw;
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+
+  const mapping: ColumnMapping = {};
+  for (const [field, rule] of Object.entries(value as Record<string, unknown>)) {
+    if (!rule || typeof rule !== "object") continue;
+    const { source, default: fallback, constant } = rule as Record<string, unknown>;
+    const parsed: ColumnMappingRule = {};
+    if (typeof source === "string" && source) parsed.source = source;
+    if (typeof fallback === "string" && fallback) parsed.default = fallback;
+    if (typeof constant === "string" && constant) parsed.constant = constant;
+    if (Object.keys(parsed).length > 0) mapping[field] = parsed;
+  }
+  return Object.keys(mapping).length > 0 ? mapping : undefined;
+}
+
+function safeParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+// Sugestão inicial para o editor: cabeçalho idêntico ao canônico ou um apelido conhecido.
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byNormalized = new Map(headers.map((h) => [normalizeHeader(h), h]));
+  const mapping: ColumnMapping = {};
+
+  for (const field of KNOWN_COLUMNS) {
+    const candidates = [field, ...(FIELD_ALIASES[field] || [])].map(normalizeHeader);
+    const source = candidates.map((c) => byNormalized.get(c)).find(Boolean);
+    if (source && source !== field) mapping[field] = { source };
+  }
+  return mapping;
+}
+
+// Colunas de origem usadas no mapeamento saem da linha para não gerarem
+// avisos de coluna desconhecida; as demais passam intactas.
+export function applyColumnMapping(
+  row: Record<string, string>,
+  mapping: ColumnMapping
+): Record<string, string> {
+  const consumed = new Set(
+    Object.values(mapping).map((rule) => rule.source).filter((s): s is string => !!s)
+  );
+  const mapped: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    if (!consumed.has(key)) mapped[key] = value;
+  }
+
+  for (const [field, rule] of Object.entries(mapping)) {
+    if (rule.constant !== undefined) {
+      mapped[field] = rule.constant;
+      continue;
+    }
+    const value = rule.source ? (row[rule.source] ?? "").trim() : (mapped[field] ?? "").trim();
+    mapped[field] = value || rule.default || "";
+  }
+  return mapped;
+}
+
+export function mapHeaders(headers: string[], mapping: ColumnMapping): string[] {
+  const consumed = new Set(Object.values(mapping).map((rule) => rule.source));
+  const result = headers.filter((h) => !consumed.has(h));
+  for (const field of Object.keys(mapping)) {
+    if (!result.includes(field)) result.push(field);
+  }
+  return result;
+}
@@ -1,4 +1,22 @@
-import type { CsvProduct, CsvValidationResult } from "@/types/onboarding";
+import type {
+  CsvIssue,
+  CsvIssueSeverity,
+  CsvProduct,
+  CsvValidationResult,
+} from "@/types/onboarding";
+import {
+  KNOWN_COLUMNS,
+  findColumn,
+  getOptionNames,
+  isLocationQtyColumn,
+  normalizeDecimal,
+} from "@/lib/product-mapper";
+import {
+  findMetafieldColumns,
+  isSupportedMetafieldType,
+  normalizeMetafieldValue,
+  parseMetafieldColumn,
+} from "@/lib/metafields";
 
 const REQUIRED_COLUMNS = ["Handle", "Title", "Variant Price"];
 
@@ -12,89 +30,328 @@ const OPTIONAL_COLUMNS = [
   "Image Position",
 ];
 
-export function parseCSV(text: string): {
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface CsvParseOptions {
+  delimiter?: string;
+  encoding?: string;
+}
+
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    // Excel no Windows exporta em Windows-1252 quando não é "CSV UTF-8"
+    return "windows-1252";
+  }
+}
+
+export function decodeCSV(
+  bytes: Uint8Array,
+  encoding?: string
+): { text: string; encoding: string } {
+  const resolved = encoding || detectEncoding(bytes);
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+}
+
+export function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ",";
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+}
+
+export function describeDelimiter(delimiter: string): string {
+  return delimiter === "\t" ? "tab" : `"${delimiter}"`;
+}
+
+export function parseCSV(
+  text: string,
+  options: CsvParseOptions = {}
+): {
   headers: string[];
   rows: Record<string, string>[];
+  delimiter: string;
 } {
   const clean = text.replace(/^\uFEFF/, "");
-  const lines = splitCSVLines(clean);
-  if (lines.length < 2) {
-    return { headers: [], rows: [] };
+  const delimiter = options.delimiter || detectDelimiter(clean);
+  const tokenizer = createRowTokenizer(delimiter);
+  const records = tokenizer.push(clean);
+  records.push(...tokenizer.flush());
+  if (records.length < 2) {
+    return { headers: [], rows: [], delimiter };
   }
 
-  const headers = parseCSVRow(lines[0]).map((h) =>
-    h.replace(/[\u200B-\u200D\uFEFF\u00A0]/g, "").trim()
-  );
+  const headers = cleanHeaders(records[0]);
   const rows: Record<string, string>[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVRow(lines[i]);
-    if (values.length === 0 || (values.length === 1 && values[0] === "")) {
-      continue;
+  for (let i = 1; i < records.length; i++) {
+    rows.push(toRow(headers, records[i]));
+  }
+
+  return { headers, rows, delimiter };
+}
+
+export async function* parseCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  options: CsvParseOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder(options.encoding || "utf-8");
+  let tokenizer: ReturnType<typeof createRowTokenizer> | null = null;
+  let pending = "";
+  let headers: string[] | null = null;
+
+  // Sem delimitador informado, acumula texto até a primeira quebra de linha para detectá-lo
+  function tokenize(text: string, final = false): string[][] {
+    if (!tokenizer) {
+      pending += text;
+      if (!final && !/[\r\n]/.test(pending)) return [];
+      tokenizer = createRowTokenizer(options.delimiter || detectDelimiter(pending));
+      text = pending;
+      pending = "";
     }
-    const row: Record<string, string> = {};
-    headers.forEach((header, idx) => {
-      row[header] = values[idx] ?? "";
-    });
-    rows.push(row);
+    const records = tokenizer.push(text);
+    if (final) records.push(...tokenizer.flush());
+    return records;
   }
 
-  return { headers, rows };
+  function* emit(records: string[][]): Generator<Record<string, string>> {
+    for (const record of records) {
+      if (!headers) {
+        headers = cleanHeaders(record);
+        continue;
+      }
+      yield toRow(headers, record);
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* emit(tokenize(decoder.decode(value, { stream: true })));
+    }
+    yield* emit(tokenize(decoder.decode(), true));
+  } finally {
+    reader.releaseLock();
+  }
 }
 
-export function validateCSV(text: string): CsvValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const { headers, rows } = parseCSV(text);
+const MAX_OPTIONS = 3;
+const MAX_VARIANTS = 2048;
+const PRICE_COLUMNS = ["Variant Price", "Variant Compare At Price", "Cost per item"];
+const IMAGE_COLUMNS = ["Image Src", "Variant Image"];
 
-  if (headers.length === 0) {
+// Handle com acento, ponto ou espaço não é recusado: a Shopify ajusta o handle ao criar o
+// produto, e a importação só avisa que ele pode mudar.
+function isStandardHandle(handle: string): boolean {
+  return /^[a-z0-9_-]+$/i.test(handle);
+}
+
+function isValidImageUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function formatIssue(issue: CsvIssue): string {
+  const where = [
+    issue.row !== null ? `Linha ${issue.row}` : null,
+    issue.column ? `coluna "${issue.column}"` : null,
+  ].filter(Boolean).join(", ");
+  return where ? `${where}: ${issue.message}` : issue.message;
+}
+
+export type ProductRowsValidation = Omit<
+  CsvValidationResult,
+  "format" | "delimiter" | "encoding" | "sheets" | "sheet"
+>;
+
+export function validateCSV(
+  text: string,
+  options: CsvParseOptions = {}
+): CsvValidationResult {
+  const { headers, rows, delimiter } = parseCSV(text, options);
+  return {
+    ...validateProductRows(headers, rows),
+    format: "csv",
+    delimiter,
+    encoding: options.encoding || "utf-8",
+  };
+}
+
+export function validateProductRows(
+  headers: string[],
+  rows: Record<string, string>[]
+): ProductRowsValidation {
+  const issues: CsvIssue[] = [];
+
+  const issue = (
+    severity: CsvIssueSeverity,
+    code: string,
+    message: string,
+    where: { row?: number; column?: string; handle?: string } = {}
+  ) => {
+    issues.push({
+      row: where.row ?? null,
+      column: where.column ?? null,
+      severity,
+      code,
+      message,
+      ...(where.handle ? { handle: where.handle } : {}),
+    });
+  };
+
+  const result = (totalProducts: number, preview: CsvProduct[]): ProductRowsValidation => {
+    const errors = issues.filter((i) => i.severity === "error").map(formatIssue);
     return {
-      success: false,
-      totalProducts: 0,
-      errors: ["CSV vazio ou formato inválido."],
-      warnings: [],
-      preview: [],
+      success: errors.length === 0,
+      totalProducts,
+      errors,
+      warnings: issues.filter((i) => i.severity === "warning").map(formatIssue),
+      issues,
+      preview,
     };
+  };
+
+  if (headers.length === 0) {
+    issue("error", "empty_csv", "CSV vazio ou formato inválido.");
+    return result(0, []);
   }
 
   const missingRequired = REQUIRED_COLUMNS.filter(
     (col) => !headers.includes(col)
   );
   if (missingRequired.length > 0) {
-    return {
-      success: false,
-      totalProducts: 0,
-      errors: [`Colunas obrigatórias ausentes: ${missingRequired.join(", ")}`],
-      warnings: [],
-      preview: [],
-    };
+    issue("error", "missing_required_columns", `Colunas obrigatórias ausentes: ${missingRequired.join(", ")}`);
+    return result(0, []);
   }
 
   const missingOptional = OPTIONAL_COLUMNS.filter(
     (col) => !headers.includes(col)
   );
   if (missingOptional.length > 0) {
-    warnings.push(
+    issue(
+      "warning",
+      "missing_optional_columns",
       `Colunas opcionais ausentes (não impedem importação): ${missingOptional.join(", ")}`
     );
   }
 
+  const metafieldColumns = findMetafieldColumns(headers);
+  const metafieldHeaders = new Set(metafieldColumns.map((c) => c.header));
+  for (const header of headers) {
+    if (!/^(product|variant)\s+metafield/i.test(header.trim())) continue;
+    const column = parseMetafieldColumn(header);
+    if (!column) {
+      issue("error", "invalid_metafield_column", `Coluna "${header}" fora do formato "Product metafield: namespace.key [tipo]"`, {
+        column: header,
+      });
+      metafieldHeaders.add(header);
+    } else if (!isSupportedMetafieldType(column.type)) {
+      issue("error", "invalid_metafield_type", `Tipo de metafield "${column.type}" não suportado`, { column: header });
+    }
+  }
+
+  const known = new Set(KNOWN_COLUMNS.map((c) => c.toLowerCase()));
+  const unknownColumns = headers.filter(
+    (h) => h && !known.has(h.toLowerCase()) && !isLocationQtyColumn(h) && !metafieldHeaders.has(h)
+  );
+  if (unknownColumns.length > 0) {
+    issue(
+      "warning",
+      "unknown_columns",
+      `Colunas não reconhecidas (serão ignoradas na importação): ${unknownColumns.join(", ")}`
+    );
+  }
+
+  const extraOptionColumns = headers.filter((h) => {
+    const match = /^Option(\d+) (Name|Value)$/i.exec(h);
+    return match !== null && Number(match[1]) > MAX_OPTIONS;
+  });
+  if (extraOptionColumns.length > 0) {
+    issue(
+      "error",
+      "too_many_options",
+      `A Shopify aceita no máximo ${MAX_OPTIONS} opções por produto; colunas excedentes: ${extraOptionColumns.join(", ")}`
+    );
+  }
+
   const productMap = new Map<string, Record<string, string>[]>();
+  const rowNumbers = new Map<Record<string, string>, number>();
+  // Primeira linha de cada bloco não consecutivo, por handle.
+  const scatteredRows = new Map<string, number[]>();
+  let lastHandle = "";
 
-  rows.forEach((row) => {
+  rows.forEach((row, idx) => {
+    rowNumbers.set(row, idx + 2);
     const handle = row["Handle"]?.trim();
     if (!handle) return;
+    if (productMap.has(handle) && handle !== lastHandle) {
+      scatteredRows.set(handle, (scatteredRows.get(handle) || []).concat(idx + 2));
+    }
+    lastHandle = handle;
     if (!productMap.has(handle)) productMap.set(handle, []);
     productMap.get(handle)!.push(row);
   });
 
+  scatteredRows.forEach((rowList, handle) => {
+    issue(
+      "warning",
+      "scattered_handle",
+      `Linhas não consecutivas a partir da linha ${rowList.join(", ")} não serão importadas; deixe as linhas do handle juntas`,
+      { row: rowList[0], handle }
+    );
+  });
+
   const entries = Array.from(productMap.entries());
   for (const [handle, productRows] of entries) {
     const firstRow = productRows[0];
-    const lineNum = rows.indexOf(firstRow) + 2;
+    const lineNum = rowNumbers.get(firstRow)!;
+
+    if (!isStandardHandle(handle)) {
+      issue(
+        "warning",
+        "nonstandard_handle",
+        `Handle "${handle}" tem caracteres além de letras sem acento, números e hífens; a Shopify pode ajustá-lo`,
+        { row: lineNum, column: "Handle", handle }
+      );
+    } else if (handle !== handle.toLowerCase()) {
+      issue("warning", "handle_case", `Handle "${handle}" será convertido para minúsculas pela Shopify`, {
+        row: lineNum, column: "Handle", handle,
+      });
+    }
 
     if (!firstRow["Title"]?.trim()) {
-      errors.push(`Linha ${lineNum}: Handle "${handle}" sem Title na linha principal`);
+      issue("error", "missing_title", `Handle "${handle}" sem Title na linha principal`, {
+        row: lineNum, column: "Title", handle,
+      });
     }
 
     const hasPrice = productRows.some((r: Record<string, string>) => {
@@ -103,16 +360,117 @@ export function validateCSV(text: string): CsvValidationResult {
     });
 
     if (!hasPrice) {
-      errors.push(
-        `Handle "${handle}": nenhuma linha possui Variant Price`
-      );
+      issue("error", "missing_price", `Handle "${handle}": nenhuma linha possui Variant Price`, {
+        row: lineNum, column: "Variant Price", handle,
+      });
+    }
+
+    const optionNames = getOptionNames(firstRow);
+    const combinations = new Set<string>();
+    let variantCount = 0;
+    const imagePositions: number[] = [];
+
+    for (const row of productRows) {
+      const rowNum = rowNumbers.get(row)!;
+
+      for (const column of PRICE_COLUMNS) {
+        const raw = findColumn(row, column).trim();
+        if (!raw) continue;
+        const value = Number(normalizeDecimal(raw));
+        if (!Number.isFinite(value)) {
+          issue("error", "invalid_price", `"${raw}" não é um valor numérico`, { row: rowNum, column, handle });
+        } else if (value < 0) {
+          issue("error", "negative_price", `Valor negativo (${raw})`, { row: rowNum, column, handle });
+        }
+      }
+
+      for (const column of IMAGE_COLUMNS) {
+        const url = findColumn(row, column).trim();
+        if (url && !isValidImageUrl(url)) {
+          issue("error", "invalid_image_url", `URL de imagem inválida: "${url}"`, { row: rowNum, column, handle });
+        }
+      }
+
+      for (const [column, raw] of Object.entries(row)) {
+        if (column.toLowerCase() !== "variant inventory qty" && !isLocationQtyColumn(column)) continue;
+        const value = raw.trim();
+        if (value && !Number.isInteger(Number(normalizeDecimal(value)))) {
+          issue("warning", "invalid_inventory_qty", `Quantidade "${value}" não é um inteiro; estoque ignorado`, {
+            row: rowNum, column, handle,
+          });
+        }
+      }
+
+      for (const column of metafieldColumns) {
+        const raw = row[column.header] ?? "";
+        if (!raw.trim() || !isSupportedMetafieldType(column.type)) continue;
+        const normalized = normalizeMetafieldValue(column.type, raw);
+        if ("error" in normalized) {
+          issue("error", "invalid_metafield_value", `Metafield ${column.namespace}.${column.key}: ${normalized.error}`, {
+            row: rowNum, column: column.header, handle,
+          });
+        }
+      }
+
+      const positionRaw = findColumn(row, "Image Position").trim();
+      if (positionRaw && findColumn(row, "Image Src").trim()) {
+        const position = Number(positionRaw);
+        if (Number.isInteger(position) && position > 0) {
+          imagePositions.push(position);
+        } else {
+          issue("warning", "invalid_image_position", `Image Position "${positionRaw}" não é um inteiro positivo`, {
+            row: rowNum, column: "Image Position", handle,
+          });
+        }
+      }
+
+      const values: string[] = [];
+      for (let i = 1; i <= MAX_OPTIONS; i++) {
+        const value = findColumn(row, `Option${i} Value`).trim();
+        if (value && i > optionNames.length) {
+          issue("error", "option_value_without_name", `Option${i} Value "${value}" sem Option${i} Name no produto`, {
+            row: rowNum, column: `Option${i} Value`, handle,
+          });
+        }
+        if (i <= optionNames.length) values.push(value);
+      }
+
+      const isVariantRow =
+        !!findColumn(row, "Variant Price").trim() || values.some((v) => v);
+      if (!isVariantRow) continue;
+
+      variantCount++;
+      const key = values.join(" / ") || "Default Title";
+      if (combinations.has(key)) {
+        issue("error", "duplicate_variant", `Combinação de opções repetida: ${key}`, {
+          row: rowNum, column: "Option1 Value", handle,
+        });
+      }
+      combinations.add(key);
+    }
+
+    if (variantCount > MAX_VARIANTS) {
+      issue("error", "too_many_variants", `${variantCount} variantes (máximo da Shopify: ${MAX_VARIANTS})`, {
+        row: lineNum, handle,
+      });
+    }
+
+    const sortedPositions = Array.from(new Set(imagePositions)).sort((a, b) => a - b);
+    const hasGap = sortedPositions.some((position, idx) => position !== idx + 1);
+    if (hasGap) {
+      issue("warning", "image_position_gap", `Image Position com lacunas: ${sortedPositions.join(", ")}`, {
+        row: lineNum, column: "Image Position", handle,
+      });
     }
   }
 
   const rowsWithoutHandle = rows.filter((r) => !r["Handle"]?.trim());
   if (rowsWithoutHandle.length > 0) {
-    warnings.push(
-      `${rowsWithoutHandle.length} linha(s) ignoradas por não terem Handle`
+    issue(
+      "warning",
+      "missing_handle",
+      `${rowsWithoutHandle.length} linha(s) ignoradas por não terem Handle`,
+      { column: "Handle" }
     );
   }
 
@@ -133,13 +491,7 @@ export function validateCSV(text: string): CsvValidationResult {
     };
   });
 
-  return {
-    success: errors.length === 0,
-    totalProducts: uniqueProducts.length,
-    errors,
-    warnings,
-    preview,
-  };
+  return result(uniqueProducts.length, preview);
 }
 
 export function groupProductsByHandle(
@@ -155,49 +507,126 @@ export function groupProductsByHandle(
   return map;
 }
 
-function splitCSVLines(text: string): string[] {
-  const lines: string[] = [];
-  let current = "";
-  let inQuotes = false;
+// Emite cada produto assim que o Handle muda. Assume linhas do mesmo Handle
+// consecutivas (como no export da Shopify). Um bloco posterior de um Handle já emitido
+// não é importado: vai para onScattered, para a etapa reportar as linhas perdidas.
+export async function* streamProductsByHandle(
+  rows: AsyncIterable<Record<string, string>> | Iterable<Record<string, string>>,
+  onScattered?: (handle: string, rows: Record<string, string>[]) => void
+): AsyncGenerator<[string, Record<string, string>[]]> {
+  const emitted = new Set<string>();
+  let currentHandle = "";
+  let currentRows: Record<string, string>[] = [];
 
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-      current += char;
-    } else if ((char === "\n" || char === "\r") && !inQuotes) {
-      if (char === "\r" && text[i + 1] === "\n") i++;
-      if (current.trim()) lines.push(current);
-      current = "";
-    } else {
-      current += char;
+  const endBlock = () => {
+    if (!currentHandle || !emitted.has(currentHandle)) return false;
+    console.error(`[csv] Handle "${currentHandle}" reaparece em linhas não consecutivas, ${currentRows.length} linha(s) ignorada(s).`);
+    onScattered?.(currentHandle, currentRows);
+    return true;
+  };
+
+  for await (const row of rows) {
+    const handle = row["Handle"]?.trim();
+    if (!handle) continue;
+
+    if (handle === currentHandle) {
+      currentRows.push(row);
+      continue;
+    }
+
+    if (currentHandle && !endBlock()) {
+      emitted.add(currentHandle);
+      yield [currentHandle, currentRows];
     }
+
+    currentHandle = handle;
+    currentRows = [row];
   }
-  if (current.trim()) lines.push(current);
-  return lines;
+
+  if (currentHandle && !endBlock()) yield [currentHandle, currentRows];
+}
+
+function cleanHeaders(record: string[]): string[] {
+  return record.map((h) =>
+    h.replace(/[\u200B-\u200D\uFEFF\u00A0]/g, "").trim()
+  );
 }
 
-function parseCSVRow(line: string): string[] {
-  const values: string[] = [];
+function toRow(headers: string[], values: string[]): Record<string, string> {
+  const row: Record<string, string> = {};
+  headers.forEach((header, idx) => {
+    row[header] = values[idx] ?? "";
+  });
+  return row;
+}
+
+// Tokenizador incremental: recebe pedaços de texto em qualquer ponto de corte
+// (inclusive no meio de aspas ou de um \r\n) e devolve as linhas completas.
+function createRowTokenizer(delimiter: string): {
+  push: (chunk: string) => string[][];
+  flush: () => string[][];
+} {
+  let values: string[] = [];
   let current = "";
   let inQuotes = false;
+  let quotePending = false;
+  let skipNextLF = false;
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
+  function endRow(out: string[][]) {
+    values.push(current.trim());
+    current = "";
+    const row = values;
+    values = [];
+    if (row.length === 1 && row[0] === "") return;
+    out.push(row);
+  }
+
+  function push(chunk: string): string[][] {
+    const out: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipNextLF) {
+        skipNextLF = false;
+        if (char === "\n") continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          current += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (char === '"') {
+        if (inQuotes) quotePending = true;
+        else inQuotes = true;
+      } else if (inQuotes) {
+        current += char;
+      } else if (char === delimiter) {
+        values.push(current.trim());
+        current = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r") skipNextLF = true;
+        endRow(out);
       } else {
-        inQuotes = !inQuotes;
+        current += char;
       }
-    } else if (char === "," && !inQuotes) {
-      values.push(current.trim());
-      current = "";
-    } else {
-      current += char;
     }
+
+    return out;
+  }
+
+  function flush(): string[][] {
+    const out: string[][] = [];
+    if (current !== "" || values.length > 0) endRow(out);
+    inQuotes = false;
+    quotePending = false;
+    return out;
   }
-  values.push(current.trim());
-  return values;
+
+  return { push, flush };
 }
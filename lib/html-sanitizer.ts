@@ -0,0 +1,336 @@
+export type ExternalLinkMode = "keep" | "strip" | "rewrite";
+
+export interface HtmlSanitizerOptions {
+  allowedTags: string[];
+  // Atributos permitidos por tag; "*" vale para todas.
+  allowedAttributes: Record<string, string[]>;
+  // strip: remove o <a> e mantém o texto; rewrite: troca o href por rewriteLinksTo.
+  externalLinks: ExternalLinkMode;
+  rewriteLinksTo?: string;
+  // Domínios considerados internos (ex: a própria loja); subdomínios incluídos.
+  internalHosts: string[];
+  // Nível mínimo de título: o <h1> da página é o nome do produto.
+  minHeadingLevel: number;
+}
+
+export interface HtmlSanitizeReport {
+  removedTags: Record<string, number>;
+  removedAttributes: Record<string, number>;
+  strippedLinks: string[];
+  rewrittenLinks: string[];
+  headingsNormalized: number;
+  repairedTags: number;
+}
+
+export interface HtmlSanitizeResult {
+  html: string;
+  changed: boolean;
+  report: HtmlSanitizeReport;
+}
+
+export const DEFAULT_SANITIZER_OPTIONS: HtmlSanitizerOptions = {
+  allowedTags: [
+    "p", "br", "hr", "h2", "h3", "h4", "h5", "h6", "strong", "b", "em", "i", "u", "s",
+    "ul", "ol", "li", "blockquote", "a", "img", "table", "thead", "tbody", "tr", "th", "td",
+    "span", "div", "sub", "sup",
+  ],
+  allowedAttributes: {
+    a: ["href", "title"],
+    img: ["src", "alt", "width", "height"],
+    th: ["colspan", "rowspan"],
+    td: ["colspan", "rowspan"],
+  },
+  externalLinks: "strip",
+  internalHosts: [],
+  minHeadingLevel: 2,
+};
+
+// Conteúdo descartado junto com a tag (não só desembrulhado).
+const DROP_CONTENT_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "noscript", "template", "svg", "head", "title", "form",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "source", "wbr", "col", "area", "base"]);
+
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+
+const TOKEN_RE = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/?([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+
+const ATTRIBUTE_RE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+function increment(counter: Record<string, number>, key: string) {
+  counter[key] = (counter[key] || 0) + 1;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&(?![a-zA-Z0-9#]+;)/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+// Entidades nomeadas que o navegador decodifica em atributos e que servem para esconder
+// um esquema ("java&Tab;script:"). As demais ficam como estão e isSafeUrl as recusa.
+const NAMED_ENTITIES: Record<string, string> = {
+  tab: "\t",
+  newline: "\n",
+  nbsp: "\u00a0",
+  colon: ":",
+  semi: ";",
+  sol: "/",
+  period: ".",
+  lpar: "(",
+  rpar: ")",
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  amp: "&",
+};
+
+function decodeCodePoint(code: number): string {
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd";
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));?/gi, (entity, hex, dec, name) => {
+    if (hex) return decodeCodePoint(parseInt(hex, 16));
+    if (dec) return decodeCodePoint(parseInt(dec, 10));
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function isSafeUrl(raw: string): boolean {
+  // Remove caracteres de controle e espaços usados para esconder "javascript:".
+  // eslint-disable-next-line no-control-regex
+  const url = decodeEntities(raw).replace(/[\u0000- \u007f-\u00a0]/g, "").toLowerCase();
+  // Entidade que sobrou antes do caminho pode virar parte do esquema no navegador.
+  if (/[&\\]/.test(url.split(/[/?#]/)[0])) return false;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || ["http", "https", "mailto", "tel"].includes(scheme[1]);
+}
+
+function isExternalUrl(raw: string, internalHosts: string[]): boolean {
+  const url = decodeEntities(raw).trim();
+  if (!/^(https?:)?\/\//i.test(url)) return false;
+  let host: string;
+  try {
+    host = new URL(url.startsWith("//") ? `https:${url}` : url).hostname.toLowerCase();
+  } catch {
+    return true;
+  }
+  return !internalHosts.some((h) => {
+    const internal = h.toLowerCase();
+    return host === internal || host.endsWith(`.${internal}`);
+  });
+}
+
+function normalizeWhitespace(html: string): string {
+  return html
+    .replace(/\s+/g, " ")
+    .replace(/\s*(<\/?(?:p|div|h[1-6]|ul|ol|li|table|thead|tbody|tr|th|td|blockquote|hr|br)\b[^>]*>)\s*/gi, "$1")
+    .replace(/<(p|div|span|strong|b|em|i|h[1-6])>(?:\s|&nbsp;|<br>)*<\/\1>/gi, "")
+    .replace(/(?:<br>){3,}/gi, "<br><br>")
+    .trim();
+}
+
+export function sanitizeHtml(
+  input: string,
+  options: HtmlSanitizerOptions = DEFAULT_SANITIZER_OPTIONS
+): HtmlSanitizeResult {
+  const report: HtmlSanitizeReport = {
+    removedTags: {},
+    removedAttributes: {},
+    strippedLinks: [],
+    rewrittenLinks: [],
+    headingsNormalized: 0,
+    repairedTags: 0,
+  };
+  const allowedTags = new Set(options.allowedTags.map((t) => t.toLowerCase()));
+  const globalAttributes = options.allowedAttributes["*"] || [];
+
+  const out: string[] = [];
+  // Tags abertas na saída (já normalizadas); "" marca um <a> removido cujo </a> deve sumir.
+  const stack: { source: string; output: string }[] = [];
+  let dropDepth = 0;
+  let dropTag = "";
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (dropDepth === 0 && text) out.push(escapeText(text));
+  };
+
+  const mapTag = (tag: string): string => {
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading && Number(heading[1]) < options.minHeadingLevel) {
+      return `h${Math.min(options.minHeadingLevel, 6)}`;
+    }
+    return tag;
+  };
+
+  const closeTag = (source: string) => {
+    const idx = stack.map((e) => e.source).lastIndexOf(source);
+    if (idx === -1) {
+      report.repairedTags++;
+      return;
+    }
+    while (stack.length > idx) {
+      const entry = stack.pop()!;
+      if (entry.source !== source) report.repairedTags++;
+      if (entry.output) out.push(`</${entry.output}>`);
+    }
+  };
+
+  TOKEN_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_RE.exec(input))) {
+    pushText(input.slice(lastIndex, match.index));
+    lastIndex = TOKEN_RE.lastIndex;
+
+    const token = match[0];
+    const rawTag = match[1];
+    if (!rawTag) {
+      // Comentários, <!DOCTYPE> e afins.
+      if (dropDepth === 0 && token.startsWith("<!--")) increment(report.removedTags, "comment");
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const closing = token.startsWith("</");
+
+    if (dropDepth > 0) {
+      if (tag === dropTag) dropDepth += closing ? -1 : 1;
+      continue;
+    }
+
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      increment(report.removedTags, tag);
+      if (!closing && !token.endsWith("/>")) {
+        dropDepth = 1;
+        dropTag = tag;
+      }
+      continue;
+    }
+
+    if (!allowedTags.has(tag) && !allowedTags.has(mapTag(tag))) {
+      if (!closing) increment(report.removedTags, tag);
+      continue;
+    }
+
+    if (closing) {
+      if (!VOID_TAGS.has(tag)) closeTag(tag);
+      continue;
+    }
+
+    const outputTag = mapTag(tag);
+    if (outputTag !== tag) report.headingsNormalized++;
+
+    const allowed = new Set([...(options.allowedAttributes[tag] || []), ...globalAttributes]);
+    const attributes: string[] = [];
+    let dropElement = false;
+
+    ATTRIBUTE_RE.lastIndex = 0;
+    let attr: RegExpExecArray | null;
+    while ((attr = ATTRIBUTE_RE.exec(match[2] || ""))) {
+      const name = attr[1].toLowerCase();
+      let value = attr[2] ?? attr[3] ?? attr[4] ?? "";
+
+      if (!allowed.has(name)) {
+        increment(report.removedAttributes, name);
+        continue;
+      }
+      if (URL_ATTRIBUTES.has(name)) {
+        if (!isSafeUrl(value)) {
+          increment(report.removedAttributes, name);
+          if (tag === "img") dropElement = true;
+          continue;
+        }
+        if (tag === "a" && name === "href" && isExternalUrl(value, options.internalHosts)) {
+          if (options.externalLinks === "strip" || (options.externalLinks === "rewrite" && !options.rewriteLinksTo)) {
+            report.strippedLinks.push(decodeEntities(value));
+            dropElement = true;
+            continue;
+          }
+          if (options.externalLinks === "rewrite") {
+            report.rewrittenLinks.push(decodeEntities(value));
+            value = options.rewriteLinksTo!;
+          }
+        }
+      }
+      attributes.push(`${name}="${escapeAttribute(value)}"`);
+    }
+
+    if (dropElement) {
+      if (tag === "img") increment(report.removedTags, "img");
+      else stack.push({ source: tag, output: "" });
+      continue;
+    }
+
+    const attributeText = attributes.length > 0 ? ` ${attributes.join(" ")}` : "";
+    out.push(`<${outputTag}${attributeText}>`);
+    if (!VOID_TAGS.has(tag)) stack.push({ source: tag, output: outputTag });
+  }
+
+  pushText(input.slice(lastIndex));
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    report.repairedTags++;
+    if (entry.output) out.push(`</${entry.output}>`);
+  }
+
+  const html = normalizeWhitespace(out.join(""));
+  return { html, changed: html !== normalizeWhitespace(input), report };
+}
+
+// Sem configuração a limpeza roda com os padrões; { enabled: false } desliga a etapa (null).
+export function parseSanitizerOptions(raw: unknown): HtmlSanitizerOptions | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return DEFAULT_SANITIZER_OPTIONS;
+    }
+  }
+  if (!value || typeof value !== "object") return DEFAULT_SANITIZER_OPTIONS;
+
+  const r = value as Record<string, unknown>;
+  if (r.enabled === false) return null;
+  const stringList = (v: unknown) =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === "string" && !!s.trim()).map((s) => s.trim()) : undefined;
+
+  const options: HtmlSanitizerOptions = { ...DEFAULT_SANITIZER_OPTIONS };
+  const allowedTags = stringList(r.allowedTags);
+  if (allowedTags) options.allowedTags = allowedTags;
+  if (r.allowedAttributes && typeof r.allowedAttributes === "object") {
+    const attributes: Record<string, string[]> = {};
+    for (const [tag, list] of Object.entries(r.allowedAttributes as Record<string, unknown>)) {
+      const parsed = stringList(list);
+      if (parsed) attributes[tag.toLowerCase()] = parsed.map((a) => a.toLowerCase());
+    }
+    options.allowedAttributes = attributes;
+  }
+  if (r.externalLinks === "keep" || r.externalLinks === "strip" || r.externalLinks === "rewrite") {
+    options.externalLinks = r.externalLinks;
+  }
+  if (typeof r.rewriteLinksTo === "string" && r.rewriteLinksTo.trim()) options.rewriteLinksTo = r.rewriteLinksTo.trim();
+  const internalHosts = stringList(r.internalHosts);
+  if (internalHosts) options.internalHosts = internalHosts;
+  const minHeading = Number(r.minHeadingLevel);
+  if (Number.isInteger(minHeading) && minHeading >= 1 && minHeading <= 6) options.minHeadingLevel = minHeading;
+  return options;
+}
+
+export function describeSanitizeReport(report: HtmlSanitizeReport): string {
+  const parts: string[] = [];
+  const tags = Object.entries(report.removedTags).map(([t, n]) => `${t} ×${n}`);
+  if (tags.length > 0) parts.push(`tags removidas: ${tags.join(", ")}`);
+  const attrs = Object.entries(report.removedAttributes).map(([a, n]) => `${a} ×${n}`);
+  if (attrs.length > 0) parts.push(`atributos removidos: ${attrs.join(", ")}`);
+  if (report.strippedLinks.length > 0) parts.push(`${report.strippedLinks.length} link(s) externo(s) removido(s)`);
+  if (report.rewrittenLinks.length > 0) parts.push(`${report.rewrittenLinks.length} link(s) externo(s) reescrito(s)`);
+  if (report.headingsNormalized > 0) parts.push(`${report.headingsNormalized} título(s) rebaixado(s)`);
+  if (report.repairedTags > 0) parts.push(`${report.repairedTags} tag(s) corrigida(s)`);
+  return parts.join("; ");
+}
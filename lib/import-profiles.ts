@@ -0,0 +1,563 @@
+import { findColumn, normalizeDecimal } from "@/lib/product-mapper";
+import { slugify } from "@/lib/validators";
+
+export type ImportProfileId =
+  | "shopify"
+  | "woocommerce"
+  | "nuvemshop"
+  | "tray"
+  | "loja-integrada";
+
+export interface ImportProfile {
+  id: ImportProfileId;
+  label: string;
+  detect: (headers: string[]) => boolean;
+  createMapper: () => RowMapper;
+}
+
+// Converte linhas do export de origem em linhas no formato do CSV da Shopify.
+// Perfis que dependem de referência ao produto pai acumulam tudo até o flush.
+export interface RowMapper {
+  map: (row: Record<string, string>) => Record<string, string>[];
+  flush: () => Record<string, string>[];
+}
+
+interface VariantDraft {
+  optionValues: string[];
+  price: string;
+  compareAtPrice: string;
+  cost: string;
+  sku: string;
+  barcode: string;
+  weightKg: string;
+  stock: string;
+  continueSelling: boolean;
+  image: string;
+}
+
+interface ProductDraft {
+  handle: string;
+  title: string;
+  body: string;
+  vendor: string;
+  type: string;
+  tags: string;
+  published: boolean;
+  seoTitle: string;
+  seoDescription: string;
+  optionNames: string[];
+  images: string[];
+  variants: VariantDraft[];
+}
+
+function hasHeaders(headers: string[], required: string[]): boolean {
+  const lower = new Set(headers.map((h) => h.toLowerCase()));
+  return required.every((h) => lower.has(h.toLowerCase()));
+}
+
+function pick(row: Record<string, string>, aliases: string[]): string {
+  for (const alias of aliases) {
+    const value = findColumn(row, alias).trim();
+    if (value) return value;
+  }
+  return "";
+}
+
+// Como normalizeDecimal, mas descarta moeda e espaços ("R$ 1.234,56").
+export function parseLocalizedDecimal(raw: string): string {
+  const value = raw.replace(/[^\d.,-]/g, "");
+  return value ? normalizeDecimal(value) : "";
+}
+
+function isTruthy(raw: string): boolean {
+  return ["1", "sim", "s", "yes", "true", "ativo", "visible"].includes(raw.trim().toLowerCase());
+}
+
+function lastCategory(raw: string): string {
+  const first = raw.split(",")[0] || "";
+  return first.split(">").pop()!.trim();
+}
+
+function splitList(raw: string): string[] {
+  return raw.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+// Colunas numeradas de imagem ("Imagem 1", "imagem-2"...) identificadas pelo prefixo
+function collectImages(row: Record<string, string>, prefixes: string[]): string[] {
+  const images: string[] = [];
+  for (const column of Object.keys(row)) {
+    const isImageColumn = prefixes.some((prefix) =>
+      column.toLowerCase().startsWith(prefix.toLowerCase())
+    );
+    if (isImageColumn && row[column].trim()) images.push(row[column].trim());
+  }
+  return images;
+}
+
+function emptyVariant(): VariantDraft {
+  return {
+    optionValues: [],
+    price: "",
+    compareAtPrice: "",
+    cost: "",
+    sku: "",
+    barcode: "",
+    weightKg: "",
+    stock: "",
+    continueSelling: false,
+    image: "",
+  };
+}
+
+// Plataformas brasileiras exportam "preço" + "preço promocional": na Shopify o
+// promocional vira o preço e o original vai para o compare-at.
+function applyPromotionalPrice(variant: VariantDraft, price: string, promotional: string) {
+  const regular = parseLocalizedDecimal(price);
+  const promo = parseLocalizedDecimal(promotional);
+  if (promo && regular && Number(promo) < Number(regular)) {
+    variant.price = promo;
+    variant.compareAtPrice = regular;
+  } else {
+    variant.price = regular || promo;
+  }
+}
+
+function createHandleAllocator(): (base: string, fallback: string) => string {
+  const used = new Set<string>();
+  return (base, fallback) => {
+    let handle = slugify(base) || slugify(fallback) || "produto";
+    if (used.has(handle)) handle = `${handle}-${slugify(fallback) || used.size}`;
+    used.add(handle);
+    return handle;
+  };
+}
+
+function draftToRows(draft: ProductDraft): Record<string, string>[] {
+  const rows: Record<string, string>[] = [];
+  const count = Math.max(draft.variants.length, draft.images.length, 1);
+
+  for (let i = 0; i < count; i++) {
+    const row: Record<string, string> = { Handle: draft.handle };
+
+    if (i === 0) {
+      row["Title"] = draft.title;
+      row["Body (HTML)"] = draft.body;
+      row["Vendor"] = draft.vendor;
+      row["Type"] = draft.type;
+      row["Tags"] = draft.tags;
+      row["Published"] = draft.published ? "true" : "false";
+      row["Status"] = draft.published ? "active" : "draft";
+      if (draft.seoTitle) row["SEO Title"] = draft.seoTitle;
+      if (draft.seoDescription) row["SEO Description"] = draft.seoDescription;
+      draft.optionNames.forEach((name, idx) => {
+        row[`Option${idx + 1} Name`] = name;
+      });
+    }
+
+    const variant = draft.variants[i];
+    if (variant) {
+      variant.optionValues.forEach((value, idx) => {
+        row[`Option${idx + 1} Value`] = value;
+      });
+      row["Variant Price"] = variant.price;
+      if (variant.compareAtPrice) row["Variant Compare At Price"] = variant.compareAtPrice;
+      if (variant.cost) row["Cost per item"] = variant.cost;
+      if (variant.sku) row["Variant SKU"] = variant.sku;
+      if (variant.barcode) row["Variant Barcode"] = variant.barcode;
+      if (variant.weightKg) {
+        const kg = Number(parseLocalizedDecimal(variant.weightKg));
+        if (Number.isFinite(kg) && kg > 0) {
+          row["Variant Grams"] = String(Math.round(kg * 1000));
+          row["Variant Weight Unit"] = "kg";
+        }
+      }
+      if (variant.stock) {
+        row["Variant Inventory Tracker"] = "shopify";
+        row["Variant Inventory Qty"] = String(parseInt(variant.stock, 10) || 0);
+      }
+      row["Variant Inventory Policy"] = variant.continueSelling ? "continue" : "deny";
+      if (variant.image) row["Variant Image"] = variant.image;
+    }
+
+    const image = draft.images[i];
+    if (image) {
+      row["Image Src"] = image;
+      row["Image Position"] = String(i + 1);
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function createBufferedMapper(
+  collect: (row: Record<string, string>) => void,
+  drafts: () => ProductDraft[]
+): RowMapper {
+  return {
+    map: (row) => {
+      collect(row);
+      return [];
+    },
+    flush: () => drafts().flatMap(draftToRows),
+  };
+}
+
+const shopifyProfile: ImportProfile = {
+  id: "shopify",
+  label: "Shopify",
+  detect: (headers) => hasHeaders(headers, ["Handle", "Variant Price"]),
+  createMapper: () => ({ map: (row) => [row], flush: () => [] }),
+};
+
+// Export padrão do WooCommerce: produtos "variable" seguidos (nem sempre em
+// sequência) de linhas "variation" que apontam para o pai em "Parent".
+const wooCommerceProfile: ImportProfile = {
+  id: "woocommerce",
+  label: "WooCommerce",
+  detect: (headers) => hasHeaders(headers, ["Type", "Name", "Regular price"]),
+  createMapper: () => {
+    const drafts: ProductDraft[] = [];
+    const byReference = new Map<string, ProductDraft>();
+    const orphans: { parent: string; row: Record<string, string> }[] = [];
+    const allocateHandle = createHandleAllocator();
+
+    function attributes(row: Record<string, string>): { name: string; value: string }[] {
+      const result: { name: string; value: string }[] = [];
+      for (let i = 1; i <= 10; i++) {
+        const name = findColumn(row, `Attribute ${i} name`).trim();
+        if (!name) continue;
+        result.push({ name, value: findColumn(row, `Attribute ${i} value(s)`).trim() });
+      }
+      return result;
+    }
+
+    function buildVariant(row: Record<string, string>, optionValues: string[]): VariantDraft {
+      const variant = emptyVariant();
+      variant.optionValues = optionValues;
+      applyPromotionalPrice(variant, findColumn(row, "Regular price"), findColumn(row, "Sale price"));
+      variant.sku = findColumn(row, "SKU").trim();
+      variant.barcode = pick(row, ["GTIN, UPC, EAN, or ISBN", "EAN"]);
+      variant.weightKg = findColumn(row, "Weight (kg)").trim();
+      variant.stock = findColumn(row, "Stock").trim();
+      variant.continueSelling = findColumn(row, "Backorders allowed?").trim() === "1";
+      return variant;
+    }
+
+    function addVariation(parent: ProductDraft, row: Record<string, string>) {
+      const attrs = attributes(row);
+      const optionValues = parent.optionNames.map(
+        (name) => attrs.find((a) => a.name.toLowerCase() === name.toLowerCase())?.value || ""
+      );
+      const variant = buildVariant(row, optionValues);
+      variant.image = splitList(findColumn(row, "Images"))[0] || "";
+      parent.variants.push(variant);
+    }
+
+    function collect(row: Record<string, string>) {
+      const type = findColumn(row, "Type").toLowerCase();
+      const id = findColumn(row, "ID").trim();
+      const sku = findColumn(row, "SKU").trim();
+
+      if (type.includes("variation")) {
+        const parentRef = findColumn(row, "Parent").trim();
+        const parent = byReference.get(parentRef);
+        if (parent) addVariation(parent, row);
+        else orphans.push({ parent: parentRef, row });
+        return;
+      }
+
+      const name = findColumn(row, "Name").trim();
+      const isVariable = type.includes("variable");
+      const draft: ProductDraft = {
+        handle: allocateHandle(name, id || sku),
+        title: name,
+        body: pick(row, ["Description", "Short description"]),
+        vendor: pick(row, ["Brands", "Brand"]),
+        type: lastCategory(findColumn(row, "Categories")),
+        tags: findColumn(row, "Tags").trim(),
+        published: findColumn(row, "Published").trim() === "1",
+        seoTitle: "",
+        seoDescription: "",
+        optionNames: isVariable ? attributes(row).slice(0, 3).map((a) => a.name) : [],
+        images: splitList(findColumn(row, "Images")),
+        variants: isVariable ? [] : [buildVariant(row, [])],
+      };
+
+      drafts.push(draft);
+      if (id) byReference.set(`id:${id}`, draft);
+      if (sku) byReference.set(sku, draft);
+    }
+
+    return createBufferedMapper(collect, () => {
+      for (const orphan of orphans) {
+        const parent = byReference.get(orphan.parent);
+        if (parent) addVariation(parent, orphan.row);
+        else console.error(`[import] Variação WooCommerce sem produto pai "${orphan.parent}", ignorada.`);
+      }
+      return drafts;
+    });
+  },
+};
+
+// Nuvemshop repete "Identificador URL" nas linhas de variação, com o nome em branco.
+const nuvemshopProfile: ImportProfile = {
+  id: "nuvemshop",
+  label: "Nuvemshop",
+  detect: (headers) => hasHeaders(headers, ["Identificador URL", "Nome"]),
+  createMapper: () => {
+    const drafts = new Map<string, ProductDraft>();
+
+    function collect(row: Record<string, string>) {
+      const handle = slugify(findColumn(row, "Identificador URL"));
+      if (!handle) return;
+
+      let draft = drafts.get(handle);
+      if (!draft) {
+        const optionNames: string[] = [];
+        for (let i = 1; i <= 3; i++) {
+          const name = findColumn(row, `Nome da variação ${i}`).trim();
+          if (name) optionNames.push(name);
+        }
+        draft = {
+          handle,
+          title: findColumn(row, "Nome").trim(),
+          body: findColumn(row, "Descrição").trim(),
+          vendor: findColumn(row, "Marca").trim(),
+          type: lastCategory(findColumn(row, "Categorias")),
+          tags: findColumn(row, "Tags").trim(),
+          published: !["não", "nao", "no"].includes(findColumn(row, "Exibir na loja").trim().toLowerCase()),
+          seoTitle: findColumn(row, "Título para SEO").trim(),
+          seoDescription: findColumn(row, "Descrição para SEO").trim(),
+          optionNames,
+          images: [],
+          variants: [],
+        };
+        drafts.set(handle, draft);
+      }
+
+      const variant = emptyVariant();
+      variant.optionValues = draft.optionNames.map((_, idx) =>
+        findColumn(row, `Valor da variação ${idx + 1}`).trim()
+      );
+      applyPromotionalPrice(variant, findColumn(row, "Preço"), findColumn(row, "Preço promocional"));
+      variant.cost = parseLocalizedDecimal(findColumn(row, "Custo"));
+      variant.sku = findColumn(row, "SKU").trim();
+      variant.barcode = findColumn(row, "Código de barras").trim();
+      variant.weightKg = findColumn(row, "Peso (kg)").trim();
+      variant.stock = findColumn(row, "Estoque").trim();
+      draft.variants.push(variant);
+
+      const image = pick(row, ["URL da imagem", "Imagem"]);
+      if (image && !draft.images.includes(image)) draft.images.push(image);
+    }
+
+    return createBufferedMapper(collect, () => Array.from(drafts.values()));
+  },
+};
+
+// Perfis com produto pai referenciado por código (Tray) ou SKU (Loja Integrada).
+function createParentReferenceProfile(spec: {
+  id: ImportProfileId;
+  label: string;
+  detect: string[];
+  reference: string[];
+  parent: string[];
+  name: string[];
+  body: string[];
+  vendor: string[];
+  category: string[];
+  tags: string[];
+  active: string[];
+  price: string[];
+  promotional: string[];
+  cost: string[];
+  sku: string[];
+  barcode: string[];
+  weightKg: string[];
+  stock: string[];
+  images: string[];
+  optionName: (i: number) => string[];
+  optionValue: (i: number) => string[];
+}): ImportProfile {
+  return {
+    id: spec.id,
+    label: spec.label,
+    detect: (headers) => hasHeaders(headers, spec.detect),
+    createMapper: () => {
+      const drafts: ProductDraft[] = [];
+      const byReference = new Map<string, ProductDraft>();
+      const children: { parent: string; row: Record<string, string> }[] = [];
+      const allocateHandle = createHandleAllocator();
+
+      function buildVariant(row: Record<string, string>, optionNames: string[]): VariantDraft {
+        const variant = emptyVariant();
+        variant.optionValues = optionNames.map((name, idx) => {
+          const rowName = pick(row, spec.optionName(idx + 1));
+          return !rowName || rowName.toLowerCase() === name.toLowerCase()
+            ? pick(row, spec.optionValue(idx + 1))
+            : "";
+        });
+        applyPromotionalPrice(variant, pick(row, spec.price), pick(row, spec.promotional));
+        variant.cost = parseLocalizedDecimal(pick(row, spec.cost));
+        variant.sku = pick(row, spec.sku);
+        variant.barcode = pick(row, spec.barcode);
+        variant.weightKg = pick(row, spec.weightKg);
+        variant.stock = pick(row, spec.stock);
+        return variant;
+      }
+
+      function collect(row: Record<string, string>) {
+        const parentRef = pick(row, spec.parent);
+        if (parentRef && parentRef !== "0") {
+          children.push({ parent: parentRef, row });
+          return;
+        }
+
+        const reference = pick(row, spec.reference) || pick(row, spec.sku);
+        const name = pick(row, spec.name);
+
+        const draft: ProductDraft = {
+          handle: allocateHandle(name, reference),
+          title: name,
+          body: pick(row, spec.body),
+          vendor: pick(row, spec.vendor),
+          type: lastCategory(pick(row, spec.category)),
+          tags: pick(row, spec.tags),
+          published: spec.active.some((c) => findColumn(row, c) !== "") ? isTruthy(pick(row, spec.active)) : true,
+          seoTitle: "",
+          seoDescription: "",
+          optionNames: [],
+          images: collectImages(row, spec.images),
+          variants: [buildVariant(row, [])],
+        };
+
+        drafts.push(draft);
+        if (reference) byReference.set(reference, draft);
+        const sku = pick(row, spec.sku);
+        if (sku) byReference.set(sku, draft);
+      }
+
+      return createBufferedMapper(collect, () => {
+        for (const child of children) {
+          const parent = byReference.get(child.parent);
+          if (!parent) {
+            console.error(`[import] ${spec.label}: variação sem produto pai "${child.parent}", ignorada.`);
+            continue;
+          }
+          if (parent.optionNames.length === 0) {
+            for (let i = 1; i <= 3; i++) {
+              const name = pick(child.row, spec.optionName(i));
+              if (name) parent.optionNames.push(name);
+            }
+            // A linha do pai só servia de variante enquanto o produto não tinha variações
+            parent.variants = [];
+          }
+          const variant = buildVariant(child.row, parent.optionNames);
+          variant.image = collectImages(child.row, spec.images)[0] || "";
+          parent.variants.push(variant);
+        }
+        return drafts;
+      });
+    },
+  };
+}
+
+const trayProfile = createParentReferenceProfile({
+  id: "tray",
+  label: "Tray",
+  detect: ["Código pai", "Nome"],
+  reference: ["Código", "Id"],
+  parent: ["Código pai"],
+  name: ["Nome"],
+  body: ["Descrição"],
+  vendor: ["Marca"],
+  category: ["Categoria"],
+  tags: ["Palavras-chave", "Tags"],
+  active: ["Ativo"],
+  price: ["Preço", "Preço de venda"],
+  promotional: ["Preço promocional"],
+  cost: ["Preço de custo"],
+  sku: ["Referência"],
+  barcode: ["EAN"],
+  weightKg: ["Peso (kg)"],
+  stock: ["Estoque"],
+  images: ["Imagem"],
+  optionName: (i) => [`Variação ${i}`, `Tipo variação ${i}`],
+  optionValue: (i) => [`Valor variação ${i}`, `Valor da variação ${i}`],
+});
+
+const lojaIntegradaProfile = createParentReferenceProfile({
+  id: "loja-integrada",
+  label: "Loja Integrada",
+  detect: ["sku-pai", "nome"],
+  reference: ["id"],
+  parent: ["sku-pai"],
+  name: ["nome"],
+  body: ["descricao-completa", "descricao"],
+  vendor: ["marca"],
+  category: ["categoria-nome-nivel-2", "categoria-nome-nivel-1"],
+  tags: ["tags"],
+  active: ["ativo"],
+  price: ["preco-cheio"],
+  promotional: ["preco-promocional"],
+  cost: ["preco-custo"],
+  sku: ["sku"],
+  barcode: ["gtin", "ean"],
+  weightKg: ["peso-em-kg"],
+  stock: ["estoque-quantidade"],
+  images: ["imagem-"],
+  optionName: (i) => [`grade-nome-${i}`],
+  optionValue: (i) => [`grade-valor-${i}`],
+});
+
+export const IMPORT_PROFILES: ImportProfile[] = [
+  shopifyProfile,
+  wooCommerceProfile,
+  nuvemshopProfile,
+  trayProfile,
+  lojaIntegradaProfile,
+];
+
+export function getImportProfile(id: string | undefined): ImportProfile | undefined {
+  return IMPORT_PROFILES.find((p) => p.id === id);
+}
+
+export function detectImportProfile(headers: string[]): ImportProfile {
+  return IMPORT_PROFILES.find((p) => p.detect(headers)) || shopifyProfile;
+}
+
+export function applyImportProfile(
+  profile: ImportProfile,
+  rows: Record<string, string>[]
+): Record<string, string>[] {
+  const mapper = profile.createMapper();
+  const mapped = rows.flatMap((row) => mapper.map(row));
+  mapped.push(...mapper.flush());
+  return mapped;
+}
+
+export async function* streamWithImportProfile(
+  rows: AsyncIterable<Record<string, string>>,
+  forcedProfile?: ImportProfile
+): AsyncGenerator<Record<string, string>> {
+  let mapper: RowMapper | null = null;
+
+  for await (const row of rows) {
+    if (!mapper) {
+      mapper = (forcedProfile || detectImportProfile(Object.keys(row))).createMapper();
+    }
+    yield* mapper.map(row);
+  }
+
+  if (mapper) yield* mapper.flush();
+}
+
+export function canonicalHeaders(rows: Record<string, string>[]): string[] {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) headers.add(key);
+  }
+  return Array.from(headers);
+}
@@ -0,0 +1,173 @@
+import { getSupabase } from "@/lib/supabase";
+import type { ImportedProductSummary } from "@/types/onboarding";
+
+export type ImportRunStatus = "running" | "completed" | "failed" | "cancelled";
+export type ImportItemStatus = "pending" | "done" | "failed";
+
+export interface ImportRun {
+  id: string;
+  mode: string;
+  status: ImportRunStatus;
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;
+  updatedAt: string;
+  // "running" sem checkpoint recente: a função foi encerrada (aba fechada ou limite de tempo).
+  stale: boolean;
+}
+
+export interface ImportRunItem {
+  handle: string;
+  status: ImportItemStatus;
+  productId: string | null;
+  reason: string | null;
+  summary: ImportedProductSummary | null;
+}
+
+const RUNS_TABLE = "import_runs";
+const ITEMS_TABLE = "import_run_items";
+const STALE_AFTER_MS = 2 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+interface ImportRunRow {
+  id: string;
+  mode: string;
+  status: ImportRunStatus;
+  total: number;
+  updated_at: string;
+}
+
+interface ImportRunItemRow {
+  handle: string;
+  status: ImportItemStatus;
+  product_id: string | null;
+  reason: string | null;
+  summary: ImportedProductSummary | null;
+}
+
+async function countItems(runId: string, status: ImportItemStatus): Promise<number> {
+  const { count, error } = await getSupabase()
+    .from(ITEMS_TABLE)
+    .select("handle", { count: "exact", head: true })
+    .eq("run_id", runId)
+    .eq("status", status);
+
+  if (error) throw new Error(`Falha ao contar itens da importação: ${error.message}`);
+  return count || 0;
+}
+
+async function toImportRun(row: ImportRunRow): Promise<ImportRun> {
+  const [done, failed, pending] = await Promise.all([
+    countItems(row.id, "done"),
+    countItems(row.id, "failed"),
+    countItems(row.id, "pending"),
+  ]);
+  return {
+    id: row.id,
+    mode: row.mode,
+    status: row.status,
+    total: Math.max(row.total, done + failed + pending),
+    done,
+    failed,
+    pending,
+    updatedAt: row.updated_at,
+    stale: row.status === "running" && Date.now() - Date.parse(row.updated_at) > STALE_AFTER_MS,
+  };
+}
+
+export async function createImportRun(shop: string, mode: string, total: number): Promise<string> {
+  const { data, error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .insert({ shop, mode, total, status: "running" })
+    .select("id")
+    .single();
+
+  if (error) throw new Error(`Falha ao registrar importação: ${error.message}`);
+  return (data as { id: string }).id;
+}
+
+export async function getImportRun(shop: string, id: string): Promise<ImportRun | null> {
+  const { data, error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .select("id, mode, status, total, updated_at")
+    .eq("shop", shop)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Falha ao buscar importação: ${error.message}`);
+  return data ? toImportRun(data as ImportRunRow) : null;
+}
+
+export async function getLatestImportRun(shop: string): Promise<ImportRun | null> {
+  const { data, error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .select("id, mode, status, total, updated_at")
+    .eq("shop", shop)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Falha ao buscar importação: ${error.message}`);
+  return data ? toImportRun(data as ImportRunRow) : null;
+}
+
+export async function listImportRunItems(runId: string): Promise<ImportRunItem[]> {
+  const items: ImportRunItem[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await getSupabase()
+      .from(ITEMS_TABLE)
+      .select("handle, status, product_id, reason, summary")
+      .eq("run_id", runId)
+      .order("handle")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Falha ao listar itens da importação: ${error.message}`);
+    const rows = data as ImportRunItemRow[];
+    items.push(...rows.map((r) => ({
+      handle: r.handle,
+      status: r.status,
+      productId: r.product_id,
+      reason: r.reason,
+      summary: r.summary,
+    })));
+    if (rows.length < PAGE_SIZE) return items;
+  }
+}
+
+// Grava os checkpoints dos handles e renova o updated_at da importação (heartbeat).
+export async function saveImportRunItems(runId: string, items: ImportRunItem[]): Promise<void> {
+  const now = new Date().toISOString();
+  for (let from = 0; from < items.length; from += PAGE_SIZE) {
+    const { error } = await getSupabase()
+      .from(ITEMS_TABLE)
+      .upsert(
+        items.slice(from, from + PAGE_SIZE).map((item) => ({
+          run_id: runId,
+          handle: item.handle,
+          status: item.status,
+          product_id: item.productId,
+          reason: item.reason,
+          summary: item.summary,
+          updated_at: now,
+        })),
+        { onConflict: "run_id,handle" }
+      );
+    if (error) throw new Error(`Falha ao gravar checkpoints da importação: ${error.message}`);
+  }
+
+  const { error: runError } = await getSupabase().from(RUNS_TABLE).update({ updated_at: now }).eq("id", runId);
+  if (runError) throw new Error(`Falha ao atualizar importação: ${runError.message}`);
+}
+
+export async function updateImportRun(
+  runId: string,
+  fields: { status?: ImportRunStatus; total?: number }
+): Promise<void> {
+  const { error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", runId);
+
+  if (error) throw new Error(`Falha ao atualizar importação: ${error.message}`);
+}
@@ -0,0 +1,147 @@
+import type { CsvValidationResult, ImportFormat } from "@/types/onboarding";
+import {
+  decodeCSV,
+  parseCSV,
+  parseCSVStream,
+  validateProductRows,
+  type CsvParseOptions,
+} from "@/lib/csv-parser";
+import { readSheetRows } from "@/lib/spreadsheet";
+import {
+  applyImportProfile,
+  canonicalHeaders,
+  detectImportProfile,
+  getImportProfile,
+  streamWithImportProfile,
+} from "@/lib/import-profiles";
+import {
+  applyColumnMapping,
+  mapHeaders,
+  parseColumnMapping,
+  type ColumnMapping,
+} from "@/lib/column-mapping";
+
+export interface ImportSourceOptions extends CsvParseOptions {
+  sheet?: string;
+  profile?: string;
+  mapping?: ColumnMapping;
+}
+
+export interface ImportRows {
+  format: ImportFormat;
+  headers: string[];
+  rows: Record<string, string>[];
+  delimiter?: string;
+  encoding?: string;
+  sheets?: string[];
+  sheet?: string;
+  profile: string;
+  // Cabeçalhos antes do mapeamento manual, exibidos no editor de colunas.
+  sourceHeaders: string[];
+}
+
+const SPREADSHEET_MIME_TYPES: Record<string, ImportFormat> = {
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.ms-excel": "xls",
+  "application/vnd.oasis.opendocument.spreadsheet": "ods",
+};
+
+export function detectImportFormat(file: File): ImportFormat {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return "xlsx";
+  if (name.endsWith(".xls")) return "xls";
+  if (name.endsWith(".ods")) return "ods";
+  if (name.endsWith(".csv")) return "csv";
+  return SPREADSHEET_MIME_TYPES[file.type] || "csv";
+}
+
+export function readImportOptions(formData: FormData): ImportSourceOptions {
+  const field = (name: string) => (formData.get(name) as string | null) || undefined;
+  return {
+    encoding: field("encoding"),
+    delimiter: field("delimiter"),
+    sheet: field("sheet"),
+    profile: field("profile"),
+    mapping: parseColumnMapping(field("mapping")),
+  };
+}
+
+export async function readImportFile(
+  file: File,
+  options: ImportSourceOptions = {}
+): Promise<ImportRows> {
+  const source = await readRawImportFile(file, options);
+  const profile = getImportProfile(options.profile) || detectImportProfile(source.headers);
+
+  let { headers, rows } = source;
+  if (profile.id !== "shopify") {
+    rows = applyImportProfile(profile, rows);
+    headers = canonicalHeaders(rows);
+  }
+
+  const sourceHeaders = headers;
+  const { mapping } = options;
+  if (mapping) {
+    rows = rows.map((row) => applyColumnMapping(row, mapping));
+    headers = mapHeaders(headers, mapping);
+  }
+
+  return { ...source, headers, rows, profile: profile.id, sourceHeaders };
+}
+
+async function readRawImportFile(
+  file: File,
+  options: ImportSourceOptions
+): Promise<Omit<ImportRows, "profile" | "sourceHeaders">> {
+  const format = detectImportFormat(file);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (format === "csv") {
+    const decoded = decodeCSV(bytes, options.encoding);
+    const parsed = parseCSV(decoded.text, options);
+    return {
+      format,
+      headers: parsed.headers,
+      rows: parsed.rows,
+      delimiter: parsed.delimiter,
+      encoding: decoded.encoding,
+    };
+  }
+
+  const sheet = readSheetRows(bytes, options.sheet);
+  return {
+    format,
+    headers: sheet.headers,
+    rows: sheet.rows,
+    sheets: sheet.sheets,
+    sheet: sheet.sheet,
+  };
+}
+
+export async function validateImportFile(
+  file: File,
+  options: ImportSourceOptions = {}
+): Promise<CsvValidationResult> {
+  const { headers, rows, ...meta } = await readImportFile(file, options);
+  return { ...validateProductRows(headers, rows), ...meta };
+}
+
+// CSV é lido em streaming; planilhas são binárias e precisam ser carregadas inteiras.
+export async function* streamImportRows(
+  file: File,
+  options: ImportSourceOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  const forcedProfile = getImportProfile(options.profile);
+  const { mapping } = options;
+
+  if (detectImportFormat(file) === "csv") {
+    const rows = streamWithImportProfile(parseCSVStream(file.stream(), options), forcedProfile);
+    for await (const row of rows) {
+      yield mapping ? applyColumnMapping(row, mapping) : row;
+    }
+    return;
+  }
+
+  const { rows } = await readImportFile(file, options);
+  yield* rows;
+}
@@ -0,0 +1,63 @@
+import { getSupabase } from "@/lib/supabase";
+import { parseColumnMapping, type ColumnMapping } from "@/lib/column-mapping";
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+const TABLE = "column_mapping_profiles";
+
+interface MappingProfileRow {
+  name: string;
+  mapping: unknown;
+  updated_at: string;
+}
+
+function toProfile(row: MappingProfileRow): MappingProfile {
+  return {
+    name: row.name,
+    mapping: parseColumnMapping(row.mapping) || {},
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function listMappingProfiles(shop: string): Promise<MappingProfile[]> {
+  const { data, error } = await getSupabase()
+    .from(TABLE)
+    .select("name, mapping, updated_at")
+    .eq("shop", shop)
+    .order("name");
+
+  if (error) throw new Error(`Falha ao listar perfis de mapeamento: ${error.message}`);
+  return (data as MappingProfileRow[]).map(toProfile);
+}
+
+export async function saveMappingProfile(
+  shop: string,
+  name: string,
+  mapping: ColumnMapping
+): Promise<MappingProfile> {
+  const { data, error } = await getSupabase()
+    .from(TABLE)
+    .upsert(
+      { shop, name, mapping, updated_at: new Date().toISOString() },
+      { onConflict: "shop,name" }
+    )
+    .select("name, mapping, updated_at")
+    .single();
+
+  if (error) throw new Error(`Falha ao salvar perfil "${name}": ${error.message}`);
+  return toProfile(data as MappingProfileRow);
+}
+
+export async function deleteMappingProfile(shop: string, name: string): Promise<void> {
+  const { error } = await getSupabase()
+    .from(TABLE)
+    .delete()
+    .eq("shop", shop)
+    .eq("name", name);
+
+  if (error) throw new Error(`Falha ao remover perfil "${name}": ${error.message}`);
+}
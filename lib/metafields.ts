@@ -0,0 +1,178 @@
+export type MetafieldOwner = "PRODUCT" | "PRODUCTVARIANT";
+
+export interface MetafieldColumn {
+  header: string;
+  owner: MetafieldOwner;
+  namespace: string;
+  key: string;
+  type: string;
+}
+
+// "Product metafield: custom.material [single_line_text_field]"
+// "Variant metafield: custom.size_chart [list.single_line_text_field]"
+const METAFIELD_COLUMN_RE =
+  /^(product|variant)\s+metafield:?\s*([a-z0-9_-]{2,255})\.([a-z0-9_-]{2,64})\s*\[\s*([a-z_.]+)\s*\]$/i;
+
+const SCALAR_TYPES = new Set([
+  "single_line_text_field",
+  "multi_line_text_field",
+  "rich_text_field",
+  "boolean",
+  "number_integer",
+  "number_decimal",
+  "date",
+  "date_time",
+  "url",
+  "color",
+  "json",
+  "money",
+  "rating",
+  "dimension",
+  "weight",
+  "volume",
+  "product_reference",
+  "variant_reference",
+  "collection_reference",
+  "page_reference",
+  "file_reference",
+  "metaobject_reference",
+]);
+
+// Tipos que aceitam a variação list.<tipo>.
+const LIST_TYPES = new Set([
+  "single_line_text_field",
+  "number_integer",
+  "number_decimal",
+  "date",
+  "date_time",
+  "url",
+  "color",
+  "rating",
+  "dimension",
+  "weight",
+  "volume",
+  "product_reference",
+  "variant_reference",
+  "collection_reference",
+  "page_reference",
+  "file_reference",
+  "metaobject_reference",
+]);
+
+// Tipos cujo valor é um objeto JSON (ex: {"value": 10, "unit": "CENTIMETERS"}).
+const JSON_OBJECT_TYPES = new Set(["json", "rich_text_field", "money", "rating", "dimension", "weight", "volume"]);
+
+export function isSupportedMetafieldType(type: string): boolean {
+  if (type.startsWith("list.")) return LIST_TYPES.has(type.slice(5));
+  return SCALAR_TYPES.has(type);
+}
+
+export function parseMetafieldColumn(header: string): MetafieldColumn | null {
+  const match = METAFIELD_COLUMN_RE.exec(header.trim());
+  if (!match) return null;
+  return {
+    header,
+    owner: match[1].toLowerCase() === "variant" ? "PRODUCTVARIANT" : "PRODUCT",
+    namespace: match[2].toLowerCase(),
+    key: match[3].toLowerCase(),
+    type: match[4].toLowerCase(),
+  };
+}
+
+export function findMetafieldColumns(headers: string[]): MetafieldColumn[] {
+  return headers.map(parseMetafieldColumn).filter((c): c is MetafieldColumn => c !== null);
+}
+
+function normalizeScalar(type: string, raw: string): string | { error: string } {
+  const value = raw.trim();
+  switch (type) {
+    case "single_line_text_field":
+      return /[\r\n]/.test(value) ? { error: "texto de linha única não pode ter quebras de linha" } : value;
+    case "multi_line_text_field":
+      return raw.replace(/\r\n/g, "\n");
+    case "boolean": {
+      const lower = value.toLowerCase();
+      if (["true", "sim", "yes", "1"].includes(lower)) return "true";
+      if (["false", "não", "nao", "no", "0"].includes(lower)) return "false";
+      return { error: `"${value}" não é booleano (use true/false)` };
+    }
+    case "number_integer":
+      return /^-?\d+$/.test(value) ? value : { error: `"${value}" não é um número inteiro` };
+    case "number_decimal": {
+      const normalized = value.replace(",", ".");
+      return /^-?\d+(\.\d+)?$/.test(normalized) ? normalized : { error: `"${value}" não é um número decimal` };
+    }
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+        ? value
+        : { error: `"${value}" não é uma data AAAA-MM-DD` };
+    case "date_time":
+      return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+        ? value
+        : { error: `"${value}" não é uma data/hora ISO 8601` };
+    case "url":
+      return /^(https?:\/\/|mailto:|tel:|sms:)/i.test(value) ? value : { error: `"${value}" não é uma URL válida` };
+    case "color":
+      return /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : { error: `"${value}" não é uma cor #RRGGBB` };
+    case "product_reference":
+    case "variant_reference":
+    case "collection_reference":
+    case "page_reference":
+    case "file_reference":
+    case "metaobject_reference":
+      return /^gid:\/\/shopify\/\w+\/\d+$/.test(value) ? value : { error: `"${value}" não é um GID da Shopify` };
+  }
+
+  if (JSON_OBJECT_TYPES.has(type)) {
+    try {
+      const parsed = JSON.parse(value);
+      if (type !== "json" && (typeof parsed !== "object" || parsed === null || Array.isArray(parsed))) {
+        return { error: `valor de ${type} deve ser um objeto JSON` };
+      }
+      return JSON.stringify(parsed);
+    } catch {
+      return { error: `"${value}" não é JSON válido` };
+    }
+  }
+
+  return { error: `tipo "${type}" não suportado` };
+}
+
+// Listas aceitam um array JSON ou itens separados por ";".
+export function normalizeMetafieldValue(type: string, raw: string): { value: string } | { error: string } {
+  if (!isSupportedMetafieldType(type)) return { error: `tipo "${type}" não suportado` };
+
+  if (!type.startsWith("list.")) {
+    const result = normalizeScalar(type, raw);
+    return typeof result === "string" ? { value: result } : result;
+  }
+
+  const itemType = type.slice(5);
+  let items: string[];
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (!Array.isArray(parsed)) return { error: "lista deve ser um array JSON" };
+      items = parsed.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+    } catch {
+      return { error: `"${trimmed}" não é um array JSON válido` };
+    }
+  } else {
+    items = trimmed.split(";").map((item) => item.trim()).filter(Boolean);
+  }
+
+  const values: unknown[] = [];
+  for (const item of items) {
+    const result = normalizeScalar(itemType, item);
+    if (typeof result !== "string") return { error: `item "${item}": ${result.error}` };
+    if (JSON_OBJECT_TYPES.has(itemType)) values.push(JSON.parse(result));
+    else if (itemType.startsWith("number_")) values.push(Number(result));
+    else values.push(result);
+  }
+  return { value: JSON.stringify(values) };
+}
+
+export function describeMetafieldColumn(column: MetafieldColumn): string {
+  return `${column.owner === "PRODUCT" ? "produto" : "variante"} ${column.namespace}.${column.key}`;
+}
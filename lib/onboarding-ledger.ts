@@ -0,0 +1,175 @@
+import { getSupabase } from "@/lib/supabase";
+import { isSimulationRequest } from "@/lib/simulation";
+
+// Recursos que as etapas 2–8 criam ou sobrescrevem, na ordem em que o rollback os desfaz
+// (do último para o primeiro).
+export type LedgerKind =
+  | "product"
+  | "metafield_definition"
+  | "collection"
+  | "theme"
+  | "theme_publish"
+  | "file"
+  | "page"
+  | "menu"
+  | "menu_update";
+
+export type OnboardingRunStatus = "active" | "rolled_back";
+
+export interface LedgerEntry {
+  id: number;
+  step: number;
+  kind: LedgerKind;
+  resourceId: string;
+  // Estado anterior para o que foi sobrescrito (tema MAIN, itens de menu).
+  previous: Record<string, unknown> | null;
+  undoneAt: string | null;
+}
+
+export interface RunLedger {
+  runId: string | null;
+  record(kind: LedgerKind, resourceId: string, previous?: Record<string, unknown>): Promise<void>;
+  recordAll(kind: LedgerKind, resourceIds: string[]): Promise<void>;
+}
+
+// Header com o id da execução, enviado pela página em cada etapa.
+export const ONBOARDING_RUN_HEADER = "x-onboarding-run";
+
+const RUNS_TABLE = "onboarding_runs";
+const ENTRIES_TABLE = "onboarding_run_entries";
+const PAGE_SIZE = 1000;
+
+interface LedgerEntryRow {
+  id: number;
+  step: number;
+  kind: LedgerKind;
+  resource_id: string;
+  previous: Record<string, unknown> | null;
+  undone_at: string | null;
+}
+
+export async function createOnboardingRun(shop: string): Promise<string> {
+  const { data, error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .insert({ shop, status: "active" })
+    .select("id")
+    .single();
+
+  if (error) throw new Error(`Falha ao registrar execução: ${error.message}`);
+  return (data as { id: string }).id;
+}
+
+export async function getOnboardingRun(
+  shop: string,
+  id: string
+): Promise<{ id: string; status: OnboardingRunStatus } | null> {
+  const { data, error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .select("id, status")
+    .eq("shop", shop)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Falha ao buscar execução: ${error.message}`);
+  return data as { id: string; status: OnboardingRunStatus } | null;
+}
+
+export async function updateOnboardingRun(runId: string, status: OnboardingRunStatus): Promise<void> {
+  const { error } = await getSupabase()
+    .from(RUNS_TABLE)
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", runId);
+
+  if (error) throw new Error(`Falha ao atualizar execução: ${error.message}`);
+}
+
+export async function listLedgerEntries(runId: string): Promise<LedgerEntry[]> {
+  const entries: LedgerEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await getSupabase()
+      .from(ENTRIES_TABLE)
+      .select("id, step, kind, resource_id, previous, undone_at")
+      .eq("run_id", runId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Falha ao listar o registro da execução: ${error.message}`);
+    const rows = data as LedgerEntryRow[];
+    entries.push(...rows.map((r) => ({
+      id: r.id,
+      step: r.step,
+      kind: r.kind,
+      resourceId: r.resource_id,
+      previous: r.previous,
+      undoneAt: r.undone_at,
+    })));
+    if (rows.length < PAGE_SIZE) return entries;
+  }
+}
+
+// Um recurso entra uma vez por execução: a primeira gravação guarda o estado anterior.
+export async function recordLedgerEntries(
+  runId: string,
+  step: number,
+  entries: { kind: LedgerKind; resourceId: string; previous?: Record<string, unknown> }[]
+): Promise<void> {
+  for (let from = 0; from < entries.length; from += PAGE_SIZE) {
+    const { error } = await getSupabase()
+      .from(ENTRIES_TABLE)
+      .upsert(
+        entries.slice(from, from + PAGE_SIZE).map((e) => ({
+          run_id: runId,
+          step,
+          kind: e.kind,
+          resource_id: e.resourceId,
+          previous: e.previous ?? null,
+        })),
+        { onConflict: "run_id,kind,resource_id", ignoreDuplicates: true }
+      );
+
+    if (error) throw new Error(`Falha ao registrar recursos da execução: ${error.message}`);
+  }
+}
+
+export async function markLedgerEntriesUndone(ids: number[]): Promise<void> {
+  const now = new Date().toISOString();
+  for (let from = 0; from < ids.length; from += PAGE_SIZE) {
+    const { error } = await getSupabase()
+      .from(ENTRIES_TABLE)
+      .update({ undone_at: now })
+      .in("id", ids.slice(from, from + PAGE_SIZE));
+
+    if (error) throw new Error(`Falha ao atualizar o registro da execução: ${error.message}`);
+  }
+}
+
+// Ledger da requisição de uma etapa. Sem header (ou com execução de outra loja) não grava
+// nada; falhas do Supabase são só logadas para não interromper a etapa. Na simulação os IDs
+// são sintéticos e também não são gravados.
+export async function openLedger(shop: string, request: Request, step: number): Promise<RunLedger> {
+  const requested = isSimulationRequest(request) ? null : request.headers.get(ONBOARDING_RUN_HEADER);
+  let runId: string | null = null;
+  if (requested) {
+    try {
+      runId = (await getOnboardingRun(shop, requested))?.id ?? null;
+      if (!runId) console.error(`[ledger] Execução ${requested} não encontrada para ${shop}`);
+    } catch (err) {
+      console.error("[ledger] Registro desativado:", err instanceof Error ? err.message : err);
+    }
+  }
+
+  const save = async (entries: { kind: LedgerKind; resourceId: string; previous?: Record<string, unknown> }[]) => {
+    if (!runId || entries.length === 0) return;
+    try {
+      await recordLedgerEntries(runId, step, entries);
+    } catch (err) {
+      console.error(`[ledger] step${step}:`, err instanceof Error ? err.message : err);
+    }
+  };
+
+  return {
+    runId,
+    record: (kind, resourceId, previous) => save([{ kind, resourceId, previous }]),
+    recordAll: (kind, resourceIds) => save(resourceIds.map((resourceId) => ({ kind, resourceId }))),
+  };
+}
@@ -0,0 +1,159 @@
+import type { ProductImportInput, VariantImportInput } from "@/lib/product-mapper";
+
+export type PriceRounding = "none" | "0.90" | "0.99";
+
+export interface PriceRuleScope {
+  vendor?: string;
+  productType?: string;
+  tag?: string;
+}
+
+export interface PriceRule {
+  name?: string;
+  // Sem escopo a regra vale para todos os produtos.
+  scope?: PriceRuleScope;
+  // "cost" usa o Cost per item como base (fornecedor); sem custo, cai para o preço.
+  base?: "price" | "cost";
+  markup?: { type: "percent" | "fixed"; value: number };
+  rounding?: PriceRounding;
+  // Margem mínima sobre o preço final: (preço - custo) / preço.
+  minMarginPercent?: number;
+  // Gera compareAtPrice = preço × (1 + %/100), substituindo o da planilha.
+  compareAtPercent?: number;
+}
+
+export interface PricedVariant extends VariantImportInput {
+  originalPrice?: string;
+  priceRule?: string;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value !== "number" && typeof value !== "string") return undefined;
+  if (typeof value === "string" && !value.trim()) return undefined;
+  const n = typeof value === "string" ? Number(value.replace(",", ".")) : value;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function parseScope(raw: unknown): PriceRuleScope | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const scope: PriceRuleScope = {};
+  for (const key of ["vendor", "productType", "tag"] as const) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === "string" && value.trim()) scope[key] = value.trim();
+  }
+  return Object.keys(scope).length > 0 ? scope : undefined;
+}
+
+export function parsePriceRules(raw: unknown): PriceRule[] {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  const rules: PriceRule[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    const rule: PriceRule = {};
+
+    if (typeof r.name === "string" && r.name.trim()) rule.name = r.name.trim();
+    const scope = parseScope(r.scope);
+    if (scope) rule.scope = scope;
+    if (r.base === "cost" || r.base === "price") rule.base = r.base;
+
+    const markup = r.markup as Record<string, unknown> | undefined;
+    const markupValue = toNumber(markup?.value);
+    if (markup && (markup.type === "percent" || markup.type === "fixed") && markupValue !== undefined) {
+      rule.markup = { type: markup.type, value: markupValue };
+    }
+
+    if (r.rounding === "0.90" || r.rounding === "0.99") rule.rounding = r.rounding;
+
+    const minMargin = toNumber(r.minMarginPercent);
+    if (minMargin !== undefined && minMargin > 0 && minMargin < 100) rule.minMarginPercent = minMargin;
+
+    const compareAt = toNumber(r.compareAtPercent);
+    if (compareAt !== undefined && compareAt > 0) rule.compareAtPercent = compareAt;
+
+    rules.push(rule);
+  }
+  return rules;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesScope(product: ProductImportInput, scope?: PriceRuleScope): boolean {
+  if (!scope) return true;
+  if (scope.vendor && !sameText(product.vendor, scope.vendor)) return false;
+  if (scope.productType && !sameText(product.productType, scope.productType)) return false;
+  if (scope.tag && !product.tags.some((t) => sameText(t, scope.tag!))) return false;
+  return true;
+}
+
+// A primeira regra cujo escopo casa com o produto vence, na ordem em que foram cadastradas.
+export function findPriceRule(product: ProductImportInput, rules: PriceRule[]): PriceRule | undefined {
+  return rules.find((rule) => matchesScope(product, rule.scope));
+}
+
+// Arredonda para cima até o próximo ,90/,99 (nunca reduz o preço já calculado).
+function roundPsychological(price: number, rounding: PriceRounding | undefined): number {
+  if (!rounding || rounding === "none") return Math.round(price * 100) / 100;
+  const cents = rounding === "0.90" ? 0.9 : 0.99;
+  const candidate = Math.floor(price) + cents;
+  return candidate + 1e-9 >= price ? candidate : candidate + 1;
+}
+
+export function applyPriceRule(variant: VariantImportInput, rule: PriceRule): PricedVariant {
+  const original = Number(variant.price);
+  const cost = toNumber(variant.inventoryItem?.cost);
+  if (!Number.isFinite(original)) return variant;
+
+  let price = rule.base === "cost" && cost !== undefined && cost > 0 ? cost : original;
+
+  if (rule.markup) {
+    price = rule.markup.type === "percent"
+      ? price * (1 + rule.markup.value / 100)
+      : price + rule.markup.value;
+  }
+
+  if (rule.minMarginPercent !== undefined && cost !== undefined && cost > 0) {
+    price = Math.max(price, cost / (1 - rule.minMarginPercent / 100));
+  }
+
+  price = roundPsychological(Math.max(price, 0), rule.rounding);
+
+  const priced: PricedVariant = { ...variant, price: price.toFixed(2) };
+
+  if (rule.compareAtPercent !== undefined) {
+    const compareAt = roundPsychological(price * (1 + rule.compareAtPercent / 100), rule.rounding);
+    priced.compareAtPrice = compareAt.toFixed(2);
+  }
+
+  if (priced.price !== variant.price) priced.originalPrice = variant.price;
+  priced.priceRule = rule.name || "Regra de preço";
+  return priced;
+}
+
+export function applyPriceRules(
+  product: ProductImportInput,
+  variants: VariantImportInput[],
+  rules: PriceRule[]
+): PricedVariant[] {
+  const rule = findPriceRule(product, rules);
+  return rule ? variants.map((v) => applyPriceRule(v, rule)) : variants;
+}
+
+// Remove os campos informativos antes de enviar à Admin API.
+export function toVariantInput(variant: PricedVariant): VariantImportInput {
+  const input: PricedVariant = { ...variant };
+  delete input.originalPrice;
+  delete input.priceRule;
+  return input;
+}
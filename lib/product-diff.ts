@@ -0,0 +1,299 @@
+import type { FieldChange, ProductChangeReport } from "@/types/onboarding";
+import type {
+  ProductImportInput,
+  ProductMediaInput,
+  ProductMetafieldInput,
+  VariantImportInput,
+} from "@/lib/product-mapper";
+
+// Estado atual de um produto na loja, no formato lido pelo modo upsert do step2.
+export interface ExistingVariant {
+  id: string;
+  sku: string | null;
+  price: string;
+  compareAtPrice: string | null;
+  barcode: string | null;
+  taxable: boolean;
+  inventoryPolicy: "DENY" | "CONTINUE";
+  selectedOptions: { name: string; value: string }[];
+  metafields: { namespace: string; key: string; value: string }[];
+}
+
+export interface ExistingProduct {
+  id: string;
+  handle: string;
+  title: string;
+  descriptionHtml: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  status: ProductImportInput["status"];
+  seo: { title: string | null; description: string | null };
+  metafields: { namespace: string; key: string; value: string }[];
+  variants: ExistingVariant[];
+  mediaUrls: string[];
+}
+
+export type VariantUpdate = { id: string } & Partial<Omit<VariantImportInput, "optionValues" | "inventoryQuantities">>;
+
+export interface ProductDiff {
+  // Só os campos que mudaram; vazio quando o produto já está igual ao CSV.
+  product: Partial<Omit<ProductImportInput, "handle">>;
+  variantsToUpdate: VariantUpdate[];
+  variantsToCreate: VariantImportInput[];
+  mediaToAdd: ProductMediaInput[];
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a || "").replace(/\s+/g, " ").trim() === (b || "").replace(/\s+/g, " ").trim();
+}
+
+function samePrice(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return !a === !b;
+  return Number(a) === Number(b);
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  const normalize = (tags: string[]) => tags.map((t) => t.trim().toLowerCase()).sort().join(",");
+  return normalize(a) === normalize(b);
+}
+
+function optionsKey(options: { name: string; value: string }[]): string {
+  return options.map((o) => `${o.name.toLowerCase()}=${o.value.toLowerCase()}`).join("|");
+}
+
+// A Shopify reescreve a URL da mídia para o CDN, mas mantém o nome do arquivo.
+export function mediaFileName(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  try {
+    return decodeURIComponent(name).toLowerCase();
+  } catch {
+    return name.toLowerCase();
+  }
+}
+
+function changedMetafields(
+  desired: ProductMetafieldInput[] | undefined,
+  existing: { namespace: string; key: string; value: string }[]
+): ProductMetafieldInput[] {
+  return (desired || []).filter((m) => {
+    const current = existing.find((e) => e.namespace === m.namespace && e.key === m.key);
+    return !current || current.value !== m.value;
+  });
+}
+
+// Campos ausentes no CSV (ex: sem Compare At Price) não apagam o valor da loja.
+function diffVariant(existing: ExistingVariant, desired: VariantImportInput): VariantUpdate | null {
+  const update: VariantUpdate = { id: existing.id };
+  if (!samePrice(existing.price, desired.price)) update.price = desired.price;
+  if (desired.compareAtPrice && !samePrice(existing.compareAtPrice, desired.compareAtPrice)) {
+    update.compareAtPrice = desired.compareAtPrice;
+  }
+  if (desired.barcode && desired.barcode !== existing.barcode) update.barcode = desired.barcode;
+  if (desired.taxable !== undefined && desired.taxable !== existing.taxable) update.taxable = desired.taxable;
+  if (desired.inventoryPolicy && desired.inventoryPolicy !== existing.inventoryPolicy) {
+    update.inventoryPolicy = desired.inventoryPolicy;
+  }
+  const sku = desired.inventoryItem?.sku;
+  if (sku && sku !== existing.sku) update.inventoryItem = { sku };
+  const metafields = changedMetafields(desired.metafields, existing.metafields);
+  if (metafields.length > 0) update.metafields = metafields;
+  return Object.keys(update).length > 1 ? update : null;
+}
+
+// Variantes casam primeiro por SKU e, sem SKU, pela combinação de opções.
+function matchVariants(
+  existing: ExistingVariant[],
+  variants: VariantImportInput[]
+): { pairs: [ExistingVariant, VariantImportInput][]; added: VariantImportInput[]; removed: ExistingVariant[] } {
+  const pairs: [ExistingVariant, VariantImportInput][] = [];
+  const added: VariantImportInput[] = [];
+  const matched = new Set<string>();
+  for (const desired of variants) {
+    const sku = desired.inventoryItem?.sku;
+    const key = optionsKey(desired.optionValues.map((o) => ({ name: o.optionName, value: o.name })));
+    const current =
+      (sku && existing.find((v) => v.sku === sku && !matched.has(v.id))) ||
+      existing.find((v) => optionsKey(v.selectedOptions) === key && !matched.has(v.id));
+    if (!current) {
+      added.push(desired);
+      continue;
+    }
+    matched.add(current.id);
+    pairs.push([current, desired]);
+  }
+  return { pairs, added, removed: existing.filter((v) => !matched.has(v.id)) };
+}
+
+export function diffProduct(
+  existing: ExistingProduct,
+  input: ProductImportInput,
+  variants: VariantImportInput[],
+  media: ProductMediaInput[]
+): ProductDiff {
+  const product: ProductDiff["product"] = {};
+  if (!sameText(existing.title, input.title)) product.title = input.title;
+  if (!sameText(existing.descriptionHtml, input.descriptionHtml)) product.descriptionHtml = input.descriptionHtml;
+  if (!sameText(existing.vendor, input.vendor)) product.vendor = input.vendor;
+  if (!sameText(existing.productType, input.productType)) product.productType = input.productType;
+  if (!sameTags(existing.tags, input.tags)) product.tags = input.tags;
+  if (existing.status !== input.status) product.status = input.status;
+  if (input.seo && (!sameText(existing.seo.title, input.seo.title) || !sameText(existing.seo.description, input.seo.description))) {
+    product.seo = input.seo;
+  }
+  const metafields = changedMetafields(input.metafields, existing.metafields);
+  if (metafields.length > 0) product.metafields = metafields;
+
+  const { pairs, added } = matchVariants(existing.variants, variants);
+  const variantsToUpdate = pairs
+    .map(([current, desired]) => diffVariant(current, desired))
+    .filter((update): update is VariantUpdate => update !== null);
+  const variantsToCreate = added;
+
+  const existingFiles = new Set(existing.mediaUrls.map(mediaFileName));
+  const mediaToAdd = media.filter((m) => !existingFiles.has(mediaFileName(m.originalSource)));
+
+  return { product, variantsToUpdate, variantsToCreate, mediaToAdd };
+}
+
+export function isEmptyDiff(diff: ProductDiff): boolean {
+  return (
+    Object.keys(diff.product).length === 0 &&
+    diff.variantsToUpdate.length === 0 &&
+    diff.variantsToCreate.length === 0 &&
+    diff.mediaToAdd.length === 0
+  );
+}
+
+export function describeProductDiff(diff: ProductDiff): string {
+  const parts: string[] = [];
+  const fields = Object.keys(diff.product);
+  if (fields.length > 0) parts.push(`campos: ${fields.join(", ")}`);
+  if (diff.variantsToUpdate.length > 0) parts.push(`${diff.variantsToUpdate.length} variante(s) alterada(s)`);
+  if (diff.variantsToCreate.length > 0) parts.push(`${diff.variantsToCreate.length} variante(s) nova(s)`);
+  if (diff.mediaToAdd.length > 0) parts.push(`${diff.mediaToAdd.length} imagem(ns) nova(s)`);
+  return parts.join("; ");
+}
+
+function variantLabel(optionValues: { name: string; value: string }[], sku: string | null | undefined): string {
+  const names = optionValues.filter((o) => o.name !== "Title").map((o) => o.value);
+  const label = names.length > 0 ? names.join(" / ") : "Padrão";
+  return sku ? `${label} (${sku})` : label;
+}
+
+const PRODUCT_FIELD_LABELS: Record<string, string> = {
+  title: "Título",
+  descriptionHtml: "Descrição",
+  vendor: "Fornecedor",
+  productType: "Tipo",
+  status: "Status",
+  seo: "SEO",
+  metafields: "Metafields",
+};
+
+function shorten(value: string, max = 80): string {
+  const text = value.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function productFieldValue(field: string, value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (field === "seo") {
+    const seo = value as { title?: string | null; description?: string | null };
+    return [seo.title, seo.description].filter(Boolean).join(" — ");
+  }
+  if (field === "metafields") {
+    return (value as { namespace: string; key: string; value: string }[])
+      .map((m) => `${m.namespace}.${m.key}=${shorten(m.value, 30)}`)
+      .join(", ");
+  }
+  return shorten(String(value));
+}
+
+// Relatório do dry-run: além do que o upsert aplicaria, lista o que existe na loja e não
+// está no CSV (tags, variantes e imagens que uma reimportação completa removeria).
+export function describeProductChanges(
+  handle: string,
+  existing: ExistingProduct | null,
+  input: ProductImportInput,
+  variants: VariantImportInput[],
+  media: ProductMediaInput[]
+): ProductChangeReport {
+  if (!existing) {
+    return {
+      handle,
+      action: "create",
+      fields: [],
+      tags: { added: input.tags, removed: [] },
+      variants: {
+        added: variants.map((v) => variantLabel(v.optionValues.map((o) => ({ name: o.optionName, value: o.name })), v.inventoryItem?.sku)),
+        removed: [],
+        updated: [],
+      },
+      images: { added: media.map((m) => m.originalSource), removed: [] },
+    };
+  }
+
+  const diff = diffProduct(existing, input, variants, media);
+
+  const fields: FieldChange[] = Object.entries(diff.product)
+    .filter(([field]) => field !== "tags")
+    .map(([field, to]) => ({
+      field: PRODUCT_FIELD_LABELS[field] || field,
+      from: productFieldValue(field, field === "metafields"
+        ? existing.metafields.filter((m) => (to as ProductMetafieldInput[]).some((t) => t.namespace === m.namespace && t.key === m.key))
+        : existing[field as keyof ExistingProduct]),
+      to: productFieldValue(field, to),
+    }));
+
+  const lower = (tags: string[]) => tags.map((t) => t.trim().toLowerCase());
+  const currentTags = lower(existing.tags);
+  const desiredTags = lower(input.tags);
+
+  const { pairs, removed } = matchVariants(existing.variants, variants);
+  const updated = pairs.flatMap(([current, desired]) => {
+    const update = diffVariant(current, desired);
+    if (!update) return [];
+    const changes: FieldChange[] = [];
+    if (update.price) changes.push({ field: "Preço", from: current.price, to: update.price });
+    if (update.compareAtPrice) changes.push({ field: "Preço comparativo", from: current.compareAtPrice || "", to: update.compareAtPrice });
+    if (update.barcode) changes.push({ field: "Código de barras", from: current.barcode || "", to: update.barcode });
+    if (update.taxable !== undefined) changes.push({ field: "Tributável", from: String(current.taxable), to: String(update.taxable) });
+    if (update.inventoryPolicy) changes.push({ field: "Venda sem estoque", from: current.inventoryPolicy, to: update.inventoryPolicy });
+    if (update.inventoryItem?.sku) changes.push({ field: "SKU", from: current.sku || "", to: update.inventoryItem.sku });
+    if (update.metafields) {
+      changes.push({ field: "Metafields", from: "", to: update.metafields.map((m) => `${m.namespace}.${m.key}`).join(", ") });
+    }
+    return [{ variant: variantLabel(current.selectedOptions, current.sku), changes }];
+  });
+
+  const desiredFiles = new Set(media.map((m) => mediaFileName(m.originalSource)));
+  const report: ProductChangeReport = {
+    handle,
+    action: "unchanged",
+    productId: existing.id,
+    fields,
+    tags: {
+      added: input.tags.filter((t, i) => !currentTags.includes(desiredTags[i])),
+      removed: existing.tags.filter((t, i) => !desiredTags.includes(currentTags[i])),
+    },
+    variants: {
+      added: diff.variantsToCreate.map((v) => variantLabel(v.optionValues.map((o) => ({ name: o.optionName, value: o.name })), v.inventoryItem?.sku)),
+      removed: removed.map((v) => variantLabel(v.selectedOptions, v.sku)),
+      updated,
+    },
+    images: {
+      added: diff.mediaToAdd.map((m) => m.originalSource),
+      removed: existing.mediaUrls.filter((url) => !desiredFiles.has(mediaFileName(url))),
+    },
+  };
+
+  const changed =
+    fields.length > 0 ||
+    report.tags.added.length + report.tags.removed.length > 0 ||
+    report.variants.added.length + report.variants.removed.length + updated.length > 0 ||
+    report.images.added.length + report.images.removed.length > 0;
+  if (changed) report.action = "update";
+  return report;
+}
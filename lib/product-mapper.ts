@@ -0,0 +1,470 @@
+import {
+  findMetafieldColumns,
+  normalizeMetafieldValue,
+  type MetafieldOwner,
+} from "@/lib/metafields";
+
+export interface ProductMetafieldInput {
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+}
+
+export interface ProductImportInput {
+  handle: string;
+  title: string;
+  descriptionHtml: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  status: "ACTIVE" | "DRAFT" | "ARCHIVED";
+  giftCard?: boolean;
+  category?: string;
+  seo?: { title?: string; description?: string };
+  metafields?: ProductMetafieldInput[];
+}
+
+export interface ProductMediaInput {
+  originalSource: string;
+  mediaContentType: "IMAGE";
+  alt: string;
+}
+
+export interface VariantInventoryItemInput {
+  sku?: string;
+  tracked?: boolean;
+  cost?: string;
+  requiresShipping?: boolean;
+  measurement?: {
+    weight: { value: number; unit: "GRAMS" | "KILOGRAMS" | "OUNCES" | "POUNDS" };
+  };
+}
+
+export interface VariantImportInput {
+  price: string;
+  compareAtPrice?: string;
+  barcode?: string;
+  taxable?: boolean;
+  taxCode?: string;
+  inventoryPolicy?: "DENY" | "CONTINUE";
+  inventoryItem?: VariantInventoryItemInput;
+  inventoryQuantities?: { locationId: string; availableQuantity: number }[];
+  // URL de uma mídia enviada no mesmo productVariantsBulkCreate (argumento media).
+  mediaSrc?: string[];
+  metafields?: ProductMetafieldInput[];
+  optionValues: { name: string; optionName: string }[];
+}
+
+export interface InventoryLocation {
+  id: string;
+  name: string;
+  isPrimary: boolean;
+}
+
+// "Variant Inventory Qty" vai para a location principal; colunas
+// "Variant Inventory Qty - <nome da location>" definem o estoque por location.
+export const LOCATION_QTY_PREFIX = "Variant Inventory Qty - ";
+
+const GOOGLE_SHOPPING_NAMESPACE = "mm-google-shopping";
+
+const GOOGLE_SHOPPING_COLUMNS: { column: string; key: string; type: string }[] = [
+  { column: "Google Shopping / Google Product Category", key: "google_product_category", type: "single_line_text_field" },
+  { column: "Google Shopping / Gender", key: "gender", type: "single_line_text_field" },
+  { column: "Google Shopping / Age Group", key: "age_group", type: "single_line_text_field" },
+  { column: "Google Shopping / MPN", key: "mpn", type: "single_line_text_field" },
+  { column: "Google Shopping / Condition", key: "condition", type: "single_line_text_field" },
+  { column: "Google Shopping / Custom Product", key: "custom_product", type: "boolean" },
+  { column: "Google Shopping / Custom Label 0", key: "custom_label_0", type: "single_line_text_field" },
+  { column: "Google Shopping / Custom Label 1", key: "custom_label_1", type: "single_line_text_field" },
+  { column: "Google Shopping / Custom Label 2", key: "custom_label_2", type: "single_line_text_field" },
+  { column: "Google Shopping / Custom Label 3", key: "custom_label_3", type: "single_line_text_field" },
+  { column: "Google Shopping / Custom Label 4", key: "custom_label_4", type: "single_line_text_field" },
+];
+
+// Colunas do export padrão da Shopify que o importador entende. As que ele não aplica
+// (OptionN Linked To, Variant Fulfillment Service) ficam fora para gerar o aviso.
+export const KNOWN_COLUMNS = [
+  "Handle",
+  "Title",
+  "Body (HTML)",
+  "Vendor",
+  "Product Category",
+  "Type",
+  "Tags",
+  "Published",
+  "Option1 Name",
+  "Option1 Value",
+  "Option2 Name",
+  "Option2 Value",
+  "Option3 Name",
+  "Option3 Value",
+  "Variant SKU",
+  "Variant Grams",
+  "Variant Inventory Tracker",
+  "Variant Inventory Qty",
+  "Variant Inventory Policy",
+  "Variant Price",
+  "Variant Compare At Price",
+  "Variant Requires Shipping",
+  "Variant Taxable",
+  "Variant Barcode",
+  "Variant Image",
+  "Variant Weight Unit",
+  "Variant Tax Code",
+  "Cost per item",
+  "Image Src",
+  "Image Position",
+  "Image Alt Text",
+  "Gift Card",
+  "SEO Title",
+  "SEO Description",
+  "Status",
+  "Collection",
+  ...GOOGLE_SHOPPING_COLUMNS.map((c) => c.column),
+];
+
+const GRAMS_PER_UNIT: Record<string, { unit: "GRAMS" | "KILOGRAMS" | "OUNCES" | "POUNDS"; grams: number }> = {
+  g: { unit: "GRAMS", grams: 1 },
+  kg: { unit: "KILOGRAMS", grams: 1000 },
+  oz: { unit: "OUNCES", grams: 28.349523125 },
+  lb: { unit: "POUNDS", grams: 453.59237 },
+};
+
+export function findColumn(row: Record<string, string>, name: string): string {
+  if (row[name] !== undefined) return row[name];
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(row)) {
+    if (key.toLowerCase() === lower) return row[key];
+  }
+  return "";
+}
+
+// Aceita "1.234,56", "99,90", "1,234.56" e "99.90"; o separador decimal é o último que
+// aparece. Texto que não é número volta como veio, para a validação acusar.
+export function normalizeDecimal(raw: string): string {
+  const value = raw.trim();
+  if (!/^-?[\d.,]+$/.test(value)) return value;
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    return value.replace(/\./g, "").replace(",", ".");
+  }
+  return value.replace(/,/g, "");
+}
+
+function parseBoolean(raw: string): boolean | undefined {
+  const value = raw.trim().toLowerCase();
+  if (["true", "yes", "sim", "1"].includes(value)) return true;
+  if (["false", "no", "não", "nao", "0"].includes(value)) return false;
+  return undefined;
+}
+
+export function getOptionNames(first: Record<string, string>): string[] {
+  const optionNames: string[] = [];
+  for (let i = 1; i <= 3; i++) {
+    const name = findColumn(first, `Option${i} Name`)?.trim();
+    if (name) optionNames.push(name);
+    else break;
+  }
+  return optionNames;
+}
+
+// Coluna "Collection": uma ou mais coleções separadas por vírgula ou ponto e vírgula.
+export function getCollectionNames(first: Record<string, string>): string[] {
+  return findColumn(first, "Collection")
+    .split(/[,;]/)
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+export function isLocationQtyColumn(header: string): boolean {
+  return header.toLowerCase().startsWith(LOCATION_QTY_PREFIX.toLowerCase()) &&
+    header.length > LOCATION_QTY_PREFIX.length;
+}
+
+// location null = location principal (coluna "Variant Inventory Qty").
+export function readInventoryQuantities(
+  row: Record<string, string>
+): { location: string | null; quantity: number }[] {
+  const quantities: { location: string | null; quantity: number }[] = [];
+  for (const [header, raw] of Object.entries(row)) {
+    const value = raw.trim();
+    if (!value) continue;
+    let location: string | null;
+    if (header.toLowerCase() === "variant inventory qty") location = null;
+    else if (isLocationQtyColumn(header)) location = header.slice(LOCATION_QTY_PREFIX.length).trim();
+    else continue;
+
+    const quantity = Number(normalizeDecimal(value));
+    if (Number.isInteger(quantity)) quantities.push({ location, quantity });
+  }
+  return quantities;
+}
+
+// Colunas "Product metafield: namespace.key [tipo]" / "Variant metafield: ...".
+// Valores inválidos ficam de fora; a validação do CSV reporta cada um por linha.
+function buildColumnMetafields(row: Record<string, string>, owner: MetafieldOwner): ProductMetafieldInput[] {
+  const metafields: ProductMetafieldInput[] = [];
+  for (const column of findMetafieldColumns(Object.keys(row))) {
+    if (column.owner !== owner) continue;
+    const raw = row[column.header] ?? "";
+    if (!raw.trim()) continue;
+    const result = normalizeMetafieldValue(column.type, raw);
+    if ("error" in result) continue;
+    metafields.push({ namespace: column.namespace, key: column.key, type: column.type, value: result.value });
+  }
+  return metafields;
+}
+
+export function isPublished(first: Record<string, string>): boolean {
+  return parseBoolean(findColumn(first, "Published")) !== false;
+}
+
+export function buildProductInput(
+  handle: string,
+  productRows: Record<string, string>[]
+): ProductImportInput {
+  const first = productRows[0];
+  const status = findColumn(first, "Status")?.trim().toLowerCase();
+
+  const input: ProductImportInput = {
+    handle,
+    title: findColumn(first, "Title") || handle,
+    descriptionHtml: findColumn(first, "Body (HTML)") || "",
+    vendor: findColumn(first, "Vendor") || "",
+    productType: findColumn(first, "Type") || "",
+    tags: findColumn(first, "Tags")
+      ? findColumn(first, "Tags").split(",").map((t: string) => t.trim()).filter(Boolean)
+      : [],
+    status: status === "active" ? "ACTIVE" : status === "archived" ? "ARCHIVED" : "DRAFT",
+  };
+
+  const giftCard = parseBoolean(findColumn(first, "Gift Card"));
+  if (giftCard !== undefined) input.giftCard = giftCard;
+
+  const seoTitle = findColumn(first, "SEO Title").trim();
+  const seoDescription = findColumn(first, "SEO Description").trim();
+  if (seoTitle || seoDescription) {
+    input.seo = {};
+    if (seoTitle) input.seo.title = seoTitle;
+    if (seoDescription) input.seo.description = seoDescription;
+  }
+
+  const metafields: ProductMetafieldInput[] = [];
+  for (const col of GOOGLE_SHOPPING_COLUMNS) {
+    const raw = findColumn(first, col.column).trim();
+    if (!raw) continue;
+    if (col.type === "boolean") {
+      const value = parseBoolean(raw);
+      if (value === undefined) continue;
+      metafields.push({ namespace: GOOGLE_SHOPPING_NAMESPACE, key: col.key, type: col.type, value: String(value) });
+    } else {
+      metafields.push({ namespace: GOOGLE_SHOPPING_NAMESPACE, key: col.key, type: col.type, value: raw });
+    }
+  }
+  metafields.push(...buildColumnMetafields(first, "PRODUCT"));
+  if (metafields.length > 0) input.metafields = metafields;
+
+  return input;
+}
+
+export function buildProductMedia(
+  handle: string,
+  productRows: Record<string, string>[]
+): ProductMediaInput[] {
+  const title = findColumn(productRows[0], "Title") || handle;
+  const media: ProductMediaInput[] = [];
+
+  for (const r of productRows) {
+    const src = findColumn(r, "Image Src")?.trim();
+    if (!src || media.some((m) => m.originalSource === src)) continue;
+    media.push({
+      originalSource: src,
+      mediaContentType: "IMAGE",
+      alt: findColumn(r, "Image Alt Text").trim() || title,
+    });
+  }
+  return media;
+}
+
+// "Variant Image" de cada linha de variante, na mesma ordem de buildVariants.
+export function buildVariantImages(productRows: Record<string, string>[]): (string | undefined)[] {
+  return getVariantRows(productRows).map((r) => findColumn(r, "Variant Image")?.trim() || undefined);
+}
+
+export function variantMediaAlt(
+  title: string,
+  optionValues: { name: string; optionName: string }[]
+): string {
+  const names = optionValues.filter((o) => o.optionName !== "Title").map((o) => o.name);
+  return names.length > 0 ? `${title} - ${names.join(" / ")}` : title;
+}
+
+function buildWeight(row: Record<string, string>): VariantInventoryItemInput["measurement"] | undefined {
+  const gramsRaw = findColumn(row, "Variant Grams").trim();
+  if (!gramsRaw) return undefined;
+  const grams = Number(normalizeDecimal(gramsRaw));
+  if (!Number.isFinite(grams) || grams <= 0) return undefined;
+
+  const unitKey = findColumn(row, "Variant Weight Unit").trim().toLowerCase();
+  const target = GRAMS_PER_UNIT[unitKey] || GRAMS_PER_UNIT.g;
+  const value = Math.round((grams / target.grams) * 1000) / 1000;
+  return { weight: { value, unit: target.unit } };
+}
+
+// Linhas que realmente representam variantes (têm opções ou preço).
+export function getVariantRows(productRows: Record<string, string>[]): Record<string, string>[] {
+  return productRows.filter((r) => {
+    const hasPrice = !!findColumn(r, "Variant Price")?.trim();
+    const hasOptions =
+      !!findColumn(r, "Option1 Value")?.trim() ||
+      !!findColumn(r, "Option2 Value")?.trim() ||
+      !!findColumn(r, "Option3 Value")?.trim();
+    return hasPrice || hasOptions;
+  });
+}
+
+// A ordem das locations da Admin API não é garantida: a principal é a marcada como tal ou,
+// numa loja com uma location só, essa.
+function primaryLocation(locations: InventoryLocation[]): InventoryLocation | undefined {
+  return locations.find((l) => l.isPrimary) || (locations.length === 1 ? locations[0] : undefined);
+}
+
+function buildInventoryQuantities(
+  row: Record<string, string>,
+  locations: InventoryLocation[],
+  reportInventoryIssue: (message: string) => void
+): VariantImportInput["inventoryQuantities"] {
+  if (locations.length === 0) return undefined;
+  const byLocation = new Map<string, number>();
+  for (const { location, quantity } of readInventoryQuantities(row)) {
+    if (location === null) {
+      const primary = primaryLocation(locations);
+      if (primary) {
+        byLocation.set(primary.id, quantity);
+      } else {
+        reportInventoryIssue(
+          `A loja não tem location principal; "Variant Inventory Qty" ignorada (use as colunas "${LOCATION_QTY_PREFIX}<location>")`
+        );
+      }
+      continue;
+    }
+    const target = locations.find((l) => l.name.trim().toLowerCase() === location.toLowerCase());
+    if (target) {
+      byLocation.set(target.id, quantity);
+    } else {
+      reportInventoryIssue(`Location "${location}" não existe na loja; estoque ignorado`);
+    }
+  }
+  if (byLocation.size === 0) return undefined;
+  return Array.from(byLocation, ([locationId, availableQuantity]) => ({ locationId, availableQuantity }));
+}
+
+// Sem locations (ex: preview) o estoque não é montado. Estoque que não tem para onde ir
+// (location desconhecida, loja sem principal) é ignorado e avisado por reportInventoryIssue.
+export function buildVariants(
+  productRows: Record<string, string>[],
+  locations: InventoryLocation[] = [],
+  reportInventoryIssue: (message: string) => void = () => {}
+): VariantImportInput[] {
+  const first = productRows[0];
+
+  // Nomes das opções (ex: Color, Size)
+  const optionNames = getOptionNames(first);
+
+  // Preço base: usado como fallback para linhas de variante sem preço
+  const basePriceRaw =
+    findColumn(first, "Variant Price").trim() ||
+    productRows
+      .map((r) => findColumn(r, "Variant Price").trim())
+      .find((v) => v) ||
+    "0.00";
+  const basePrice = normalizeDecimal(basePriceRaw);
+
+  const variantRows = getVariantRows(productRows);
+
+  if (variantRows.length === 0) {
+    console.error(
+      `[step2] buildVariants: nenhuma linha de variante encontrada para "${findColumn(
+        first,
+        "Handle"
+      )}". Keys: ${Object.keys(first).join(", ")}`
+    );
+    return [
+      {
+        price: basePrice,
+        optionValues: [{ name: "Default Title", optionName: "Title" }],
+      },
+    ];
+  }
+
+  return variantRows.map((r) => {
+    const rawPrice = findColumn(r, "Variant Price").trim() || basePrice;
+
+    const variant: VariantImportInput = {
+      price: normalizeDecimal(rawPrice),
+      optionValues: [],
+    };
+
+    const compareAt = findColumn(r, "Variant Compare At Price")?.trim();
+    if (compareAt) {
+      variant.compareAtPrice = normalizeDecimal(compareAt);
+    }
+
+    const barcode = findColumn(r, "Variant Barcode")?.trim();
+    if (barcode) variant.barcode = barcode;
+
+    const taxable = parseBoolean(findColumn(r, "Variant Taxable"));
+    if (taxable !== undefined) variant.taxable = taxable;
+
+    const taxCode = findColumn(r, "Variant Tax Code")?.trim();
+    if (taxCode) variant.taxCode = taxCode;
+
+    const policy = findColumn(r, "Variant Inventory Policy")?.trim().toLowerCase();
+    if (policy === "continue") variant.inventoryPolicy = "CONTINUE";
+    else if (policy === "deny") variant.inventoryPolicy = "DENY";
+
+    const inventoryItem: VariantInventoryItemInput = {};
+
+    const sku = findColumn(r, "Variant SKU")?.trim();
+    if (sku) inventoryItem.sku = sku;
+
+    // "shopify" (ou qualquer serviço) rastreia; vazio rastreia só quando há quantidade informada.
+    const tracker = findColumn(r, "Variant Inventory Tracker")?.trim();
+    const hasTrackerColumn = Object.keys(r).some((k) => k.toLowerCase() === "variant inventory tracker");
+    const quantities = buildInventoryQuantities(r, locations, reportInventoryIssue);
+    if (tracker || quantities) inventoryItem.tracked = true;
+    else if (hasTrackerColumn) inventoryItem.tracked = false;
+    if (quantities) variant.inventoryQuantities = quantities;
+
+    const cost = findColumn(r, "Cost per item")?.trim();
+    if (cost) inventoryItem.cost = normalizeDecimal(cost);
+
+    const requiresShipping = parseBoolean(findColumn(r, "Variant Requires Shipping"));
+    if (requiresShipping !== undefined) inventoryItem.requiresShipping = requiresShipping;
+
+    const measurement = buildWeight(r);
+    if (measurement) inventoryItem.measurement = measurement;
+
+    if (Object.keys(inventoryItem).length > 0) variant.inventoryItem = inventoryItem;
+
+    const metafields = buildColumnMetafields(r, "PRODUCTVARIANT");
+    if (metafields.length > 0) variant.metafields = metafields;
+
+    const optionValues: { name: string; optionName: string }[] = [];
+    for (let i = 0; i < optionNames.length; i++) {
+      const value = findColumn(r, `Option${i + 1} Value`)?.trim();
+      if (value) {
+        optionValues.push({ name: value, optionName: optionNames[i] });
+      }
+    }
+
+    if (optionValues.length === 0) {
+      optionValues.push({ name: "Default Title", optionName: "Title" });
+    }
+
+    variant.optionValues = optionValues;
+    return variant;
+  });
+}
@@ -0,0 +1,103 @@
+import type {
+  ProductImportInput,
+  ProductMediaInput,
+  ProductMetafieldInput,
+  VariantImportInput,
+  VariantInventoryItemInput,
+} from "@/lib/product-mapper";
+
+// Formato do ProductSetInput da Admin API, usado pelo modo bulk (uma linha do JSONL por produto).
+export interface ProductSetFileInput {
+  originalSource: string;
+  contentType: "IMAGE";
+  alt: string;
+}
+
+export interface ProductSetVariantInput {
+  optionValues: { optionName: string; name: string }[];
+  price: string;
+  compareAtPrice?: string;
+  barcode?: string;
+  taxable?: boolean;
+  taxCode?: string;
+  inventoryPolicy?: "DENY" | "CONTINUE";
+  inventoryItem?: VariantInventoryItemInput;
+  inventoryQuantities?: { locationId: string; name: "available"; quantity: number }[];
+  metafields?: ProductMetafieldInput[];
+  file?: ProductSetFileInput;
+}
+
+export interface ProductSetInput extends ProductImportInput {
+  productOptions: { name: string; position: number; values: { name: string }[] }[];
+  variants: ProductSetVariantInput[];
+  files?: ProductSetFileInput[];
+}
+
+function toFileInput(media: ProductMediaInput): ProductSetFileInput {
+  return { originalSource: media.originalSource, contentType: "IMAGE", alt: media.alt };
+}
+
+// productSet exige as opções com todos os valores usados pelas variantes. A imagem de
+// variante vai no próprio variant.file (a Shopify também a associa ao produto), então
+// sai da lista de files para não duplicar a mídia.
+export function buildProductSetInput(
+  input: ProductImportInput,
+  variants: VariantImportInput[],
+  media: ProductMediaInput[],
+  variantImages: (string | undefined)[],
+  variantMediaAlt: (variant: VariantImportInput) => string
+): ProductSetInput {
+  const optionValues = new Map<string, string[]>();
+  for (const variant of variants) {
+    for (const { optionName, name } of variant.optionValues) {
+      const values = optionValues.get(optionName) || [];
+      if (!values.includes(name)) values.push(name);
+      optionValues.set(optionName, values);
+    }
+  }
+
+  const variantSources = new Set(variantImages.filter((src): src is string => !!src));
+
+  const setVariants = variants.map((variant, i): ProductSetVariantInput => {
+    const setVariant: ProductSetVariantInput = {
+      optionValues: variant.optionValues.map((o) => ({ optionName: o.optionName, name: o.name })),
+      price: variant.price,
+    };
+    if (variant.compareAtPrice) setVariant.compareAtPrice = variant.compareAtPrice;
+    if (variant.barcode) setVariant.barcode = variant.barcode;
+    if (variant.taxable !== undefined) setVariant.taxable = variant.taxable;
+    if (variant.taxCode) setVariant.taxCode = variant.taxCode;
+    if (variant.inventoryPolicy) setVariant.inventoryPolicy = variant.inventoryPolicy;
+    if (variant.inventoryItem) setVariant.inventoryItem = variant.inventoryItem;
+    if (variant.inventoryQuantities) {
+      setVariant.inventoryQuantities = variant.inventoryQuantities.map((q) => ({
+        locationId: q.locationId,
+        name: "available",
+        quantity: q.availableQuantity,
+      }));
+    }
+    if (variant.metafields) setVariant.metafields = variant.metafields;
+
+    const src = variantImages[i];
+    if (src) {
+      const productMedia = media.find((m) => m.originalSource === src);
+      setVariant.file = productMedia
+        ? toFileInput(productMedia)
+        : { originalSource: src, contentType: "IMAGE", alt: variantMediaAlt(variant) };
+    }
+    return setVariant;
+  });
+
+  const files = media.filter((m) => !variantSources.has(m.originalSource)).map(toFileInput);
+
+  return {
+    ...input,
+    productOptions: Array.from(optionValues, ([name, values], index) => ({
+      name,
+      position: index + 1,
+      values: values.map((value) => ({ name: value })),
+    })),
+    variants: setVariants,
+    ...(files.length > 0 ? { files } : {}),
+  };
+}
@@ -0,0 +1,114 @@
+// Checagem em tempo de execução das respostas da Admin API. O tipo de cada resposta sai do
+// próprio shape (Infer), então o que é conferido e o que o TypeScript enxerga não divergem:
+// um campo que muda na API quebra aqui com o caminho, e não como undefined mais adiante.
+
+export class ShopifyResponseShapeError extends Error {
+  constructor(
+    public operation: string,
+    public path: string,
+    expected: string,
+    received: unknown
+  ) {
+    super(`Resposta inesperada de ${operation}: ${path} deveria ser ${expected}, veio ${describe(received)}`);
+    this.name = "ShopifyResponseShapeError";
+  }
+}
+
+type Fail = (path: string, expected: string, received: unknown) => never;
+
+export interface Shape<T> {
+  parse(value: unknown, path: string, fail: Fail): T;
+}
+
+export type Infer<S> = S extends Shape<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined (campo ausente)";
+  if (Array.isArray(value)) return "lista";
+  return typeof value;
+}
+
+function primitive<T>(expected: "string" | "number" | "boolean"): Shape<T> {
+  return {
+    parse(value, path, fail) {
+      if (typeof value !== expected) fail(path, expected, value);
+      return value as T;
+    },
+  };
+}
+
+export const string = primitive<string>("string");
+export const number = primitive<number>("number");
+export const boolean = primitive<boolean>("boolean");
+
+export function enumOf<T extends string>(...values: T[]): Shape<T> {
+  return {
+    parse(value, path, fail) {
+      if (!values.includes(value as T)) fail(path, values.join(" | "), value);
+      return value as T;
+    },
+  };
+}
+
+// Enum com muitos valores ou que cresce a cada versão da API: confere só que é string e
+// assume o tipo gerado pelo codegen, para um valor novo não derrubar a resposta inteira.
+export function schemaEnum<T extends string>(): Shape<T> {
+  return primitive<T>("string");
+}
+
+// Campo anulável no schema: aceita null, mas não a ausência do campo.
+export function nullable<T>(shape: Shape<T>): Shape<T | null> {
+  return {
+    parse: (value, path, fail) => (value === null ? null : shape.parse(value, path, fail)),
+  };
+}
+
+// Campo que só existe em alguns tipos (fragmento `... on X`).
+export function optional<T>(shape: Shape<T>): Shape<T | undefined> {
+  return {
+    parse: (value, path, fail) => (value === undefined ? undefined : shape.parse(value, path, fail)),
+  };
+}
+
+// Nó cujos campos vêm todos de um fragmento `... on X`: nós de outros tipos chegam como {}.
+export function fragment<T>(shape: Shape<T>): Shape<T | Record<string, never>> {
+  return {
+    parse(value, path, fail) {
+      if (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length === 0) {
+        return {};
+      }
+      return shape.parse(value, path, fail);
+    },
+  };
+}
+
+export function array<T>(shape: Shape<T>): Shape<T[]> {
+  return {
+    parse(value, path, fail) {
+      if (!Array.isArray(value)) fail(path, "lista", value);
+      return (value as unknown[]).map((item, i) => shape.parse(item, `${path}[${i}]`, fail));
+    },
+  };
+}
+
+// Confere só os campos declarados; os demais campos da resposta são descartados.
+export function object<P extends Record<string, Shape<unknown>>>(props: P): Shape<{ [K in keyof P]: Infer<P[K]> }> {
+  return {
+    parse(value, path, fail) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "objeto", value);
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(props)) {
+        result[key] = props[key].parse(source[key], `${path}.${key}`, fail);
+      }
+      return result as { [K in keyof P]: Infer<P[K]> };
+    },
+  };
+}
+
+export function parseResponse<T>(shape: Shape<T>, data: unknown, operation: string): T {
+  return shape.parse(data, "data", (path, expected, received) => {
+    throw new ShopifyResponseShapeError(operation, path, expected, received);
+  });
+}
@@ -1,38 +1,154 @@
 const SHOPIFY_API_VERSION = "2026-01";
 
+// Requisições simultâneas por loja; o limite real de vazão é o balde de pontos abaixo.
+const DEFAULT_MAX_CONCURRENCY = 4;
+// Custo assumido para uma query até a Shopify informar o requestedQueryCost dela.
+const DEFAULT_QUERY_COST = 50;
+
+// Base da Admin API; SHOPIFY_ADMIN_BASE_URL aponta as rotas para um servidor local
+// (a API simulada dos testes, por exemplo) no lugar de https://<loja>.
+export function adminBaseUrl(shop: string): string {
+  return (process.env.SHOPIFY_ADMIN_BASE_URL || `https://${shop}`).replace(/\/+$/, "");
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+type GraphQLErrorDetail = { message: string; extensions?: Record<string, unknown> };
+
+// Corpo da resposta do endpoint GraphQL; `data` é conferido por quem chama.
+interface GraphQLResponseBody {
+  data?: unknown;
+  errors?: GraphQLErrorDetail[];
+  extensions?: {
+    cost?: {
+      requestedQueryCost?: number;
+      actualQueryCost?: number | null;
+      throttleStatus?: ThrottleStatus;
+    };
+  };
+}
+
+// Modelo local do leaky bucket da Admin API: cada query reserva o custo estimado antes de
+// sair e o saldo é corrigido com o throttleStatus devolvido em extensions.cost.
+class CostBucket {
+  private maximumAvailable = 1000;
+  private available = 1000;
+  private restoreRate = 50;
+  private updatedAt = Date.now();
+  private reserved = 0;
+  private active = 0;
+  private slotWaiters: (() => void)[] = [];
+
+  constructor(private maxConcurrency: number) {}
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(
+      this.maximumAvailable,
+      this.available + ((now - this.updatedAt) / 1000) * this.restoreRate
+    );
+    this.updatedAt = now;
+  }
+
+  // Tempo até haver pontos para a query, pelo modelo local.
+  waitMs(cost: number): number {
+    this.refill();
+    const missing = Math.min(cost, this.maximumAvailable) - this.available;
+    return missing > 0 ? Math.ceil((missing / this.restoreRate) * 1000) : 0;
+  }
+
+  async acquire(cost: number): Promise<number> {
+    while (this.active >= this.maxConcurrency) {
+      await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+    }
+    this.active++;
+
+    const reservation = Math.min(cost, this.maximumAvailable);
+    for (let wait = this.waitMs(reservation); wait > 0; wait = this.waitMs(reservation)) {
+      await new Promise((r) => setTimeout(r, wait));
+    }
+    this.available -= reservation;
+    this.reserved += reservation;
+    return reservation;
+  }
+
+  release(reservation: number, status?: ThrottleStatus) {
+    this.reserved -= reservation;
+    if (status) {
+      // O saldo da Shopify ainda não desconta as queries que estão em voo.
+      this.maximumAvailable = status.maximumAvailable;
+      this.restoreRate = status.restoreRate;
+      this.available = status.currentlyAvailable - this.reserved;
+      this.updatedAt = Date.now();
+    }
+    this.active--;
+    this.slotWaiters.shift()?.();
+  }
+}
+
+const buckets = new Map<string, CostBucket>();
+const queryCosts = new Map<string, number>();
+
 export class ShopifyClient {
   private shop: string;
   private accessToken: string;
+  readonly maxConcurrency: number;
 
-  constructor(shop: string, accessToken: string) {
+  constructor(shop: string, accessToken: string, maxConcurrency = DEFAULT_MAX_CONCURRENCY) {
     this.shop = shop;
     this.accessToken = accessToken;
+    this.maxConcurrency = maxConcurrency;
+  }
+
+  // O balde é por loja e compartilhado entre clientes (e rotas) da mesma loja.
+  private get bucket(): CostBucket {
+    let bucket = buckets.get(this.shop);
+    if (!bucket) {
+      bucket = new CostBucket(this.maxConcurrency);
+      buckets.set(this.shop, bucket);
+    }
+    return bucket;
   }
 
   async graphql<T = Record<string, unknown>>(
     query: string,
     variables?: Record<string, unknown>
   ): Promise<T> {
-    const res = await fetch(
-      `https://${this.shop}/admin/api/${SHOPIFY_API_VERSION}/graphql.json`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Shopify-Access-Token": this.accessToken,
-        },
-        body: JSON.stringify({ query, variables }),
+    const bucket = this.bucket;
+    const reservation = await bucket.acquire(queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+    let status: ThrottleStatus | undefined;
+    let json: GraphQLResponseBody;
+    try {
+      const res = await fetch(
+        `${adminBaseUrl(this.shop)}/admin/api/${SHOPIFY_API_VERSION}/graphql.json`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Shopify-Access-Token": this.accessToken,
+          },
+          body: JSON.stringify({ query, variables }),
+        }
+      );
+
+      if (!res.ok) {
+        throw new Error(
+          `Shopify GraphQL request failed: ${res.status} ${res.statusText}`
+        );
       }
-    );
 
-    if (!res.ok) {
-      throw new Error(
-        `Shopify GraphQL request failed: ${res.status} ${res.statusText}`
-      );
+      json = (await res.json()) as GraphQLResponseBody;
+      const cost = json.extensions?.cost;
+      if (cost?.throttleStatus) status = cost.throttleStatus;
+      if (typeof cost?.requestedQueryCost === "number") queryCosts.set(query, cost.requestedQueryCost);
+    } finally {
+      bucket.release(reservation, status);
     }
 
-    const json = await res.json();
-
     if (json.errors) {
       throw new ShopifyGraphQLError(json.errors);
     }
@@ -54,7 +170,9 @@ export class ShopifyClient {
         const hasRetriesLeft = attempt < maxRetries - 1;
 
         if (isThrottled && hasRetriesLeft) {
-          const backoffMs = Math.pow(2, attempt) * 1000;
+          // Espera o balde recuperar o custo da query; sem throttleStatus, backoff exponencial.
+          const backoffMs =
+            this.bucket.waitMs(queryCosts.get(query) ?? DEFAULT_QUERY_COST) || Math.pow(2, attempt) * 1000;
           await new Promise((r) => setTimeout(r, backoffMs));
           continue;
         }
@@ -67,11 +185,9 @@ export class ShopifyClient {
 }
 
 export class ShopifyGraphQLError extends Error {
-  public errors: Array<{ message: string; extensions?: Record<string, unknown> }>;
+  public errors: GraphQLErrorDetail[];
 
-  constructor(
-    errors: Array<{ message: string; extensions?: Record<string, unknown> }>
-  ) {
+  constructor(errors: GraphQLErrorDetail[]) {
     const messages = errors.map((e) => e.message).join("; ");
     super(`Shopify GraphQL errors: ${messages}`);
     this.name = "ShopifyGraphQLError";
@@ -84,3 +200,52 @@ export class ShopifyGraphQLError extends Error {
     );
   }
 }
+
+// Executa fn com no máximo `limit` itens em andamento, consumindo o iterável sob demanda
+// (o CSV do step2 chega em streaming). O primeiro erro (de uma tarefa ou do próprio
+// iterável) interrompe o consumo e só é relançado depois que as tarefas em andamento
+// terminam. Com o signal abortado o consumo para do mesmo jeito, sem erro.
+export async function forEachConcurrent<T>(
+  items: Iterable<T> | AsyncIterable<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const running = new Set<Promise<void>>();
+  let failure: { error: unknown } | null = null;
+  let index = 0;
+
+  try {
+    for await (const item of items) {
+      if (failure || signal?.aborted) break;
+      const current = index++;
+      // then() leva também um throw síncrono de fn para a rejeição da tarefa.
+      const task: Promise<void> = Promise.resolve()
+        .then(() => fn(item, current))
+        .catch((error) => {
+          failure ??= { error };
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+      if (running.size >= limit) await Promise.race(running);
+    }
+  } catch (error) {
+    failure ??= { error };
+  }
+
+  await Promise.allSettled(Array.from(running));
+  if (failure) throw (failure as { error: unknown }).error;
+}
+
+// Como Promise.all(items.map(fn)), mas com concorrência limitada e resultados na ordem original.
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  await forEachConcurrent(items, limit, async (item, index) => {
+    results[index] = await fn(item, index);
+  });
+  return results;
+}
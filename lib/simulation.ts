@@ -0,0 +1,286 @@
+import { ShopifyClient } from "@/lib/shopify";
+import type { PlannedChange, SimulationReport } from "@/types/onboarding";
+
+// Simulação do pipeline inteiro: as queries vão para a loja normalmente, as mutations são
+// registradas no plano e respondidas com um payload sintético para a etapa seguir adiante.
+
+// Header enviado pela página em cada etapa quando o onboarding roda em modo simulação.
+export const SIMULATION_HEADER = "x-onboarding-simulate";
+
+type Variables = Record<string, unknown>;
+
+// As variáveis chegam como a rota montou; cada leitura confere o tipo e cai num vazio se não bater.
+function isVariables(value: unknown): value is Variables {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nested(v: Variables, key: string): Variables {
+  const value = v[key];
+  return isVariables(value) ? value : {};
+}
+
+function list(v: Variables, key: string): Variables[] {
+  const value = v[key];
+  return Array.isArray(value) ? value.filter(isVariables) : [];
+}
+
+function text(v: Variables, key: string): string {
+  const value = v[key];
+  return typeof value === "string" ? value : "";
+}
+
+interface SimulatedMutation {
+  // Sem plan, a mutation é auxiliar (opções, variantes, publicação) e só entra na contagem.
+  plan?: {
+    action: PlannedChange["action"];
+    resource: PlannedChange["resource"];
+    target: (v: Variables) => string;
+    detail?: (v: Variables) => string;
+    // Mudanças num recurso que a própria simulação criou fazem parte da criação.
+    when?: (v: Variables) => boolean;
+  };
+  payload: (v: Variables, newId: (type: string) => string) => Record<string, unknown>;
+}
+
+const SIMULATED_UPLOAD_URL = "https://simulacao.invalid/staged-uploads";
+
+const MUTATIONS: Record<string, SimulatedMutation> = {
+  productCreate: {
+    plan: {
+      action: "create",
+      resource: "product",
+      target: (v) => text(nested(v, "input"), "handle") || text(nested(v, "input"), "title"),
+    },
+    // Sem mídia no retorno: imagens de variante seguem por mediaSrc, sem polling do produto.
+    payload: (v, newId) => ({
+      product: {
+        id: newId("Product"),
+        handle: text(nested(v, "input"), "handle"),
+        variants: { edges: [] },
+        media: { nodes: [] },
+      },
+    }),
+  },
+  productUpdate: {
+    plan: {
+      action: "update",
+      resource: "product",
+      target: (v) => {
+        const product = nested(v, "product");
+        return text(product, "handle") || text(product, "title") || text(product, "id");
+      },
+      detail: (v) => Object.keys(nested(v, "product")).filter((k) => k !== "id").concat(v.media ? ["media"] : []).join(", "),
+    },
+    payload: (v) => ({ product: { id: text(nested(v, "product"), "id") } }),
+  },
+  productOptionsCreate: { payload: (v) => ({ product: { id: text(v, "productId") } }) },
+  productVariantsBulkCreate: {
+    plan: {
+      action: "update",
+      resource: "product",
+      target: (v) => text(v, "productId"),
+      detail: (v) => `+${list(v, "variants").length} variante(s)`,
+      when: (v) => !isSimulatedId(text(v, "productId")),
+    },
+    payload: (v, newId) => ({
+      productVariants: list(v, "variants").map((variant) => ({
+        id: newId("ProductVariant"),
+        title: list(variant, "optionValues").map((o) => text(o, "name")).join(" / "),
+        price: text(variant, "price"),
+      })),
+    }),
+  },
+  productVariantsBulkUpdate: {
+    plan: {
+      action: "update",
+      resource: "product",
+      target: (v) => text(v, "productId"),
+      detail: (v) => `${list(v, "variants").length} variante(s) alterada(s)`,
+      when: (v) => !isSimulatedId(text(v, "productId")),
+    },
+    payload: (v) => ({ productVariants: list(v, "variants").map((variant) => ({ id: text(variant, "id") })) }),
+  },
+  productVariantAppendMedia: { payload: (v) => ({ product: { id: text(v, "productId") } }) },
+  publishablePublish: { payload: () => ({ publishable: null }) },
+  metafieldDefinitionCreate: {
+    plan: {
+      action: "create",
+      resource: "metafield_definition",
+      target: (v) => `${text(nested(v, "definition"), "namespace")}.${text(nested(v, "definition"), "key")}`,
+      detail: (v) => text(nested(v, "definition"), "ownerType"),
+    },
+    payload: (_v, newId) => ({ createdDefinition: { id: newId("MetafieldDefinition") } }),
+  },
+  collectionCreate: {
+    plan: {
+      action: "create",
+      resource: "collection",
+      target: (v) => text(nested(v, "input"), "handle") || text(nested(v, "input"), "title"),
+    },
+    payload: (v, newId) => {
+      const input = nested(v, "input");
+      return {
+        collection: {
+          id: newId("Collection"),
+          handle: text(input, "handle"),
+          title: text(input, "title"),
+          ruleSet: isVariables(input.ruleSet) ? { appliedDisjunctively: !!input.ruleSet.appliedDisjunctively } : null,
+        },
+      };
+    },
+  },
+  collectionAddProducts: {
+    plan: {
+      action: "update",
+      resource: "collection",
+      target: (v) => text(v, "id"),
+      detail: (v) => `+${Array.isArray(v.productIds) ? v.productIds.length : 0} produto(s)`,
+    },
+    payload: (v) => ({ collection: { id: text(v, "id") } }),
+  },
+  collectionUpdate: {
+    plan: {
+      action: "update",
+      resource: "collection",
+      target: (v) => text(nested(v, "input"), "id"),
+      detail: (v) => Object.keys(nested(v, "input")).filter((k) => k !== "id").join(", "),
+    },
+    payload: (v) => ({ collection: { id: text(nested(v, "input"), "id") } }),
+  },
+  stagedUploadsCreate: {
+    payload: (v) => ({
+      stagedTargets: list(v, "input").map((upload) => ({
+        url: SIMULATED_UPLOAD_URL,
+        resourceUrl: `${SIMULATED_UPLOAD_URL}/${text(upload, "filename")}`,
+        parameters: [],
+      })),
+    }),
+  },
+  fileCreate: {
+    plan: {
+      action: "create",
+      resource: "file",
+      target: (v) => list(v, "files").map((f) => text(f, "alt") || text(f, "originalSource")).join(", "),
+    },
+    // Já READY: o step7 não faz polling de um arquivo que não existe.
+    payload: (v, newId) => ({
+      files: list(v, "files").map((f) => ({
+        id: newId("MediaImage"),
+        alt: text(f, "alt"),
+        fileStatus: "READY",
+        image: { url: text(f, "originalSource") },
+      })),
+    }),
+  },
+  themeCreate: {
+    plan: { action: "create", resource: "theme", target: (v) => text(v, "name"), detail: (v) => text(v, "role") },
+    payload: (v, newId) => ({ theme: { id: newId("OnlineStoreTheme"), name: text(v, "name"), processing: false } }),
+  },
+  themeFilesUpsert: {
+    plan: {
+      action: "overwrite",
+      resource: "theme_file",
+      target: (v) => list(v, "files").map((f) => text(f, "filename")).join(", "),
+      detail: (v) => `tema ${text(v, "themeId")}`,
+    },
+    payload: (v) => ({ upsertedThemeFiles: list(v, "files").map((f) => ({ filename: text(f, "filename") })) }),
+  },
+  themePublish: {
+    plan: { action: "overwrite", resource: "theme", target: (v) => text(v, "id"), detail: () => "vira o tema principal (MAIN)" },
+    payload: (v) => ({ theme: { id: text(v, "id"), role: "MAIN" } }),
+  },
+  pageCreate: {
+    plan: { action: "create", resource: "page", target: (v) => text(nested(v, "page"), "handle") },
+    payload: (v, newId) => {
+      const page = nested(v, "page");
+      return { page: { id: newId("Page"), title: text(page, "title"), handle: text(page, "handle") } };
+    },
+  },
+  menuCreate: {
+    plan: { action: "create", resource: "menu", target: (v) => text(v, "handle"), detail: (v) => `${list(v, "items").length} itens` },
+    payload: (_v, newId) => ({ menu: { id: newId("Menu") } }),
+  },
+  menuUpdate: {
+    plan: { action: "overwrite", resource: "menu", target: (v) => text(v, "title"), detail: (v) => `${list(v, "items").length} itens` },
+    payload: (v) => ({ menu: { id: text(v, "id") } }),
+  },
+};
+
+const MUTATION_FIELD = /^\s*mutation\b[^{]*\{\s*(\w+)/;
+
+// IDs sintéticos carregam a etapa que os criou; as etapas seguintes os recebem da página.
+export function isSimulatedId(id: string): boolean {
+  return /\/simulated-\d+-\d+$/.test(id);
+}
+
+class MutationRecorder {
+  readonly plan: PlannedChange[] = [];
+  readonly mutations: Record<string, number> = {};
+  private nextId = 0;
+
+  constructor(private step: number) {}
+
+  record(field: string, variables: Variables): Record<string, unknown> {
+    const mutation = MUTATIONS[field];
+    if (!mutation) throw new Error(`Mutation ${field} sem resposta simulada.`);
+
+    this.mutations[field] = (this.mutations[field] || 0) + 1;
+    if (mutation.plan && (mutation.plan.when?.(variables) ?? true)) {
+      this.plan.push({
+        step: this.step,
+        action: mutation.plan.action,
+        resource: mutation.plan.resource,
+        target: mutation.plan.target(variables),
+        detail: mutation.plan.detail?.(variables) || undefined,
+        mutation: field,
+      });
+    }
+    const newId = (type: string) => `gid://shopify/${type}/simulated-${this.step}-${++this.nextId}`;
+    return { ...mutation.payload(variables, newId), userErrors: [] };
+  }
+}
+
+class SimulatedShopifyClient extends ShopifyClient {
+  constructor(shop: string, accessToken: string, private recorder: MutationRecorder) {
+    super(shop, accessToken);
+  }
+
+  async graphql<T = Record<string, unknown>>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const field = MUTATION_FIELD.exec(query)?.[1];
+    if (!field) return super.graphql<T>(query, variables);
+    return { [field]: this.recorder.record(field, variables || {}) } as T;
+  }
+}
+
+export interface Simulation {
+  active: boolean;
+  client(shop: string, accessToken: string): ShopifyClient;
+  // Plano da etapa para a resposta; undefined fora da simulação.
+  report(): SimulationReport | undefined;
+}
+
+export function isSimulated(client: ShopifyClient): boolean {
+  return client instanceof SimulatedShopifyClient;
+}
+
+export function isSimulationRequest(request: Request): boolean {
+  return request.headers.get(SIMULATION_HEADER) === "1";
+}
+
+// Simulação da requisição de uma etapa. Sem o header, o client é o ShopifyClient normal.
+export function openSimulation(request: Request, step: number): Simulation {
+  if (!isSimulationRequest(request)) {
+    return {
+      active: false,
+      client: (shop, accessToken) => new ShopifyClient(shop, accessToken),
+      report: () => undefined,
+    };
+  }
+
+  const recorder = new MutationRecorder(step);
+  return {
+    active: true,
+    client: (shop, accessToken) => new SimulatedShopifyClient(shop, accessToken, recorder),
+    report: () => ({ plan: recorder.plan, mutations: recorder.mutations }),
+  };
+}
@@ -0,0 +1,109 @@
+export type SmartCollectionColumn =
+  | "TAG"
+  | "TITLE"
+  | "TYPE"
+  | "VENDOR"
+  | "VARIANT_PRICE"
+  | "VARIANT_COMPARE_AT_PRICE"
+  | "VARIANT_INVENTORY"
+  | "VARIANT_TITLE"
+  | "IS_PRICE_REDUCED";
+
+export type SmartCollectionRelation =
+  | "EQUALS"
+  | "NOT_EQUALS"
+  | "GREATER_THAN"
+  | "LESS_THAN"
+  | "STARTS_WITH"
+  | "ENDS_WITH"
+  | "CONTAINS"
+  | "NOT_CONTAINS"
+  | "IS_SET"
+  | "IS_NOT_SET";
+
+export interface SmartCollectionRule {
+  column: SmartCollectionColumn;
+  relation: SmartCollectionRelation;
+  condition: string;
+}
+
+// Formato do CollectionRuleSetInput da Admin API.
+export interface SmartCollectionRuleSet {
+  appliedDisjunctively: boolean;
+  rules: SmartCollectionRule[];
+}
+
+export interface CollectionRequest {
+  name: string;
+  ruleSet?: SmartCollectionRuleSet;
+}
+
+const TEXT_RELATIONS: SmartCollectionRelation[] = [
+  "EQUALS", "NOT_EQUALS", "STARTS_WITH", "ENDS_WITH", "CONTAINS", "NOT_CONTAINS",
+];
+const NUMBER_RELATIONS: SmartCollectionRelation[] = ["EQUALS", "NOT_EQUALS", "GREATER_THAN", "LESS_THAN"];
+
+// Relações aceitas pela Shopify para cada coluna.
+export const SMART_COLLECTION_RELATIONS: Record<SmartCollectionColumn, SmartCollectionRelation[]> = {
+  TAG: ["EQUALS"],
+  TITLE: TEXT_RELATIONS,
+  TYPE: TEXT_RELATIONS,
+  VENDOR: TEXT_RELATIONS,
+  VARIANT_TITLE: TEXT_RELATIONS,
+  VARIANT_PRICE: NUMBER_RELATIONS,
+  VARIANT_INVENTORY: NUMBER_RELATIONS,
+  VARIANT_COMPARE_AT_PRICE: [...NUMBER_RELATIONS, "IS_SET", "IS_NOT_SET"],
+  IS_PRICE_REDUCED: ["IS_SET", "IS_NOT_SET"],
+};
+
+const NUMERIC_COLUMNS = new Set<SmartCollectionColumn>(["VARIANT_PRICE", "VARIANT_INVENTORY", "VARIANT_COMPARE_AT_PRICE"]);
+
+const PRESENCE_RELATIONS = new Set<SmartCollectionRelation>(["IS_SET", "IS_NOT_SET"]);
+
+function parseRule(raw: unknown): SmartCollectionRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { column, relation, condition } = raw as Record<string, unknown>;
+  const relations = SMART_COLLECTION_RELATIONS[column as SmartCollectionColumn];
+  if (!relations || !relations.includes(relation as SmartCollectionRelation)) return null;
+
+  const col = column as SmartCollectionColumn;
+  const rel = relation as SmartCollectionRelation;
+  // IS_SET/IS_NOT_SET ignoram a condição, mas a API exige o campo.
+  if (PRESENCE_RELATIONS.has(rel)) return { column: col, relation: rel, condition: "" };
+
+  let value = typeof condition === "number" ? String(condition) : typeof condition === "string" ? condition.trim() : "";
+  if (!value) return null;
+  if (NUMERIC_COLUMNS.has(col)) {
+    value = value.replace(",", ".");
+    if (!Number.isFinite(Number(value))) return null;
+  }
+  return { column: col, relation: rel, condition: value };
+}
+
+export function parseSmartRuleSet(raw: unknown): SmartCollectionRuleSet | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { appliedDisjunctively, rules } = raw as Record<string, unknown>;
+  if (!Array.isArray(rules)) return undefined;
+
+  const parsed = rules.map(parseRule).filter((r): r is SmartCollectionRule => r !== null);
+  if (parsed.length === 0) return undefined;
+  return { appliedDisjunctively: appliedDisjunctively === true, rules: parsed };
+}
+
+// Aceita o formato antigo (lista de nomes) e objetos { name, ruleSet }.
+export function parseCollectionRequests(raw: unknown): CollectionRequest[] {
+  if (!Array.isArray(raw)) return [];
+  const requests: CollectionRequest[] = [];
+  for (const item of raw) {
+    if (typeof item === "string") {
+      if (item.trim()) requests.push({ name: item.trim() });
+      continue;
+    }
+    if (!item || typeof item !== "object") continue;
+    const { name, ruleSet } = item as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim()) continue;
+    const parsed = parseSmartRuleSet(ruleSet);
+    requests.push(parsed ? { name: name.trim(), ruleSet: parsed } : { name: name.trim() });
+  }
+  return requests;
+}
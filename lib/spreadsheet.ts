@@ -0,0 +1,75 @@
+// O "xlsx" do npm parou na 0.18.5, com falhas de segurança conhecidas; a versão corrigida da
+// SheetJS (0.20.3) vem do espelho @e965/xlsx no registry, por alias no package.json.
+import * as XLSX from "xlsx";
+
+export const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".ods"];
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// Valores crus da célula: números saem sem formatação de moeda/milhar
+// (10.5 e não "R$ 10,50") e datas em ISO.
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : String(Math.round(value * 1e6) / 1e6);
+  }
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return String(value).trim();
+}
+
+export function readSheetRows(
+  bytes: Uint8Array,
+  sheetName?: string
+): {
+  sheets: string[];
+  sheet: string;
+  headers: string[];
+  rows: Record<string, string>[];
+} {
+  const workbook = XLSX.read(bytes, { type: "array", cellDates: true });
+  const sheets = workbook.SheetNames;
+  const sheet = sheetName && sheets.includes(sheetName) ? sheetName : sheets[0];
+
+  if (!sheet) {
+    return { sheets, sheet: "", headers: [], rows: [] };
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], {
+    header: 1,
+    raw: true,
+    defval: "",
+    blankrows: false,
+  });
+
+  if (matrix.length < 2) {
+    return { sheets, sheet, headers: [], rows: [] };
+  }
+
+  const headers = matrix[0].map((h) =>
+    cellToString(h).replace(/[\u200B-\u200D\uFEFF\u00A0]/g, "").trim()
+  );
+  const rows: Record<string, string>[] = [];
+
+  for (let i = 1; i < matrix.length; i++) {
+    const values = matrix[i].map(cellToString);
+    if (values.every((v) => v === "")) continue;
+    const row: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      row[header] = values[idx] ?? "";
+    });
+    rows.push(row);
+  }
+
+  return { sheets, sheet, headers, rows };
+}
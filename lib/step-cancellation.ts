@@ -0,0 +1,122 @@
+import { getSupabase } from "@/lib/supabase";
+
+// Cancelamento de uma etapa em andamento. A página manda um token no header de cada etapa
+// e, para cancelar, chama POST /api/onboarding/cancel com o mesmo token: a requisição da
+// etapa continua aberta e termina com o evento "cancelled" do servidor.
+//
+// O pedido pode cair em outra instância da função. Por isso a etapa fica registrada no
+// Supabase enquanto roda: quem recebe o pedido marca a linha, e a etapa lê a marca nos
+// seus checkpoints (checkpoint()).
+
+// Header enviado pela página com o token da etapa.
+export const CANCEL_HEADER = "x-onboarding-cancel";
+
+const TABLE = "step_cancellations";
+// Intervalo mínimo entre leituras da marca; produtos em paralelo dividem a mesma leitura.
+const CHECK_INTERVAL_MS = 1000;
+
+// Etapas em andamento nesta instância: o pedido que cai aqui aborta na hora.
+const running = new Map<string, AbortController>();
+
+export interface StepCancellation {
+  signal: AbortSignal;
+  // Lê o pedido de cancelamento feito em outra instância e, se houver, aborta signal.
+  // true quando a etapa foi cancelada.
+  checkpoint(): Promise<boolean>;
+  // Tira a etapa do registro quando a resposta termina.
+  release(): void;
+}
+
+// Sem Supabase o cancelamento só funciona na instância que roda a etapa.
+async function registerStep(shop: string, token: string): Promise<boolean> {
+  try {
+    const { error } = await getSupabase()
+      .from(TABLE)
+      .upsert({ shop, token, cancel_requested_at: null });
+    if (error) throw new Error(error.message);
+    return true;
+  } catch (err) {
+    console.error("[cancel] Cancelamento entre instâncias desativado:", err instanceof Error ? err.message : err);
+    return false;
+  }
+}
+
+async function isCancelRequested(shop: string, token: string): Promise<boolean> {
+  const { data, error } = await getSupabase()
+    .from(TABLE)
+    .select("cancel_requested_at")
+    .eq("shop", shop)
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) throw new Error(`Falha ao ler o cancelamento da etapa: ${error.message}`);
+  return !!data?.cancel_requested_at;
+}
+
+async function unregisterStep(shop: string, token: string): Promise<void> {
+  const { error } = await getSupabase().from(TABLE).delete().eq("shop", shop).eq("token", token);
+  if (error) console.error("[cancel] Falha ao remover a etapa do registro:", error.message);
+}
+
+// Fechar a aba (request.signal) também cancela a etapa.
+export function openCancellation(request: Request, shop: string): StepCancellation {
+  const controller = new AbortController();
+  if (request.signal.aborted) controller.abort();
+  else request.signal.addEventListener("abort", () => controller.abort(), { once: true });
+
+  const token = request.headers.get(CANCEL_HEADER);
+  const key = token ? `${shop}:${token}` : null;
+  if (key) running.set(key, controller);
+
+  const registered = token ? registerStep(shop, token) : Promise.resolve(false);
+  let lastCheck = 0;
+  let check: Promise<void> = Promise.resolve();
+
+  return {
+    signal: controller.signal,
+    checkpoint: async () => {
+      if (token && !controller.signal.aborted && Date.now() - lastCheck >= CHECK_INTERVAL_MS) {
+        lastCheck = Date.now();
+        check = (async () => {
+          if (!(await registered)) return;
+          try {
+            if (await isCancelRequested(shop, token)) controller.abort();
+          } catch (err) {
+            console.error("[cancel]", err instanceof Error ? err.message : err);
+          }
+        })();
+      }
+      await check;
+      return controller.signal.aborted;
+    },
+    release: () => {
+      if (key && running.get(key) === controller) running.delete(key);
+      if (token) {
+        void registered.then((ok) => (ok ? unregisterStep(shop, token) : undefined));
+      }
+    },
+  };
+}
+
+// false quando não há etapa com o token em andamento (já terminou ou nunca começou).
+export async function cancelStep(shop: string, token: string): Promise<boolean> {
+  const controller = running.get(`${shop}:${token}`);
+  if (controller) {
+    controller.abort();
+    return true;
+  }
+
+  try {
+    const { data, error } = await getSupabase()
+      .from(TABLE)
+      .update({ cancel_requested_at: new Date().toISOString() })
+      .eq("shop", shop)
+      .eq("token", token)
+      .select("token");
+    if (error) throw new Error(error.message);
+    return data.length > 0;
+  } catch (err) {
+    console.error("[cancel] Falha ao registrar o cancelamento:", err instanceof Error ? err.message : err);
+    return false;
+  }
+}
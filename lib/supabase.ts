@@ -0,0 +1,17 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let client: SupabaseClient | null = null;
+
+// Cliente server-side (service role): só deve ser usado nas rotas da API.
+export function getSupabase(): SupabaseClient {
+  if (client) return client;
+
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error("SUPABASE_URL ou SUPABASE_SERVICE_ROLE_KEY não configurados.");
+  }
+
+  client = createClient(url, key, { auth: { persistSession: false } });
+  return client;
+}
@@ -0,0 +1,59 @@
+// Conferência do .zip do tema sem descompactar: só os nomes do diretório central.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// Arquivos sem os quais o themeCreate falha ou o step7 não tem o que configurar.
+export const REQUIRED_THEME_FILES = [
+  "layout/theme.liquid",
+  "config/settings_data.json",
+  "templates/index.json",
+];
+
+export function listZipEntries(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const lowest = Math.max(0, bytes.length - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+  let end = -1;
+  for (let i = bytes.length - END_RECORD_SIZE; i >= lowest; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("O arquivo não é um .zip válido.");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("O .zip está corrompido (diretório central inválido).");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    names.push(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+// Problemas que impediriam o tema de ser criado e configurado; vazio quando está tudo certo.
+export function checkThemeZip(bytes: Uint8Array): string[] {
+  let entries: string[];
+  try {
+    entries = listZipEntries(bytes);
+  } catch (err) {
+    return [err instanceof Error ? err.message : "Falha ao ler o .zip."];
+  }
+
+  // Temas baixados do admin vêm na raiz; exportações de outros lugares costumam ter uma pasta.
+  const layout = entries.find((name) => /^([^/]+\/)?layout\/theme\.liquid$/.test(name));
+  const root = layout ? layout.slice(0, -"layout/theme.liquid".length) : "";
+  return REQUIRED_THEME_FILES
+    .filter((file) => !entries.includes(root + file))
+    .map((file) => `Arquivo obrigatório ausente no tema: ${file}`);
+}
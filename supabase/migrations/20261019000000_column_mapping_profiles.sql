@@ -0,0 +1,9 @@
+create table if not exists column_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  shop text not null,
+  name text not null,
+  mapping jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (shop, name)
+);
@@ -0,0 +1,22 @@
+create table if not exists import_runs (
+  id uuid primary key default gen_random_uuid(),
+  shop text not null,
+  mode text not null default 'create',
+  status text not null default 'running',
+  total integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists import_runs_shop_created_at_idx on import_runs (shop, created_at desc);
+
+create table if not exists import_run_items (
+  run_id uuid not null references import_runs (id) on delete cascade,
+  handle text not null,
+  status text not null default 'pending',
+  product_id text,
+  reason text,
+  summary jsonb,
+  updated_at timestamptz not null default now(),
+  primary key (run_id, handle)
+);
@@ -0,0 +1,21 @@
+create table if not exists onboarding_runs (
+  id uuid primary key default gen_random_uuid(),
+  shop text not null,
+  status text not null default 'active',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists onboarding_runs_shop_created_at_idx on onboarding_runs (shop, created_at desc);
+
+create table if not exists onboarding_run_entries (
+  id bigint generated always as identity primary key,
+  run_id uuid not null references onboarding_runs (id) on delete cascade,
+  step integer not null,
+  kind text not null,
+  resource_id text not null,
+  previous jsonb,
+  undone_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (run_id, kind, resource_id)
+);
@@ -0,0 +1,7 @@
+create table if not exists step_cancellations (
+  shop text not null,
+  token text not null,
+  cancel_requested_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (shop, token)
+);
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  decodeCSV,
+  detectDelimiter,
+  detectEncoding,
+  parseCSV,
+  streamProductsByHandle,
+  validateProductRows,
+} from "@/lib/csv-parser";
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const HEADERS = ["Handle", "Title", "Option1 Value", "Variant Price"];
+
+function row(handle: string, option = "", title = ""): Record<string, string> {
+  return { Handle: handle, Title: title, "Option1 Value": option, "Variant Price": "10" };
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe("detectDelimiter", () => {
+  it.each([
+    ["Handle,Title,Variant Price\na,A,10", ","],
+    ["Handle;Title;Variant Price\na;A;10,50", ";"],
+    ["Handle\tTitle\tVariant Price\na\tA\t10", "\t"],
+    ["Handle|Title|Variant Price", "|"],
+  ])("reconhece o separador de %j", (text, expected) => {
+    expect(detectDelimiter(text)).toBe(expected);
+  });
+
+  it("conta só a linha de cabeçalho, fora de aspas", () => {
+    expect(detectDelimiter('"Nome, completo";Preço\n"a,b,c,d";1')).toBe(";");
+  });
+
+  it("usa vírgula quando o cabeçalho tem uma coluna só", () => {
+    expect(detectDelimiter("Handle\na")).toBe(",");
+  });
+});
+
+describe("detectEncoding", () => {
+  it.each([
+    [[0xef, 0xbb, 0xbf, 0x61], "utf-8"],
+    [[0xff, 0xfe, 0x61, 0x00], "utf-16le"],
+    [[0xfe, 0xff, 0x00, 0x61], "utf-16be"],
+    [[0x50, 0x72, 0x65, 0xc3, 0xa7, 0x6f], "utf-8"],
+    [[0x50, 0x72, 0x65, 0xe7, 0x6f], "windows-1252"],
+  ] as const)("%j → %s", (bytes, expected) => {
+    expect(detectEncoding(new Uint8Array(bytes))).toBe(expected);
+  });
+});
+
+describe("decodeCSV", () => {
+  it("decodifica o export do Excel em Windows-1252", () => {
+    expect(decodeCSV(new Uint8Array([0x50, 0x72, 0x65, 0xe7, 0x6f]))).toEqual({ text: "Preço", encoding: "windows-1252" });
+  });
+
+  it("descarta o BOM de UTF-16", () => {
+    expect(decodeCSV(new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0x3b, 0x00])).text).toBe("a;");
+  });
+
+  it("respeita o encoding escolhido pelo usuário", () => {
+    const bytes = new Uint8Array([0x50, 0x72, 0x65, 0xc3, 0xa7, 0x6f]);
+    expect(decodeCSV(bytes, "windows-1252")).toEqual({ text: "PreÃ§o", encoding: "windows-1252" });
+  });
+});
+
+describe("parseCSV", () => {
+  it("tira o BOM, detecta o separador e mantém quebras de linha entre aspas", () => {
+    const { headers, rows, delimiter } = parseCSV('\uFEFFHandle;Body (HTML)\r\na;"linha 1\nlinha 2; fim"\r\n');
+    expect(delimiter).toBe(";");
+    expect(headers).toEqual(["Handle", "Body (HTML)"]);
+    expect(rows).toEqual([{ Handle: "a", "Body (HTML)": "linha 1\nlinha 2; fim" }]);
+  });
+
+  it("usa o separador informado em vez de detectar", () => {
+    const { rows, delimiter } = parseCSV("Handle,Title;Tags\na,A;b", { delimiter: "," });
+    expect(delimiter).toBe(",");
+    expect(rows).toEqual([{ Handle: "a", "Title;Tags": "A;b" }]);
+  });
+});
+
+describe("streamProductsByHandle", () => {
+  it("agrupa linhas consecutivas do mesmo handle", async () => {
+    const products = await collect(streamProductsByHandle([row("a", "P"), row("a", "M"), row("b")]));
+    expect(products.map(([handle, rows]) => [handle, rows.length])).toEqual([["a", 2], ["b", 1]]);
+  });
+
+  it("entrega o bloco repetido de um handle a onScattered em vez de descartá-lo calado", async () => {
+    const scattered: [string, number][] = [];
+    const products = await collect(streamProductsByHandle(
+      [row("a", "P"), row("b"), row("a", "M"), row("a", "G"), row("c")],
+      (handle, rows) => scattered.push([handle, rows.length])
+    ));
+
+    expect(products.map(([handle]) => handle)).toEqual(["a", "b", "c"]);
+    expect(scattered).toEqual([["a", 2]]);
+  });
+
+  it("reporta o bloco repetido também no fim do arquivo", async () => {
+    const scattered: string[] = [];
+    const products = await collect(streamProductsByHandle([row("a"), row("b"), row("a", "M")], (h) => scattered.push(h)));
+
+    expect(products.map(([handle]) => handle)).toEqual(["a", "b"]);
+    expect(scattered).toEqual(["a"]);
+  });
+});
+
+describe("validateProductRows", () => {
+  it("aponta handle e linha de cada bloco não consecutivo", () => {
+    const result = validateProductRows(HEADERS, [row("a", "P", "A"), row("b", "", "B"), row("a", "M")]);
+    expect(result.issues).toContainEqual(expect.objectContaining({
+      code: "scattered_handle",
+      severity: "warning",
+      handle: "a",
+      row: 4,
+    }));
+  });
+
+  it("avisa sobre colunas do export da Shopify que o importador não aplica", () => {
+    const headers = [...HEADERS, "Variant Fulfillment Service", "Option1 Linked To"];
+    const result = validateProductRows(headers, [{ ...row("a", "P", "A"), "Variant Fulfillment Service": "manual" }]);
+    const unknown = result.issues.find((i) => i.code === "unknown_columns");
+    expect(unknown?.message).toContain("Variant Fulfillment Service");
+    expect(unknown?.message).toContain("Option1 Linked To");
+  });
+
+  it.each(["camisa--azul", "camisa-azul-", "camisa_azul"])("aceita o handle %s sem aviso", (handle) => {
+    const result = validateProductRows(HEADERS, [row(handle, "", "Camisa")]);
+    expect(result.issues.filter((i) => i.column === "Handle")).toEqual([]);
+  });
+
+  it.each(["camisa.azul", "camisa-açaí", "Camisa Azul"])("só avisa que a Shopify pode ajustar o handle %s", (handle) => {
+    const result = validateProductRows(HEADERS, [row(handle, "", "Camisa")]);
+    expect(result.errors).toEqual([]);
+    expect(result.issues).toContainEqual(expect.objectContaining({ code: "nonstandard_handle", severity: "warning", handle }));
+  });
+
+  it("aceita preço com milhar e vírgula decimal", () => {
+    const result = validateProductRows(HEADERS, [{ ...row("a", "", "A"), "Variant Price": "1.234,56" }]);
+    expect(result.errors).toEqual([]);
+  });
+});
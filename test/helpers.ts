@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import { NextRequest } from "next/server";
+
+// Respostas das rotas lidas sem tipagem, como o page.tsx faz.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Json = any;
+
+const FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+
+export function fixtureFile(name: string, type: string): File {
+  return new File([readFileSync(new URL(name, FIXTURES_DIR))], name, { type });
+}
+
+// Bytes de um PNG 1x1, suficiente para os uploads do step5.
+export function pngFile(name: string): File {
+  const png = Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+    "base64"
+  );
+  return new File([png], name, { type: "image/png" });
+}
+
+// Zip sem compressão com os arquivos dados, como um tema exportado do admin.
+export function themeZipFile(files: Record<string, string>, name = "theme.zip"): File {
+  const encoder = new TextEncoder();
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [filename, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(encoder.encode(filename));
+    const data = Buffer.from(encoder.encode(content));
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    local.push(header, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += header.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new File([Buffer.concat([...local, ...central, end])], name, { type: "application/zip" });
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function formRequest(
+  path: string,
+  fields: Record<string, string | File>,
+  headers: Record<string, string> = {}
+): NextRequest {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return new NextRequest(`http://localhost${path}`, { method: "POST", headers, body: form });
+}
+
+export function jsonRequest(path: string, body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+// Eventos NDJSON do step2, na ordem em que chegaram.
+export async function readEvents(res: Response): Promise<Json[]> {
+  const text = await res.text();
+  return text.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line));
+}
+
+// Os mesmos eventos, entregues conforme chegam (para agir no meio da importação).
+export async function* streamEvents(res: Response): AsyncGenerator<Json> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) if (line.trim()) yield JSON.parse(line);
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
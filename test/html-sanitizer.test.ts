@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SANITIZER_OPTIONS, parseSanitizerOptions, sanitizeHtml } from "@/lib/html-sanitizer";
+
+const KEEP_LINKS = { ...DEFAULT_SANITIZER_OPTIONS, externalLinks: "keep" as const };
+
+describe("sanitizeHtml", () => {
+  it.each([
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java&Tab;script:alert(1)",
+    "jav&NewLine;ascript:alert(1)",
+    "javascript&colon;alert(1)",
+    "&#106;avascript:alert(1)",
+    "&#x6A;avascript:alert(1)",
+    "&#106avascript:alert(1)",
+    "java&#x09;script:alert(1)",
+    "java&#0000009;script:alert(1)",
+    "java&nbsp;script:alert(1)",
+    "java&unknown;script:alert(1)",
+    "vbscript:msgbox(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+  ])("remove href %j", (href) => {
+    const { html, report } = sanitizeHtml(`<a href="${href}">x</a>`, KEEP_LINKS);
+    expect(html).toBe("<a>x</a>");
+    expect(report.removedAttributes.href).toBe(1);
+  });
+
+  it("descarta <img> com src de esquema escondido por entidade", () => {
+    const { html, report } = sanitizeHtml('<p><img src="jav&NewLine;ascript:alert(1)" alt="a">texto</p>');
+    expect(html).toBe("<p>texto</p>");
+    expect(report.removedTags.img).toBe(1);
+  });
+
+  it.each([
+    "https://loja.com/produto?a=1&b=2",
+    "/pages/contato",
+    "#detalhes",
+    "mailto:contato@loja.com",
+    "tel:+5511999999999",
+    "produto.html?cor=azul&amp;tam=M",
+  ])("mantém href seguro %j", (href) => {
+    const { html } = sanitizeHtml(`<a href="${href}">x</a>`, KEEP_LINKS);
+    expect(html).toContain("href=");
+  });
+
+  it("remove scripts, handlers e estilos", () => {
+    const { html, report } = sanitizeHtml(
+      '<p onclick="x()" style="color:red">Oi<script>alert(1)</script></p><style>p{}</style>'
+    );
+    expect(html).toBe("<p>Oi</p>");
+    expect(report.removedTags).toMatchObject({ script: 1, style: 1 });
+    expect(report.removedAttributes).toMatchObject({ onclick: 1, style: 1 });
+  });
+
+  it("remove links externos e mantém o texto por padrão", () => {
+    const { html, report } = sanitizeHtml('<p><a href="https://outra.com">veja</a></p>');
+    expect(html).toBe("<p>veja</p>");
+    expect(report.strippedLinks).toEqual(["https://outra.com"]);
+  });
+
+  it("reescreve links externos e respeita os domínios internos", () => {
+    const options = {
+      ...DEFAULT_SANITIZER_OPTIONS,
+      externalLinks: "rewrite" as const,
+      rewriteLinksTo: "/pages/contato",
+      internalHosts: ["loja.com"],
+    };
+    const { html } = sanitizeHtml('<a href="https://outra.com">a</a><a href="https://www.loja.com/x">b</a>', options);
+    expect(html).toBe('<a href="/pages/contato">a</a><a href="https://www.loja.com/x">b</a>');
+  });
+
+  it("rebaixa <h1> e fecha tags abertas", () => {
+    const { html, report } = sanitizeHtml("<h1>Título</h1><p><strong>negrito</p>");
+    expect(html).toBe("<h2>Título</h2><p><strong>negrito</strong></p>");
+    expect(report.headingsNormalized).toBe(1);
+    expect(report.repairedTags).toBeGreaterThan(0);
+  });
+});
+
+describe("parseSanitizerOptions", () => {
+  it("usa os padrões sem configuração ou com JSON inválido", () => {
+    expect(parseSanitizerOptions(null)).toBe(DEFAULT_SANITIZER_OPTIONS);
+    expect(parseSanitizerOptions("{")).toBe(DEFAULT_SANITIZER_OPTIONS);
+  });
+
+  it("desliga a limpeza com enabled: false", () => {
+    expect(parseSanitizerOptions('{"enabled":false}')).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  applyImportProfile,
+  detectImportProfile,
+  getImportProfile,
+  parseLocalizedDecimal,
+  streamWithImportProfile,
+} from "@/lib/import-profiles";
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item;
+}
+
+describe("parseLocalizedDecimal", () => {
+  it.each([
+    ["R$ 1.234,56", "1234.56"],
+    ["59,90", "59.90"],
+    ["US$ 1,234.50", "1234.50"],
+    [" 10 ", "10"],
+    ["", ""],
+    ["sob consulta", ""],
+  ])("%j vira %j", (raw, expected) => {
+    expect(parseLocalizedDecimal(raw)).toBe(expected);
+  });
+});
+
+describe("detectImportProfile", () => {
+  it.each([
+    [["Handle", "Title", "Variant Price"], "shopify"],
+    [["ID", "Type", "SKU", "Name", "Regular price"], "woocommerce"],
+    [["Identificador URL", "Nome", "Preço"], "nuvemshop"],
+    [["Código", "Código pai", "Nome", "Preço"], "tray"],
+    [["id", "sku", "sku-pai", "nome"], "loja-integrada"],
+    [["TYPE", "NAME", "REGULAR PRICE"], "woocommerce"],
+  ])("%j → %s", (headers, id) => {
+    expect(detectImportProfile(headers).id).toBe(id);
+  });
+
+  it("cai no formato da Shopify quando nenhum perfil reconhece os headers", () => {
+    expect(detectImportProfile(["produto", "valor"]).id).toBe("shopify");
+  });
+
+  it("getImportProfile só aceita ids conhecidos", () => {
+    expect(getImportProfile("tray")?.label).toBe("Tray");
+    expect(getImportProfile("magento")).toBeUndefined();
+    expect(getImportProfile(undefined)).toBeUndefined();
+  });
+});
+
+describe("perfil WooCommerce", () => {
+  const woo = getImportProfile("woocommerce")!;
+
+  it("junta variações ao produto pai, inclusive as que vêm antes dele", () => {
+    const rows = applyImportProfile(woo, [
+      {
+        ID: "11",
+        Type: "variation",
+        Parent: "id:10",
+        SKU: "CAM-P",
+        "Regular price": "100,00",
+        "Sale price": "80",
+        "Attribute 1 name": "Tamanho",
+        "Attribute 1 value(s)": "P",
+        "Weight (kg)": "0,5",
+        Stock: "3",
+        Images: "https://cdn.loja.com/p.jpg",
+      },
+      {
+        ID: "10",
+        Type: "variable",
+        Name: "Camiseta Básica",
+        SKU: "CAM",
+        Brands: "Acme",
+        Categories: "Roupas > Camisetas, Promoções",
+        Published: "1",
+        "Attribute 1 name": "Tamanho",
+        "Attribute 1 value(s)": "P, M",
+        Images: "https://cdn.loja.com/a.jpg, https://cdn.loja.com/b.jpg",
+      },
+      {
+        ID: "12",
+        Type: "variation",
+        Parent: "CAM",
+        SKU: "CAM-M",
+        "Regular price": "100",
+        "Attribute 1 name": "Tamanho",
+        "Attribute 1 value(s)": "M",
+      },
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      Handle: "camiseta-basica",
+      Title: "Camiseta Básica",
+      Vendor: "Acme",
+      Type: "Camisetas",
+      Status: "active",
+      "Option1 Name": "Tamanho",
+      "Option1 Value": "M",
+      "Variant Price": "100",
+      "Image Src": "https://cdn.loja.com/a.jpg",
+    });
+    expect(rows[1]).toMatchObject({
+      Handle: "camiseta-basica",
+      "Option1 Value": "P",
+      "Variant Price": "80",
+      "Variant Compare At Price": "100.00",
+      "Variant SKU": "CAM-P",
+      "Variant Grams": "500",
+      "Variant Inventory Qty": "3",
+      "Variant Image": "https://cdn.loja.com/p.jpg",
+      "Image Src": "https://cdn.loja.com/b.jpg",
+      "Image Position": "2",
+    });
+  });
+
+  it("dá handles diferentes a produtos com o mesmo nome", () => {
+    const rows = applyImportProfile(woo, [
+      { ID: "1", Type: "simple", Name: "Caneca", "Regular price": "30" },
+      { ID: "2", Type: "simple", Name: "Caneca", "Regular price": "35" },
+    ]);
+    expect(rows.map((r) => r.Handle)).toEqual(["caneca", "caneca-2"]);
+  });
+
+  it("ignora variação sem produto pai", () => {
+    const rows = applyImportProfile(woo, [{ ID: "5", Type: "variation", Parent: "id:99", "Regular price": "10" }]);
+    expect(rows).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"id:99"'));
+  });
+});
+
+describe("perfil Nuvemshop", () => {
+  it("agrupa as linhas pelo identificador e troca preço promocional por compare-at", () => {
+    const rows = applyImportProfile(getImportProfile("nuvemshop")!, [
+      {
+        "Identificador URL": "camiseta",
+        Nome: "Camiseta",
+        "Nome da variação 1": "Cor",
+        "Valor da variação 1": "Azul",
+        "Preço": "R$ 59,90",
+        "Exibir na loja": "Não",
+        "URL da imagem": "https://cdn.loja.com/1.jpg",
+      },
+      {
+        "Identificador URL": "camiseta",
+        Nome: "",
+        "Valor da variação 1": "Verde",
+        "Preço": "59,90",
+        "Preço promocional": "49,90",
+        "URL da imagem": "https://cdn.loja.com/1.jpg",
+      },
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      Handle: "camiseta",
+      Published: "false",
+      Status: "draft",
+      "Option1 Name": "Cor",
+      "Option1 Value": "Azul",
+      "Variant Price": "59.90",
+      "Image Src": "https://cdn.loja.com/1.jpg",
+    });
+    expect(rows[1]).toMatchObject({
+      "Option1 Value": "Verde",
+      "Variant Price": "49.90",
+      "Variant Compare At Price": "59.90",
+    });
+    expect(rows[1]).not.toHaveProperty("Image Src");
+  });
+});
+
+describe("perfil Tray", () => {
+  it("troca a variante do pai pelas variações que apontam para ele", () => {
+    const rows = applyImportProfile(getImportProfile("tray")!, [
+      { "Código": "100", "Código pai": "0", Nome: "Tênis", "Preço": "200,00", "Referência": "TEN" },
+      {
+        "Código": "101",
+        "Código pai": "100",
+        Nome: "Tênis",
+        "Variação 1": "Tamanho",
+        "Valor variação 1": "40",
+        "Preço": "199,90",
+        "Referência": "TEN-40",
+        "Imagem 1": "https://cdn.loja.com/40.jpg",
+      },
+      { "Código": "201", "Código pai": "999", Nome: "Solta", "Preço": "10" },
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      Handle: "tenis",
+      Status: "active",
+      "Option1 Name": "Tamanho",
+      "Option1 Value": "40",
+      "Variant Price": "199.90",
+      "Variant SKU": "TEN-40",
+      "Variant Image": "https://cdn.loja.com/40.jpg",
+    });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"999"'));
+  });
+});
+
+describe("streamWithImportProfile", () => {
+  it("detecta o perfil pela primeira linha e devolve as linhas no flush", async () => {
+    const rows: Record<string, string>[] = [];
+    for await (const row of streamWithImportProfile(iterate([
+      { "Identificador URL": "caneca", Nome: "Caneca", "Preço": "30" },
+    ]))) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([expect.objectContaining({ Handle: "caneca", Title: "Caneca", "Variant Price": "30" })]);
+  });
+
+  it("repassa as linhas da Shopify sem alteração", async () => {
+    const row = { Handle: "a", Title: "A", "Variant Price": "10" };
+    const rows: Record<string, string>[] = [];
+    for await (const mapped of streamWithImportProfile(iterate([row]), getImportProfile("shopify"))) rows.push(mapped);
+    expect(rows).toEqual([row]);
+  });
+});
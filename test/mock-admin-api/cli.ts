@@ -0,0 +1,33 @@
+import { sealData } from "iron-session";
+import { startMockAdminApi } from "./server";
+
+// Sobe a Admin API simulada para desenvolvimento offline:
+//   npm run mock:admin-api
+//   SHOPIFY_ADMIN_BASE_URL=http://127.0.0.1:4010 npm run dev
+// Com SESSION_SECRET definido, imprime um cookie de sessão para pular o OAuth.
+
+const port = Number(process.env.MOCK_ADMIN_API_PORT) || 4010;
+const shop = process.env.MOCK_ADMIN_API_SHOP || "mock-store.myshopify.com";
+
+async function main() {
+  const api = await startMockAdminApi({ port });
+  console.log(`[mock-admin-api] Admin API simulada em ${api.url} (loja ${shop})`);
+  console.log(`[mock-admin-api] SHOPIFY_ADMIN_BASE_URL=${api.url}`);
+
+  const password = process.env.SESSION_SECRET;
+  if (password) {
+    const sealed = await sealData({ shop, accessToken: "mock-access-token" }, { password });
+    console.log(`[mock-admin-api] Cookie de sessão: shopify_session=${sealed}`);
+  }
+
+  const stop = () => {
+    api.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((err) => {
+  console.error("[mock-admin-api] Erro:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
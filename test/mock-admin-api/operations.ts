@@ -0,0 +1,993 @@
+import {
+  defaultThemeFiles,
+  type MockBulkOperation,
+  type MockCollection,
+  type MockFile,
+  type MockMedia,
+  type MockMenu,
+  type MockMenuItem,
+  type MockMetafield,
+  type MockPage,
+  type MockProduct,
+  type MockStore,
+  type MockTheme,
+  type MockVariant,
+} from "./store";
+
+// Resolvers das queries e mutations que as rotas usam. Não há validação de schema: cada
+// operação tem um único campo raiz, sem alias, e a resposta traz o recurso inteiro (as
+// rotas leem só os campos que pediram). Conexões devolvem nodes e edges.
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Variables = Record<string, any>;
+
+export interface MockUserError {
+  field: string[] | null;
+  message: string;
+  code?: string;
+}
+
+export interface GraphQLResult {
+  data?: Record<string, unknown>;
+  errors?: { message: string; extensions?: Record<string, unknown> }[];
+}
+
+export interface ExecutionContext {
+  store: MockStore;
+  baseUrl: string;
+  // Leituras de status em que um tema recém-criado ainda responde processing: true.
+  themeProcessingPolls: number;
+  // userErrors injetados para o próximo uso da mutation (MockAdminApi.injectUserErrors).
+  takeUserErrors(field: string): MockUserError[] | undefined;
+}
+
+export interface ParsedOperation {
+  type: "query" | "mutation";
+  field: string;
+}
+
+type Resolver = (variables: Variables, ctx: ExecutionContext, document: string) => unknown;
+
+// Índice logo depois do bloco { ... } que começa em `from` ou depois.
+function blockEnd(document: string, from: number): number {
+  let depth = 0;
+  for (let i = document.indexOf("{", from); i !== -1 && i < document.length; i++) {
+    if (document[i] === "{") depth++;
+    if (document[i] === "}" && --depth === 0) return i + 1;
+  }
+  return document.length;
+}
+
+export function parseOperation(document: string): ParsedOperation | null {
+  let position = 0;
+  while (position < document.length) {
+    const definition = /^\s*(fragment|query|mutation|\{)/.exec(document.slice(position));
+    if (!definition) return null;
+    if (definition[1] === "fragment") {
+      position = blockEnd(document, position);
+      continue;
+    }
+    const open = document.indexOf("{", position);
+    const field = /^\s*([_A-Za-z]\w*)/.exec(document.slice(open + 1));
+    if (!field) return null;
+    return { type: definition[1] === "mutation" ? "mutation" : "query", field: field[1] };
+  }
+  return null;
+}
+
+// Argumento de lista escrito direto no documento, como roles: [MAIN] ou filenames: ["a", "b"].
+function literalList(document: string, name: string): string[] | undefined {
+  const match = new RegExp(`${name}:\\s*\\[([^\\]]*)\\]`).exec(document);
+  if (!match || match[1].includes("$")) return undefined;
+  return match[1].split(",").map((v) => v.trim().replace(/^"|"$/g, "")).filter(Boolean);
+}
+
+// Campos do payload selecionados no documento: numa resposta só com userErrors, a Shopify
+// devolve os demais como null.
+function payloadFields(document: string, field: string): string[] {
+  let position = document.indexOf(field, document.indexOf("{")) + field.length;
+  if (document[document.slice(position).search(/\S/) + position] === "(") {
+    position = document.indexOf(")", position) + 1;
+  }
+  const open = document.indexOf("{", position);
+  if (open === -1) return [];
+  const fields: string[] = [];
+  let depth = 0;
+  for (let i = open; i < document.length; i++) {
+    const char = document[i];
+    if (char === "{") depth++;
+    else if (char === "}" && --depth === 0) break;
+    else if (char === "(") i = document.indexOf(")", i);
+    else if (depth === 1 && /[_A-Za-z]/.test(char) && !/[\w.]/.test(document[i - 1])) {
+      const name = /^\w+/.exec(document.slice(i))![0];
+      fields.push(name);
+      i += name.length - 1;
+    }
+  }
+  return fields;
+}
+
+// Com code selecionado em userErrors, a Shopify devolve null nos erros sem código.
+function withErrorCodes(document: string, payload: unknown): unknown {
+  if (!/userErrors\s*\{[^}]*\bcode\b/.test(document)) return payload;
+  const result = payload as Variables | null;
+  if (!result || !Array.isArray(result.userErrors)) return payload;
+  return { ...result, userErrors: result.userErrors.map((e: MockUserError) => ({ ...e, code: e.code ?? null })) };
+}
+
+function connection<T>(nodes: T[]) {
+  return { nodes, edges: nodes.map((node) => ({ node })) };
+}
+
+function notFound(field: string[], resource: string): { userErrors: MockUserError[] } {
+  return { userErrors: [{ field, message: `${resource} does not exist` }] };
+}
+
+// ── Serialização ──
+
+function mediaNode(media: MockMedia) {
+  return {
+    id: media.id,
+    alt: media.alt,
+    status: media.status,
+    mediaContentType: "IMAGE",
+    image: media.status === "READY" ? { url: media.url } : null,
+  };
+}
+
+function variantNode(variant: MockVariant) {
+  return {
+    id: variant.id,
+    title: variant.title,
+    price: variant.price,
+    compareAtPrice: variant.compareAtPrice,
+    barcode: variant.barcode,
+    sku: variant.sku,
+    taxable: variant.taxable,
+    inventoryPolicy: variant.inventoryPolicy,
+    selectedOptions: variant.selectedOptions,
+    metafields: connection(variant.metafields),
+  };
+}
+
+function productNode(product: MockProduct) {
+  return {
+    id: product.id,
+    handle: product.handle,
+    title: product.title,
+    descriptionHtml: product.descriptionHtml,
+    vendor: product.vendor,
+    productType: product.productType,
+    tags: product.tags,
+    status: product.status,
+    category: product.category ? { id: product.category } : null,
+    seo: product.seo,
+    metafields: connection(product.metafields),
+    options: product.options.map((o, i) => ({ name: o.name, position: i + 1, values: o.values })),
+    variants: connection(product.variants.map(variantNode)),
+    media: connection(product.media.map(mediaNode)),
+  };
+}
+
+function collectionNode(collection: MockCollection) {
+  return {
+    id: collection.id,
+    handle: collection.handle,
+    title: collection.title,
+    ruleSet: collection.ruleSet,
+    image: collection.imageUrl ? { url: collection.imageUrl } : null,
+    productsCount: { count: collection.productIds.length },
+  };
+}
+
+function fileNode(file: MockFile) {
+  const image = file.status === "READY" ? { url: file.url } : null;
+  return { id: file.id, alt: file.alt, fileStatus: file.status, image, preview: { image } };
+}
+
+function themeNode(theme: MockTheme, filenames?: string[]) {
+  const names = filenames || Array.from(theme.files.keys());
+  return {
+    id: theme.id,
+    name: theme.name,
+    role: theme.role,
+    processing: theme.processing,
+    files: connection(
+      names
+        .filter((name) => theme.files.has(name))
+        .map((filename) => ({ filename, body: { content: theme.files.get(filename) } }))
+    ),
+  };
+}
+
+function pageNode(page: MockPage) {
+  return { id: page.id, title: page.title, handle: page.handle, body: page.body, isPublished: page.isPublished };
+}
+
+function menuItemNode(item: MockMenuItem): Record<string, unknown> {
+  return {
+    id: item.id,
+    title: item.title,
+    type: item.type,
+    url: item.url,
+    resourceId: item.resourceId,
+    tags: item.tags,
+    items: item.items.map(menuItemNode),
+  };
+}
+
+function menuNode(menu: MockMenu) {
+  return {
+    id: menu.id,
+    handle: menu.handle,
+    title: menu.title,
+    isDefault: menu.isDefault,
+    items: menu.items.map(menuItemNode),
+  };
+}
+
+function bulkOperationNode(operation: MockBulkOperation, baseUrl: string) {
+  const url = `${baseUrl}/bulk-results/${operation.id.split("/").pop()}.jsonl`;
+  return {
+    id: operation.id,
+    status: operation.status,
+    errorCode: operation.errorCode,
+    objectCount: String(operation.objectCount),
+    url: operation.status === "COMPLETED" ? url : null,
+    partialDataUrl: operation.status === "CANCELED" || operation.status === "FAILED" ? url : null,
+  };
+}
+
+// ── Produtos ──
+
+function mergeMetafields(target: MockMetafield[], inputs: Variables[] | undefined): MockMetafield[] {
+  const merged = [...target];
+  for (const input of inputs || []) {
+    const metafield = { namespace: input.namespace, key: input.key, type: input.type, value: String(input.value) };
+    const index = merged.findIndex((m) => m.namespace === metafield.namespace && m.key === metafield.key);
+    if (index >= 0) merged[index] = metafield;
+    else merged.push(metafield);
+  }
+  return merged;
+}
+
+function applyProductFields(product: MockProduct, input: Variables) {
+  for (const field of ["handle", "title", "descriptionHtml", "vendor", "productType", "status"] as const) {
+    if (input[field] !== undefined) (product[field] as string) = input[field];
+  }
+  if (input.tags !== undefined) {
+    product.tags = Array.isArray(input.tags) ? input.tags : String(input.tags).split(",").map((t) => t.trim());
+  }
+  if (input.category !== undefined) product.category = input.category;
+  if (input.seo) product.seo = { title: input.seo.title ?? null, description: input.seo.description ?? null };
+  product.metafields = mergeMetafields(product.metafields, input.metafields);
+}
+
+// Fonte inválida não vira mídia (a Shopify a reporta em mediaUserErrors): o retorno pode ter
+// menos mídias que a entrada.
+function addMedia(store: MockStore, product: MockProduct, inputs: Variables[] | undefined): MockMedia[] {
+  return ((inputs || []) as Variables[]).filter((input) => /^https?:\/\//.test(input.originalSource || "")).map((input) => {
+    const media: MockMedia = {
+      id: store.nextId("MediaImage"),
+      alt: input.alt || "",
+      originalSource: input.originalSource,
+      url: store.cdnUrl(input.originalSource),
+      status: "READY",
+    };
+    product.media.push(media);
+    return media;
+  });
+}
+
+function buildVariant(store: MockStore, input: Variables): MockVariant {
+  const selectedOptions = ((input.optionValues || []) as Variables[]).map((o) => ({
+    name: o.optionName,
+    value: o.name,
+  }));
+  return {
+    id: store.nextId("ProductVariant"),
+    title: selectedOptions.map((o) => o.value).join(" / ") || "Default Title",
+    price: input.price ?? "0.00",
+    compareAtPrice: input.compareAtPrice ?? null,
+    barcode: input.barcode ?? null,
+    sku: input.inventoryItem?.sku ?? null,
+    taxable: input.taxable ?? true,
+    inventoryPolicy: input.inventoryPolicy ?? "DENY",
+    selectedOptions,
+    metafields: mergeMetafields([], input.metafields),
+    mediaIds: [],
+  };
+}
+
+function updateVariant(variant: MockVariant, input: Variables) {
+  for (const field of ["price", "compareAtPrice", "barcode", "taxable", "inventoryPolicy"] as const) {
+    if (input[field] !== undefined) (variant[field] as unknown) = input[field];
+  }
+  if (input.inventoryItem?.sku !== undefined) variant.sku = input.inventoryItem.sku;
+  variant.metafields = mergeMetafields(variant.metafields, input.metafields);
+}
+
+function sameOptions(a: MockVariant, b: MockVariant): boolean {
+  return a.title === b.title;
+}
+
+function isStandalone(product: MockProduct): boolean {
+  return product.variants.length === 1 && product.variants[0].title === "Default Title";
+}
+
+// As opções do produto acompanham os valores usados pelas variantes.
+function syncOptions(product: MockProduct) {
+  const options = product.options.map((o) => ({ name: o.name, values: [] as string[] }));
+  for (const variant of product.variants) {
+    for (const { name, value } of variant.selectedOptions) {
+      let option = options.find((o) => o.name === name);
+      if (!option) {
+        option = { name, values: [] };
+        options.push(option);
+      }
+      if (!option.values.includes(value)) option.values.push(value);
+    }
+  }
+  product.options = options.filter((o) => o.values.length > 0 || !isStandalone(product));
+}
+
+function newProduct(store: MockStore, handle: string): MockProduct {
+  return {
+    id: store.nextId("Product"),
+    handle,
+    title: "",
+    descriptionHtml: "",
+    vendor: "",
+    productType: "",
+    tags: [],
+    status: "ACTIVE",
+    category: null,
+    seo: { title: null, description: null },
+    metafields: [],
+    options: [],
+    variants: [],
+    media: [],
+    publicationIds: [],
+  };
+}
+
+function handleTaken(field: string[], handle: string): MockUserError {
+  return { field, message: `Handle '${handle}' has already been taken`, code: "TAKEN" };
+}
+
+function productCreate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.input || vars.product || {};
+  if (!input.title) return { product: null, userErrors: [{ field: ["title"], message: "Title can't be blank" }] };
+  const handle = input.handle || store.uniqueHandle(store.products.values(), input.title);
+  if (store.findProductByHandle(handle)) return { product: null, userErrors: [handleTaken(["handle"], handle)] };
+
+  const product = newProduct(store, handle);
+  applyProductFields(product, input);
+  product.options = [{ name: "Title", values: ["Default Title"] }];
+  product.variants = [buildVariant(store, { optionValues: [{ optionName: "Title", name: "Default Title" }] })];
+  addMedia(store, product, vars.media);
+  store.products.set(product.id, product);
+  return { product: productNode(product), userErrors: [] };
+}
+
+function productUpdate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.product || vars.input || {};
+  const product = store.products.get(input.id);
+  if (!product) return { product: null, ...notFound(["id"], "Product") };
+  if (input.handle && input.handle !== product.handle && store.findProductByHandle(input.handle)) {
+    return { product: null, userErrors: [handleTaken(["handle"], input.handle)] };
+  }
+  applyProductFields(product, input);
+  addMedia(store, product, vars.media);
+  return { product: productNode(product), userErrors: [] };
+}
+
+function productSet(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.input || {};
+  const identifier = vars.identifier || {};
+  let product = identifier.id
+    ? store.products.get(identifier.id)
+    : identifier.handle
+      ? store.findProductByHandle(identifier.handle)
+      : undefined;
+  if (identifier.id && !product) return { product: null, ...notFound(["identifier", "id"], "Product") };
+  if (!product) {
+    const handle = input.handle || store.uniqueHandle(store.products.values(), input.title || "");
+    if (store.findProductByHandle(handle)) return { product: null, userErrors: [handleTaken(["input", "handle"], handle)] };
+    product = newProduct(store, handle);
+    store.products.set(product.id, product);
+  }
+
+  applyProductFields(product, input);
+  // productSet substitui opções, variantes e arquivos pelo que veio no input.
+  product.options = ((input.productOptions || []) as Variables[]).map((o) => ({
+    name: o.name,
+    values: ((o.values || []) as Variables[]).map((v) => v.name),
+  }));
+  product.media = [];
+  addMedia(store, product, input.files);
+  product.variants = ((input.variants || []) as Variables[]).map((variantInput) => {
+    const variant = buildVariant(store, variantInput);
+    const file = variantInput.file;
+    if (file) {
+      const media = product.media.find((m) => m.originalSource === file.originalSource) || addMedia(store, product, [file])[0];
+      variant.mediaIds = [media.id];
+    }
+    return variant;
+  });
+  syncOptions(product);
+  return { product: productNode(product), userErrors: [] };
+}
+
+function productOptionsCreate(vars: Variables, { store }: ExecutionContext) {
+  const product = store.products.get(vars.productId);
+  if (!product) return { product: null, ...notFound(["productId"], "Product") };
+  const userErrors: MockUserError[] = [];
+  const options = (vars.options || []) as Variables[];
+  const current = isStandalone(product) ? [] : product.options;
+  options.forEach((option, i) => {
+    if (current.some((o) => o.name === option.name)) {
+      userErrors.push({ field: ["options", String(i)], message: `Option '${option.name}' already exists.`, code: "OPTION_ALREADY_EXISTS" });
+    }
+  });
+  if (userErrors.length > 0) return { product: null, userErrors };
+
+  product.options = [
+    ...current,
+    ...options.map((o) => ({ name: o.name, values: ((o.values || []) as Variables[]).map((v) => v.name) })),
+  ];
+  return { product: productNode(product), userErrors: [] };
+}
+
+function productVariantsBulkCreate(vars: Variables, { store }: ExecutionContext) {
+  const product = store.products.get(vars.productId);
+  if (!product) return { product: null, productVariants: null, ...notFound(["productId"], "Product") };
+
+  const removeStandalone = vars.strategy === "REMOVE_STANDALONE_VARIANT" && isStandalone(product);
+  const existing = removeStandalone ? [] : product.variants;
+  const variants = ((vars.variants || []) as Variables[]).map((input) => buildVariant(store, input));
+  const userErrors: MockUserError[] = [];
+  variants.forEach((variant, i) => {
+    const duplicate = [...existing, ...variants.slice(0, i)].some((v) => sameOptions(v, variant));
+    if (duplicate) userErrors.push({ field: ["variants", String(i)], message: `The variant '${variant.title}' already exists.` });
+  });
+  // A Shopify rejeita o lote inteiro quando alguma variante é inválida.
+  if (userErrors.length > 0) return { product: null, productVariants: [], userErrors };
+
+  addMedia(store, product, vars.media);
+  ((vars.variants || []) as Variables[]).forEach((input, i) => {
+    const sources: string[] = input.mediaSrc || [];
+    variants[i].mediaIds = product.media.filter((m) => sources.includes(m.originalSource)).map((m) => m.id);
+  });
+  product.variants = [...existing, ...variants];
+  syncOptions(product);
+  return { product: productNode(product), productVariants: variants.map(variantNode), userErrors: [] };
+}
+
+function productVariantsBulkUpdate(vars: Variables, { store }: ExecutionContext) {
+  const product = store.products.get(vars.productId);
+  if (!product) return { product: null, productVariants: null, ...notFound(["productId"], "Product") };
+  const inputs = (vars.variants || []) as Variables[];
+  const userErrors: MockUserError[] = inputs.flatMap((input, i) =>
+    product.variants.some((v) => v.id === input.id)
+      ? []
+      : [{ field: ["variants", String(i), "id"], message: "Product variant does not exist" }]
+  );
+  if (userErrors.length > 0) return { product: null, productVariants: [], userErrors };
+
+  const updated = inputs.map((input) => {
+    const variant = product.variants.find((v) => v.id === input.id)!;
+    updateVariant(variant, input);
+    return variantNode(variant);
+  });
+  return { product: productNode(product), productVariants: updated, userErrors: [] };
+}
+
+function productVariantAppendMedia(vars: Variables, { store }: ExecutionContext) {
+  const product = store.products.get(vars.productId);
+  if (!product) return { product: null, productVariants: null, ...notFound(["productId"], "Product") };
+  const userErrors: MockUserError[] = [];
+  ((vars.variantMedia || []) as Variables[]).forEach((entry, i) => {
+    const variant = product.variants.find((v) => v.id === entry.variantId);
+    const mediaIds: string[] = entry.mediaIds || [];
+    if (!variant) {
+      userErrors.push({ field: ["variantMedia", String(i), "variantId"], message: "Variant does not exist" });
+    } else if (!mediaIds.every((id) => product.media.some((m) => m.id === id && m.status === "READY"))) {
+      userErrors.push({ field: ["variantMedia", String(i), "mediaIds"], message: "Media is not ready or does not exist" });
+    } else {
+      variant.mediaIds = mediaIds;
+    }
+  });
+  return { product: productNode(product), productVariants: product.variants.map(variantNode), userErrors };
+}
+
+function productDelete(vars: Variables, { store }: ExecutionContext) {
+  const id = vars.input?.id ?? vars.id;
+  if (!store.products.delete(id)) return { deletedProductId: null, ...notFound(["id"], "Product") };
+  store.collections.forEach((collection) => {
+    collection.productIds = collection.productIds.filter((p) => p !== id);
+  });
+  return { deletedProductId: id, userErrors: [] };
+}
+
+function productVariants(vars: Variables, { store }: ExecutionContext) {
+  const sku = /sku:"?((?:[^"\\]|\\.)*)"?/.exec(vars.query || "")?.[1]?.replace(/\\"/g, '"');
+  const nodes = Array.from(store.products.values()).flatMap((product) =>
+    product.variants
+      .filter((v) => sku === undefined || v.sku === sku)
+      .map((v) => ({ ...variantNode(v), product: productNode(product) }))
+  );
+  return connection(nodes.slice(0, vars.first ?? 1));
+}
+
+// ── Publicação e metafields ──
+
+function publishablePublish(vars: Variables, { store }: ExecutionContext) {
+  const publishable = store.findPublishable(vars.id);
+  if (!publishable) return { publishable: null, userErrors: [{ field: ["id"], message: "Publishable does not exist" }] };
+  const userErrors: MockUserError[] = [];
+  ((vars.input || []) as Variables[]).forEach(({ publicationId }, i) => {
+    if (!store.publications.some((p) => p.id === publicationId)) {
+      userErrors.push({ field: ["input", String(i), "publicationId"], message: "Publication does not exist" });
+    } else if (!publishable.publicationIds.includes(publicationId)) {
+      publishable.publicationIds.push(publicationId);
+    }
+  });
+  return {
+    publishable: { availablePublicationsCount: { count: publishable.publicationIds.length } },
+    userErrors,
+  };
+}
+
+function metafieldDefinitions(vars: Variables, { store }: ExecutionContext) {
+  const nodes = Array.from(store.metafieldDefinitions.values())
+    .filter((d) => !vars.ownerType || d.ownerType === vars.ownerType)
+    .filter((d) => !vars.namespace || d.namespace === vars.namespace)
+    .filter((d) => !vars.key || d.key === vars.key)
+    .map((d) => ({ id: d.id, name: d.name, namespace: d.namespace, key: d.key, ownerType: d.ownerType, type: { name: d.type } }));
+  return connection(nodes.slice(0, vars.first ?? nodes.length));
+}
+
+function metafieldDefinitionCreate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.definition || {};
+  const taken = Array.from(store.metafieldDefinitions.values()).some(
+    (d) => d.ownerType === input.ownerType && d.namespace === input.namespace && d.key === input.key
+  );
+  if (taken) {
+    return {
+      createdDefinition: null,
+      userErrors: [{ field: ["definition", "key"], message: "Key is in use for this owner type and namespace.", code: "TAKEN" }],
+    };
+  }
+  const definition = {
+    id: store.nextId("MetafieldDefinition"),
+    name: input.name,
+    namespace: input.namespace,
+    key: input.key,
+    type: input.type,
+    ownerType: input.ownerType,
+  };
+  store.metafieldDefinitions.set(definition.id, definition);
+  return { createdDefinition: { id: definition.id, name: definition.name }, userErrors: [] };
+}
+
+function metafieldDefinitionDelete(vars: Variables, { store }: ExecutionContext) {
+  if (!store.metafieldDefinitions.delete(vars.id)) return { deletedDefinitionId: null, ...notFound(["id"], "Definition") };
+  return { deletedDefinitionId: vars.id, userErrors: [] };
+}
+
+// ── Coleções ──
+
+function collectionCreate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.input || {};
+  if (!input.title) return { collection: null, userErrors: [{ field: ["title"], message: "Title can't be blank" }] };
+  const handle = input.handle || store.uniqueHandle(store.collections.values(), input.title);
+  if (store.findCollectionByHandle(handle)) return { collection: null, userErrors: [handleTaken(["handle"], handle)] };
+
+  const collection: MockCollection = {
+    id: store.nextId("Collection"),
+    handle,
+    title: input.title,
+    ruleSet: input.ruleSet
+      ? { appliedDisjunctively: !!input.ruleSet.appliedDisjunctively, rules: input.ruleSet.rules || [] }
+      : null,
+    productIds: [],
+    imageUrl: input.image?.src ?? null,
+    publicationIds: [],
+  };
+  store.collections.set(collection.id, collection);
+  return { collection: collectionNode(collection), userErrors: [] };
+}
+
+function collectionUpdate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.input || {};
+  const collection = store.collections.get(input.id);
+  if (!collection) return { collection: null, ...notFound(["id"], "Collection") };
+  if (input.title !== undefined) collection.title = input.title;
+  if (input.image !== undefined) collection.imageUrl = input.image?.src ?? null;
+  return { collection: collectionNode(collection), userErrors: [] };
+}
+
+function collectionAddProducts(vars: Variables, { store }: ExecutionContext) {
+  const collection = store.collections.get(vars.id);
+  if (!collection) return { collection: null, ...notFound(["id"], "Collection") };
+  if (collection.ruleSet) {
+    return { collection: null, userErrors: [{ field: ["id"], message: "Can't manually add products to a smart collection" }] };
+  }
+  const ids: string[] = vars.productIds || [];
+  const missing = ids.filter((id) => !store.products.has(id));
+  if (missing.length > 0) return { collection: null, userErrors: [{ field: ["productIds"], message: `Products do not exist: ${missing.join(", ")}` }] };
+  for (const id of ids) {
+    if (!collection.productIds.includes(id)) collection.productIds.push(id);
+  }
+  return { collection: collectionNode(collection), userErrors: [] };
+}
+
+function collectionDelete(vars: Variables, { store }: ExecutionContext) {
+  const id = vars.input?.id ?? vars.id;
+  if (!store.collections.delete(id)) return { deletedCollectionId: null, ...notFound(["id"], "Collection") };
+  return { deletedCollectionId: id, userErrors: [] };
+}
+
+// ── Arquivos e uploads ──
+
+function stagedUploadsCreate(vars: Variables, { store, baseUrl }: ExecutionContext) {
+  const stagedTargets = ((vars.input || []) as Variables[]).map((input) => {
+    const key = `tmp/${store.nextNumber()}/${input.filename}`;
+    return {
+      url: `${baseUrl}/staged-uploads`,
+      resourceUrl: `${baseUrl}/staged-uploads/${key}`,
+      parameters: [
+        { name: "Content-Type", value: input.mimeType || "application/octet-stream" },
+        { name: "key", value: key },
+      ],
+    };
+  });
+  return { stagedTargets, userErrors: [] };
+}
+
+function fileCreate(vars: Variables, { store }: ExecutionContext) {
+  const inputs = (vars.files || []) as Variables[];
+  const userErrors: MockUserError[] = inputs.flatMap((input, i) =>
+    /^https?:\/\//.test(input.originalSource || "")
+      ? []
+      : [{ field: ["files", String(i), "originalSource"], message: "Image URL is invalid" }]
+  );
+  if (userErrors.length > 0) return { files: [], userErrors };
+
+  const files = inputs.map((input) => {
+    const file: MockFile = {
+      id: store.nextId("MediaImage"),
+      alt: input.alt || "",
+      originalSource: input.originalSource,
+      url: store.cdnUrl(input.originalSource),
+      status: "READY",
+    };
+    store.files.set(file.id, file);
+    return fileNode(file);
+  });
+  return { files, userErrors: [] };
+}
+
+function fileDelete(vars: Variables, { store }: ExecutionContext) {
+  const ids: string[] = vars.fileIds || [];
+  const missing = ids.filter((id) => !store.files.has(id));
+  if (missing.length > 0) {
+    return { deletedFileIds: null, userErrors: missing.map((id) => ({ field: ["fileIds"], message: `File id ${id} does not exist.` })) };
+  }
+  ids.forEach((id) => store.files.delete(id));
+  return { deletedFileIds: ids, userErrors: [] };
+}
+
+// ── Temas ──
+
+function themeCreate(vars: Variables, { store, themeProcessingPolls }: ExecutionContext) {
+  if (!/^https?:\/\//.test(vars.source || "")) {
+    return { theme: null, userErrors: [{ field: ["source"], message: "Source is not a valid URL" }] };
+  }
+  const theme: MockTheme = {
+    id: store.nextId("OnlineStoreTheme"),
+    name: vars.name || "Untitled",
+    role: vars.role || "UNPUBLISHED",
+    source: vars.source,
+    processing: true,
+    processingPolls: themeProcessingPolls,
+    files: defaultThemeFiles(),
+  };
+  store.themes.set(theme.id, theme);
+  return { theme: { id: theme.id, name: theme.name, role: theme.role, processing: true }, userErrors: [] };
+}
+
+function theme(vars: Variables, { store }: ExecutionContext, document: string) {
+  const found = store.themes.get(vars.id ?? vars.themeId);
+  if (!found) return null;
+  if (found.processing) {
+    if (found.processingPolls > 0) found.processingPolls--;
+    else found.processing = false;
+  }
+  return themeNode(found, vars.filenames || literalList(document, "filenames"));
+}
+
+function themes(vars: Variables, { store }: ExecutionContext, document: string) {
+  const roles: string[] | undefined = vars.roles || literalList(document, "roles");
+  const nodes = Array.from(store.themes.values())
+    .filter((t) => !roles || roles.includes(t.role))
+    .map((t) => ({ id: t.id, name: t.name, role: t.role, processing: t.processing }));
+  return connection(nodes.slice(0, vars.first ?? nodes.length));
+}
+
+function themeFilesUpsert(vars: Variables, { store }: ExecutionContext) {
+  const found = store.themes.get(vars.themeId);
+  if (!found) return { upsertedThemeFiles: null, ...notFound(["themeId"], "Theme") };
+  const files = (vars.files || []) as Variables[];
+  for (const file of files) {
+    const body = file.body || {};
+    found.files.set(file.filename, body.type === "BASE64" ? Buffer.from(body.value, "base64").toString("utf8") : body.value);
+  }
+  return { upsertedThemeFiles: files.map((f) => ({ filename: f.filename })), userErrors: [] };
+}
+
+function themePublish(vars: Variables, { store }: ExecutionContext) {
+  const found = store.themes.get(vars.id);
+  if (!found) return { theme: null, ...notFound(["id"], "Theme") };
+  if (found.processing) return { theme: null, userErrors: [{ field: ["id"], message: "Theme is still processing" }] };
+  const current = store.mainTheme();
+  if (current && current !== found) current.role = "UNPUBLISHED";
+  found.role = "MAIN";
+  return { theme: { id: found.id, name: found.name, role: found.role }, userErrors: [] };
+}
+
+function themeDelete(vars: Variables, { store }: ExecutionContext) {
+  const found = store.themes.get(vars.id);
+  if (!found) return { deletedThemeId: null, ...notFound(["id"], "Theme") };
+  if (found.role === "MAIN") return { deletedThemeId: null, userErrors: [{ field: ["id"], message: "Cannot delete the published theme" }] };
+  store.themes.delete(found.id);
+  return { deletedThemeId: found.id, userErrors: [] };
+}
+
+// ── Páginas e menus ──
+
+function pageCreate(vars: Variables, { store }: ExecutionContext) {
+  const input = vars.page || {};
+  if (!input.title) return { page: null, userErrors: [{ field: ["page", "title"], message: "Title can't be blank" }] };
+  const handle = input.handle || store.uniqueHandle(store.pages.values(), input.title);
+  if (Array.from(store.pages.values()).some((p) => p.handle === handle)) {
+    return { page: null, userErrors: [handleTaken(["page", "handle"], handle)] };
+  }
+  const page: MockPage = {
+    id: store.nextId("Page"),
+    title: input.title,
+    handle,
+    body: input.body || "",
+    isPublished: input.isPublished ?? true,
+    publicationIds: [],
+  };
+  store.pages.set(page.id, page);
+  return { page: pageNode(page), userErrors: [] };
+}
+
+function pageDelete(vars: Variables, { store }: ExecutionContext) {
+  if (!store.pages.delete(vars.id)) return { deletedPageId: null, ...notFound(["id"], "Page") };
+  return { deletedPageId: vars.id, userErrors: [] };
+}
+
+function resourceUrl(store: MockStore, resourceId: string): string | null | undefined {
+  const collection = store.collections.get(resourceId);
+  if (collection) return `/collections/${collection.handle}`;
+  const page = store.pages.get(resourceId);
+  if (page) return `/pages/${page.handle}`;
+  const product = store.products.get(resourceId);
+  if (product) return `/products/${product.handle}`;
+  return undefined;
+}
+
+function buildMenuItems(store: MockStore, inputs: Variables[], path: string[], userErrors: MockUserError[]): MockMenuItem[] {
+  return inputs.map((input, i) => {
+    let url: string | null = input.url ?? null;
+    if (input.resourceId) {
+      const resolved = resourceUrl(store, input.resourceId);
+      if (resolved === undefined) {
+        userErrors.push({ field: [...path, String(i), "resourceId"], message: "Resource does not exist" });
+      } else {
+        url = resolved;
+      }
+    }
+    return {
+      id: input.id || store.nextId("MenuItem"),
+      title: input.title,
+      type: input.type,
+      url,
+      resourceId: input.resourceId ?? null,
+      tags: input.tags || [],
+      items: buildMenuItems(store, input.items || [], [...path, String(i), "items"], userErrors),
+    };
+  });
+}
+
+function menuCreate(vars: Variables, { store }: ExecutionContext) {
+  if (Array.from(store.menus.values()).some((m) => m.handle === vars.handle)) {
+    return { menu: null, userErrors: [handleTaken(["handle"], vars.handle)] };
+  }
+  const userErrors: MockUserError[] = [];
+  const items = buildMenuItems(store, vars.items || [], ["items"], userErrors);
+  if (userErrors.length > 0) return { menu: null, userErrors };
+  const menu: MockMenu = { id: store.nextId("Menu"), handle: vars.handle, title: vars.title, isDefault: false, items };
+  store.menus.set(menu.id, menu);
+  return { menu: menuNode(menu), userErrors: [] };
+}
+
+function menuUpdate(vars: Variables, { store }: ExecutionContext) {
+  const menu = store.menus.get(vars.id);
+  if (!menu) return { menu: null, ...notFound(["id"], "Menu") };
+  const userErrors: MockUserError[] = [];
+  const items = buildMenuItems(store, vars.items || [], ["items"], userErrors);
+  if (userErrors.length > 0) return { menu: null, userErrors };
+  menu.title = vars.title ?? menu.title;
+  menu.items = items;
+  return { menu: menuNode(menu), userErrors: [] };
+}
+
+function menuDelete(vars: Variables, { store }: ExecutionContext) {
+  const menu = store.menus.get(vars.id);
+  if (!menu) return { deletedMenuId: null, ...notFound(["id"], "Menu") };
+  if (menu.isDefault) return { deletedMenuId: null, userErrors: [{ field: ["id"], message: "Default menus can't be deleted" }] };
+  store.menus.delete(menu.id);
+  return { deletedMenuId: menu.id, userErrors: [] };
+}
+
+// ── Bulk operations ──
+
+// A operação roda por inteiro ao ser criada e já aparece COMPLETED no primeiro polling.
+function bulkOperationRunMutation(vars: Variables, ctx: ExecutionContext) {
+  const upload = ctx.store.uploads.get(vars.stagedUploadPath);
+  if (!upload) {
+    return {
+      bulkOperation: null,
+      userErrors: [{ field: ["stagedUploadPath"], message: "The JSONL file could not be found. Try uploading the file again." }],
+    };
+  }
+  if (parseOperation(vars.mutation || "")?.type !== "mutation") {
+    return { bulkOperation: null, userErrors: [{ field: ["mutation"], message: "Invalid bulk mutation" }] };
+  }
+
+  const lines = new TextDecoder().decode(upload.body).split("\n").filter((line) => line.trim());
+  const results = lines.map((line, i) =>
+    JSON.stringify({ ...executeOperation(vars.mutation, JSON.parse(line), ctx), __lineNumber: i })
+  );
+  const operation: MockBulkOperation = {
+    id: ctx.store.nextId("BulkOperation"),
+    status: "COMPLETED",
+    errorCode: null,
+    objectCount: lines.length,
+    results: results.join("\n"),
+  };
+  ctx.store.bulkOperations.set(operation.id, operation);
+  return { bulkOperation: { id: operation.id, status: "CREATED" }, userErrors: [] };
+}
+
+function bulkOperationCancel(vars: Variables, { store }: ExecutionContext) {
+  const operation = store.bulkOperations.get(vars.id);
+  if (!operation) return { bulkOperation: null, ...notFound(["id"], "Bulk operation") };
+  if (operation.status !== "CREATED" && operation.status !== "RUNNING") {
+    return {
+      bulkOperation: { id: operation.id, status: operation.status },
+      userErrors: [{ field: ["id"], message: `A bulk operation cannot be canceled when it is ${operation.status.toLowerCase()}` }],
+    };
+  }
+  operation.status = "CANCELED";
+  return { bulkOperation: { id: operation.id, status: operation.status }, userErrors: [] };
+}
+
+function node(vars: Variables, { store, baseUrl }: ExecutionContext) {
+  const id: string = vars.id || "";
+  const type = id.split("/")[3];
+  if (type === "BulkOperation") {
+    const operation = store.bulkOperations.get(id);
+    return operation ? bulkOperationNode(operation, baseUrl) : null;
+  }
+  if (type === "MediaImage") {
+    const file = store.files.get(id);
+    return file ? fileNode(file) : null;
+  }
+  if (type === "Product") {
+    const product = store.products.get(id);
+    return product ? productNode(product) : null;
+  }
+  if (type === "Collection") {
+    const collection = store.collections.get(id);
+    return collection ? collectionNode(collection) : null;
+  }
+  return null;
+}
+
+const QUERIES: Record<string, Resolver> = {
+  locations: (vars, { store }) => connection(store.locations.slice(0, vars.first ?? store.locations.length)),
+  publications: (vars, { store }) => connection(store.publications.slice(0, vars.first ?? store.publications.length)),
+  taxonomy: (vars, { store }) => {
+    const search = String(vars.search || "").toLowerCase();
+    return { categories: connection(store.taxonomyCategories.filter((c) => c.fullName.toLowerCase().includes(search))) };
+  },
+  metafieldDefinitions,
+  productByIdentifier: (vars, { store }) => {
+    const handle = vars.handle ?? vars.identifier?.handle;
+    const product = vars.identifier?.id ? store.products.get(vars.identifier.id) : store.findProductByHandle(handle);
+    return product ? productNode(product) : null;
+  },
+  product: (vars, { store }) => {
+    const product = store.products.get(vars.id);
+    return product ? productNode(product) : null;
+  },
+  productVariants,
+  collectionByHandle: (vars, { store }) => {
+    const collection = store.findCollectionByHandle(vars.handle);
+    return collection ? collectionNode(collection) : null;
+  },
+  collections: (vars, { store }) => connection(Array.from(store.collections.values(), collectionNode).slice(0, vars.first)),
+  pages: (vars, { store }) => connection(Array.from(store.pages.values(), pageNode).slice(0, vars.first)),
+  menus: (vars, { store }) => connection(Array.from(store.menus.values(), menuNode).slice(0, vars.first)),
+  themes,
+  theme,
+  node,
+};
+
+const MUTATIONS: Record<string, Resolver> = {
+  productCreate,
+  productUpdate,
+  productSet,
+  productDelete,
+  productOptionsCreate,
+  productVariantsBulkCreate,
+  productVariantsBulkUpdate,
+  productVariantAppendMedia,
+  publishablePublish,
+  metafieldDefinitionCreate,
+  metafieldDefinitionDelete,
+  collectionCreate,
+  collectionUpdate,
+  collectionAddProducts,
+  collectionDelete,
+  stagedUploadsCreate,
+  fileCreate,
+  fileDelete,
+  themeCreate,
+  themeFilesUpsert,
+  themePublish,
+  themeDelete,
+  pageCreate,
+  pageDelete,
+  menuCreate,
+  menuUpdate,
+  menuDelete,
+  bulkOperationRunMutation,
+  bulkOperationCancel,
+};
+
+export function executeOperation(document: string, variables: Variables | undefined, ctx: ExecutionContext): GraphQLResult {
+  const operation = parseOperation(document);
+  if (!operation) return { errors: [{ message: "Parse error: operation not found" }] };
+
+  const resolver = (operation.type === "mutation" ? MUTATIONS : QUERIES)[operation.field];
+  if (!resolver) {
+    const root = operation.type === "mutation" ? "Mutation" : "QueryRoot";
+    return {
+      errors: [{
+        message: `Field '${operation.field}' doesn't exist on type '${root}'`,
+        extensions: { code: "undefinedField", typeName: root, fieldName: operation.field },
+      }],
+    };
+  }
+
+  if (operation.type === "mutation") {
+    const injected = ctx.takeUserErrors(operation.field);
+    if (injected) {
+      const payload = Object.fromEntries(payloadFields(document, operation.field).map((name) => [name, null]));
+      return { data: { [operation.field]: withErrorCodes(document, { ...payload, userErrors: injected }) } };
+    }
+  }
+
+  try {
+    return { data: { [operation.field]: withErrorCodes(document, resolver(variables || {}, ctx, document)) } };
+  } catch (err) {
+    return { errors: [{ message: err instanceof Error ? err.message : "Internal error" }] };
+  }
+}
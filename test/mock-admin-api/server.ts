@@ -0,0 +1,232 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { executeOperation, parseOperation, type ExecutionContext, type GraphQLResult, type MockUserError } from "./operations";
+import { MockStore } from "./store";
+
+// Admin API simulada num servidor HTTP local. Com SHOPIFY_ADMIN_BASE_URL apontando para
+// `url`, o ShopifyClient das rotas fala com ela em vez da loja real.
+
+export interface MockAdminApiOptions {
+  port?: number;
+  // Loja vazia, sem o tema Dawn e os menus padrão.
+  emptyStore?: boolean;
+  // Balde de custo da loja (leaky bucket), como no plano padrão da Shopify.
+  maximumAvailable?: number;
+  restoreRate?: number;
+  // requestedQueryCost de cada operação.
+  queryCost?: number;
+  themeProcessingPolls?: number;
+}
+
+export interface MockAdminApiCall {
+  operation: string;
+  type: "query" | "mutation";
+  variables: Record<string, unknown>;
+  throttled: boolean;
+}
+
+export interface MockAdminApi {
+  url: string;
+  store: MockStore;
+  calls: MockAdminApiCall[];
+  callsTo(operation: string): MockAdminApiCall[];
+  // As próximas `times` chamadas da mutation respondem só com esses userErrors.
+  injectUserErrors(operation: string, userErrors: MockUserError[], times?: number): void;
+  // As próximas `times` requisições GraphQL respondem THROTTLED, com o balde zerado.
+  injectThrottle(times?: number): void;
+  close(): Promise<void>;
+}
+
+const API_PATH = /^\/admin\/api\/[\w-]+\/graphql\.json$/;
+
+class ThrottleBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly maximumAvailable: number, readonly restoreRate: number) {
+    this.available = maximumAvailable;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.maximumAvailable, this.available + ((now - this.updatedAt) / 1000) * this.restoreRate);
+    this.updatedAt = now;
+  }
+
+  take(cost: number): boolean {
+    this.refill();
+    if (this.available < cost) return false;
+    this.available -= cost;
+    return true;
+  }
+
+  drain() {
+    this.refill();
+    this.available = 0;
+  }
+
+  status() {
+    this.refill();
+    return {
+      maximumAvailable: this.maximumAvailable,
+      currentlyAvailable: Math.floor(this.available),
+      restoreRate: this.restoreRate,
+    };
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, contentType = "application/json") {
+  res.writeHead(status, { "Content-Type": contentType });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+export async function startMockAdminApi(options: MockAdminApiOptions = {}): Promise<MockAdminApi> {
+  const store = new MockStore(!options.emptyStore);
+  const bucket = new ThrottleBucket(options.maximumAvailable ?? 1000, options.restoreRate ?? 50);
+  const queryCost = options.queryCost ?? 10;
+  const calls: MockAdminApiCall[] = [];
+  const injectedUserErrors = new Map<string, { userErrors: MockUserError[]; times: number }[]>();
+  let injectedThrottles = 0;
+  let baseUrl = "";
+
+  const ctx: ExecutionContext = {
+    store,
+    get baseUrl() {
+      return baseUrl;
+    },
+    themeProcessingPolls: options.themeProcessingPolls ?? 0,
+    takeUserErrors(operation) {
+      const queue = injectedUserErrors.get(operation);
+      const next = queue?.[0];
+      if (!next) return undefined;
+      if (--next.times <= 0) queue.shift();
+      return next.userErrors;
+    },
+  };
+
+  function handleGraphQL(body: Buffer): GraphQLResult & { extensions: Record<string, unknown> } {
+    const { query, variables } = JSON.parse(body.toString("utf8")) as { query: string; variables?: Record<string, unknown> };
+    const operation = parseOperation(query);
+
+    let throttled = false;
+    if (injectedThrottles > 0) {
+      injectedThrottles--;
+      bucket.drain();
+      throttled = true;
+    } else {
+      throttled = !bucket.take(queryCost);
+    }
+    calls.push({
+      operation: operation?.field ?? "(parse error)",
+      type: operation?.type ?? "query",
+      variables: variables || {},
+      throttled,
+    });
+
+    if (throttled) {
+      return {
+        errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+        extensions: { cost: { requestedQueryCost: queryCost, actualQueryCost: null, throttleStatus: bucket.status() } },
+      };
+    }
+    return {
+      ...executeOperation(query, variables, ctx),
+      extensions: { cost: { requestedQueryCost: queryCost, actualQueryCost: queryCost, throttleStatus: bucket.status() } },
+    };
+  }
+
+  // Upload para o staged target: multipart com os parâmetros do target e o campo "file".
+  async function handleStagedUpload(req: http.IncomingMessage, body: Buffer) {
+    const form = await new Request("http://mock/staged-uploads", {
+      method: "POST",
+      headers: { "Content-Type": req.headers["content-type"] || "" },
+      body: new Uint8Array(body),
+    }).formData();
+    const key = form.get("key");
+    const file = form.get("file");
+    if (typeof key !== "string" || !file || typeof file === "string") return false;
+    store.uploads.set(key, {
+      filename: file.name,
+      contentType: String(form.get("Content-Type") || file.type),
+      body: new Uint8Array(await file.arrayBuffer()),
+    });
+    return true;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const path = (req.url || "/").split("?")[0];
+      const body = await readBody(req);
+
+      if (req.method === "POST" && API_PATH.test(path)) {
+        if (!req.headers["x-shopify-access-token"]) {
+          send(res, 401, { errors: "[API] Invalid API key or access token (unrecognized login or wrong password)" });
+          return;
+        }
+        send(res, 200, handleGraphQL(body));
+        return;
+      }
+
+      if (req.method === "POST" && path === "/staged-uploads") {
+        const stored = await handleStagedUpload(req, body);
+        send(res, stored ? 201 : 400, stored ? "" : "Missing key or file", "text/plain");
+        return;
+      }
+
+      if (req.method === "GET" && path.startsWith("/staged-uploads/")) {
+        const upload = store.uploads.get(decodeURIComponent(path.slice("/staged-uploads/".length)));
+        if (!upload) {
+          send(res, 404, "Not found", "text/plain");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": upload.contentType });
+        res.end(Buffer.from(upload.body));
+        return;
+      }
+
+      const bulk = /^\/bulk-results\/(\d+)\.jsonl$/.exec(path);
+      if (req.method === "GET" && bulk) {
+        const operation = store.bulkOperations.get(`gid://shopify/BulkOperation/${bulk[1]}`);
+        if (!operation) {
+          send(res, 404, "Not found", "text/plain");
+          return;
+        }
+        send(res, 200, operation.results, "application/jsonl");
+        return;
+      }
+
+      send(res, 404, { errors: "Not Found" });
+    } catch (err) {
+      send(res, 500, { errors: err instanceof Error ? err.message : "Internal error" });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    store,
+    calls,
+    callsTo: (operation) => calls.filter((c) => c.operation === operation && !c.throttled),
+    injectUserErrors(operation, userErrors, times = 1) {
+      const queue = injectedUserErrors.get(operation) || [];
+      queue.push({ userErrors, times });
+      injectedUserErrors.set(operation, queue);
+    },
+    injectThrottle(times = 1) {
+      injectedThrottles += times;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
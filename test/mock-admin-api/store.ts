@@ -0,0 +1,266 @@
+import { slugify } from "@/lib/validators";
+
+// Estado em memória da loja simulada. Os recursos guardam só o que as rotas leem ou
+// escrevem; os resolvers de operations.ts montam as respostas a partir daqui.
+
+export interface MockMetafield {
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+}
+
+export interface MockMedia {
+  id: string;
+  alt: string;
+  originalSource: string;
+  url: string;
+  status: "UPLOADED" | "PROCESSING" | "READY" | "FAILED";
+}
+
+export interface MockVariant {
+  id: string;
+  title: string;
+  price: string;
+  compareAtPrice: string | null;
+  barcode: string | null;
+  sku: string | null;
+  taxable: boolean;
+  inventoryPolicy: "DENY" | "CONTINUE";
+  selectedOptions: { name: string; value: string }[];
+  metafields: MockMetafield[];
+  mediaIds: string[];
+}
+
+export interface MockProduct {
+  id: string;
+  handle: string;
+  title: string;
+  descriptionHtml: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  status: "ACTIVE" | "DRAFT" | "ARCHIVED";
+  category: string | null;
+  seo: { title: string | null; description: string | null };
+  metafields: MockMetafield[];
+  options: { name: string; values: string[] }[];
+  variants: MockVariant[];
+  media: MockMedia[];
+  publicationIds: string[];
+}
+
+export interface MockCollection {
+  id: string;
+  handle: string;
+  title: string;
+  ruleSet: { appliedDisjunctively: boolean; rules: unknown[] } | null;
+  productIds: string[];
+  imageUrl: string | null;
+  publicationIds: string[];
+}
+
+export interface MockTheme {
+  id: string;
+  name: string;
+  role: "MAIN" | "UNPUBLISHED" | "DEVELOPMENT";
+  source: string | null;
+  processing: boolean;
+  // Leituras de status que ainda respondem processing: true.
+  processingPolls: number;
+  files: Map<string, string>;
+}
+
+export interface MockPage {
+  id: string;
+  title: string;
+  handle: string;
+  body: string;
+  isPublished: boolean;
+  publicationIds: string[];
+}
+
+export interface MockMenuItem {
+  id: string;
+  title: string;
+  type: string;
+  url: string | null;
+  resourceId: string | null;
+  tags: string[];
+  items: MockMenuItem[];
+}
+
+export interface MockMenu {
+  id: string;
+  handle: string;
+  title: string;
+  isDefault: boolean;
+  items: MockMenuItem[];
+}
+
+export interface MockFile {
+  id: string;
+  alt: string;
+  originalSource: string;
+  url: string;
+  status: "UPLOADED" | "PROCESSING" | "READY" | "FAILED";
+}
+
+export interface MockMetafieldDefinition {
+  id: string;
+  name: string;
+  namespace: string;
+  key: string;
+  type: string;
+  ownerType: string;
+}
+
+export interface MockBulkOperation {
+  id: string;
+  status: "CREATED" | "RUNNING" | "COMPLETED" | "CANCELING" | "CANCELED" | "FAILED";
+  errorCode: string | null;
+  objectCount: number;
+  // JSONL de resultado, uma linha por linha de entrada com __lineNumber.
+  results: string;
+}
+
+export interface MockUpload {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+export const ONLINE_STORE_PUBLICATION_ID = "gid://shopify/Publication/1";
+
+// Arquivos do tema que o step7 lê e altera: um slideshow e uma collection-list na home.
+export function defaultThemeFiles(): Map<string, string> {
+  return new Map([
+    ["config/settings_data.json", JSON.stringify({ current: { colors_accent_1: "#121212" }, presets: {} })],
+    [
+      "templates/index.json",
+      JSON.stringify({
+        sections: {
+          slideshow: {
+            type: "slideshow",
+            blocks: { slide_1: { type: "slide", settings: {} } },
+            block_order: ["slide_1"],
+            settings: {},
+          },
+          collection_list: {
+            type: "collection-list",
+            blocks: {},
+            block_order: [],
+            settings: { columns_desktop: 3 },
+          },
+        },
+        order: ["slideshow", "collection_list"],
+      }),
+    ],
+    ["layout/theme.liquid", "<!doctype html><html>{{ content_for_layout }}</html>"],
+  ]);
+}
+
+export class MockStore {
+  private sequence = 1000;
+
+  readonly locations = [{ id: "gid://shopify/Location/1", name: "Shop location", isPrimary: true }];
+  readonly publications = [
+    { id: ONLINE_STORE_PUBLICATION_ID, name: "Online Store", supportsFuturePublishing: false },
+    { id: "gid://shopify/Publication/2", name: "Point of Sale", supportsFuturePublishing: false },
+  ];
+  readonly taxonomyCategories = [
+    { id: "gid://shopify/TaxonomyCategory/aa-1-13-8", fullName: "Apparel & Accessories > Clothing > Clothing Tops > T-Shirts" },
+    { id: "gid://shopify/TaxonomyCategory/aa-1-13", fullName: "Apparel & Accessories > Clothing > Clothing Tops" },
+    { id: "gid://shopify/TaxonomyCategory/hg-11-5", fullName: "Home & Garden > Kitchen & Dining > Drinkware > Mugs" },
+  ];
+
+  readonly products = new Map<string, MockProduct>();
+  readonly collections = new Map<string, MockCollection>();
+  readonly themes = new Map<string, MockTheme>();
+  readonly pages = new Map<string, MockPage>();
+  readonly menus = new Map<string, MockMenu>();
+  readonly files = new Map<string, MockFile>();
+  readonly metafieldDefinitions = new Map<string, MockMetafieldDefinition>();
+  readonly bulkOperations = new Map<string, MockBulkOperation>();
+  readonly uploads = new Map<string, MockUpload>();
+
+  constructor(seed = true) {
+    if (seed) this.seed();
+  }
+
+  nextNumber(): number {
+    return ++this.sequence;
+  }
+
+  nextId(type: string): string {
+    return `gid://shopify/${type}/${this.nextNumber()}`;
+  }
+
+  // Loja recém-criada: tema Dawn publicado e os menus padrão da Shopify.
+  private seed() {
+    const dawn: MockTheme = {
+      id: this.nextId("OnlineStoreTheme"),
+      name: "Dawn",
+      role: "MAIN",
+      source: null,
+      processing: false,
+      processingPolls: 0,
+      files: defaultThemeFiles(),
+    };
+    this.themes.set(dawn.id, dawn);
+
+    this.addMenu("main-menu", "Main menu", [
+      { title: "Home", type: "FRONTPAGE", url: "/" },
+      { title: "Catalog", type: "CATALOG", url: "/collections/all" },
+      { title: "Contact", type: "HTTP", url: "/pages/contact" },
+    ]);
+    this.addMenu("footer", "Footer menu", [{ title: "Search", type: "SEARCH", url: "/search" }]);
+  }
+
+  private addMenu(handle: string, title: string, items: { title: string; type: string; url: string }[]) {
+    const menu: MockMenu = {
+      id: this.nextId("Menu"),
+      handle,
+      title,
+      isDefault: true,
+      items: items.map((item) => ({
+        id: this.nextId("MenuItem"),
+        ...item,
+        resourceId: null,
+        tags: [],
+        items: [],
+      })),
+    };
+    this.menus.set(menu.id, menu);
+  }
+
+  // URL de CDN para a mídia: as rotas só usam o nome do arquivo (step7, diff do upsert).
+  cdnUrl(source: string): string {
+    const name = source.split("?")[0].split("/").pop() || "file";
+    return `https://cdn.shopify.com/s/files/1/0000/0001/files/${name}`;
+  }
+
+  uniqueHandle(taken: Iterable<{ handle: string }>, title: string): string {
+    const handles = new Set(Array.from(taken, (r) => r.handle));
+    const base = slugify(title) || "untitled";
+    let handle = base;
+    for (let n = 1; handles.has(handle); n++) handle = `${base}-${n}`;
+    return handle;
+  }
+
+  findProductByHandle(handle: string): MockProduct | undefined {
+    return Array.from(this.products.values()).find((p) => p.handle === handle);
+  }
+
+  findCollectionByHandle(handle: string): MockCollection | undefined {
+    return Array.from(this.collections.values()).find((c) => c.handle === handle);
+  }
+
+  findPublishable(id: string): { publicationIds: string[] } | undefined {
+    return this.products.get(id) || this.collections.get(id) || this.pages.get(id);
+  }
+
+  mainTheme(): MockTheme | undefined {
+    return Array.from(this.themes.values()).find((t) => t.role === "MAIN");
+  }
+}
@@ -0,0 +1,415 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as step1Csv } from "@/app/api/onboarding/step1-csv/route";
+import { POST as step2Products } from "@/app/api/onboarding/step2-products/route";
+import { POST as step3Collections } from "@/app/api/onboarding/step3-collections/route";
+import { POST as step4Theme } from "@/app/api/onboarding/step4-theme/route";
+import { POST as step5Images } from "@/app/api/onboarding/step5-images/route";
+import { POST as step6Publish } from "@/app/api/onboarding/step6-publish/route";
+import { POST as step7Configure } from "@/app/api/onboarding/step7-configure/route";
+import { POST as step8Menus } from "@/app/api/onboarding/step8-menus/route";
+import { POST as cancelStep } from "@/app/api/onboarding/cancel/route";
+import { startMockAdminApi, type MockAdminApi } from "./mock-admin-api/server";
+import { ONLINE_STORE_PUBLICATION_ID } from "./mock-admin-api/store";
+import {
+  fixtureFile,
+  formRequest,
+  jsonRequest,
+  pngFile,
+  readEvents,
+  streamEvents,
+  themeZipFile,
+  type Json,
+} from "./helpers";
+
+const session = vi.hoisted(() => ({ shop: "mock-store.myshopify.com", accessToken: "mock-access-token" }));
+const blobs = vi.hoisted(() => new Map<string, Blob>());
+
+vi.mock("@/lib/session", () => ({ getSession: async () => session }));
+vi.mock("@vercel/blob", () => ({
+  put: async (pathname: string, body: Blob) => {
+    const url = `https://blob.example.com/${pathname}`;
+    blobs.set(url, body);
+    return { url, pathname };
+  },
+  del: async (url: string) => {
+    blobs.delete(url);
+  },
+}));
+
+let api: MockAdminApi;
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // Sem Supabase: checkpoints e registro de recursos ficam desligados.
+  vi.stubEnv("SUPABASE_URL", "");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "");
+  api = await startMockAdminApi();
+  vi.stubEnv("SHOPIFY_ADMIN_BASE_URL", api.url);
+});
+
+afterEach(async () => {
+  await api.close();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  blobs.clear();
+});
+
+async function validateCsv(): Promise<Json> {
+  const res = await step1Csv(formRequest("/api/onboarding/step1-csv", {
+    csv: fixtureFile("products.csv", "text/csv"),
+  }));
+  return res.json();
+}
+
+async function importProducts(
+  validation: Json,
+  fields: Record<string, string> = {},
+  headers: Record<string, string> = {}
+): Promise<Json[]> {
+  const res = await step2Products(formRequest("/api/onboarding/step2-products", {
+    csv: fixtureFile("products.csv", "text/csv"),
+    encoding: validation.encoding,
+    delimiter: validation.delimiter,
+    totalProducts: String(validation.totalProducts),
+    ...fields,
+  }, headers));
+  return readEvents(res);
+}
+
+const SIMULATE = { "X-Onboarding-Simulate": "1" };
+
+const THEME_FILES = {
+  "layout/theme.liquid": "<html>{{ content_for_layout }}</html>",
+  "config/settings_data.json": "{\"current\":{}}",
+  "templates/index.json": "{\"sections\":{},\"order\":[]}",
+};
+
+// Plano resumido como "ação recurso alvo", na ordem em que as mutations foram registradas.
+function planOf(data: Json): string[] {
+  return data.simulation.plan.map((c: Json) => `${c.action} ${c.resource} ${c.target}`);
+}
+
+function product(handle: string) {
+  const found = api.store.findProductByHandle(handle);
+  if (!found) throw new Error(`Produto ${handle} não foi criado`);
+  return found;
+}
+
+describe("pipeline de onboarding contra a Admin API simulada", () => {
+  it("executa as oito etapas e deixa a loja configurada", async () => {
+    // 1 — Validar CSV
+    const validation = await validateCsv();
+    expect(validation.success).toBe(true);
+    expect(validation.totalProducts).toBe(2);
+
+    // 2 — Importar produtos
+    const events = await importProducts(validation);
+    const imported = events.at(-1);
+    expect(imported).toMatchObject({ type: "complete", success: true, imported: 2, failed: 0 });
+    expect(events.filter((e) => e.type === "progress").at(-1)).toMatchObject({ processed: 2, total: 2 });
+
+    const tee = product("classic-tee");
+    expect(tee.variants.map((v) => [v.title, v.sku, v.price])).toEqual([
+      ["S", "TEE-S", "19.90"],
+      ["M", "TEE-M", "19.90"],
+      ["L", "TEE-L", "21.90"],
+    ]);
+    expect(tee.options).toEqual([{ name: "Size", values: ["S", "M", "L"] }]);
+    expect(tee.category).toBe("gid://shopify/TaxonomyCategory/aa-1-13-8");
+    expect(tee.metafields).toContainEqual(expect.objectContaining({ namespace: "custom", key: "material", value: "Algodão" }));
+    expect(tee.variants[1].mediaIds).toEqual([tee.media[1].id]);
+    expect(tee.publicationIds).toEqual([ONLINE_STORE_PUBLICATION_ID]);
+    expect(product("ceramic-mug").variants.map((v) => v.title)).toEqual(["Default Title"]);
+    expect(api.store.metafieldDefinitions.size).toBe(1);
+
+    // 3 — Criar coleções
+    const collectionsRes = await step3Collections(jsonRequest("/api/onboarding/step3-collections", {
+      collections: ["Summer", "Kitchen"],
+      productIds: imported.productIds,
+      products: imported.products,
+      collectionRules: [],
+    }));
+    const collections: Json = await collectionsRes.json();
+    expect(collections.success).toBe(true);
+    expect(collections.collections.map((c: Json) => c.handle)).toEqual(["summer", "kitchen"]);
+
+    const bestSellers = api.store.findCollectionByHandle("best-sellers");
+    expect(bestSellers?.productIds).toHaveLength(2);
+    expect(api.store.findCollectionByHandle("summer")?.productIds).toEqual([tee.id]);
+    expect(api.store.findCollectionByHandle("kitchen")?.productIds).toEqual([product("ceramic-mug").id]);
+
+    // 4 — Upload do tema
+    const themeRes = await step4Theme(formRequest("/api/onboarding/step4-theme", {
+      themeZip: new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04])], "theme.zip", { type: "application/zip" }),
+    }));
+    const theme: Json = await themeRes.json();
+    expect(theme.success).toBe(true);
+    const createdTheme = api.store.themes.get(theme.themeId);
+    expect(createdTheme).toMatchObject({ name: "VT-PRO - mock-store", role: "UNPUBLISHED", processing: false });
+    expect(createdTheme?.source).toMatch(/^https:\/\/blob\.example\.com\/themes\//);
+    expect(blobs.size).toBe(0);
+
+    // 5 — Upload de imagens
+    const imagesRes = await step5Images(formRequest("/api/onboarding/step5-images", {
+      logo: pngFile("logo.png"),
+      bannerDesktop: pngFile("banner.png"),
+      collection_image_0: pngFile("summer.png"),
+      collectionMeta: JSON.stringify(collections.collections.map((c: Json, i: number) => ({
+        ...c,
+        imageIndex: i === 0 ? 0 : null,
+      }))),
+    }));
+    const images: Json = await imagesRes.json();
+    expect(images).toMatchObject({ success: true, uploaded: 3, failed: 0 });
+    expect(images.logoUrl).toMatch(new RegExp(`^${api.url}/staged-uploads/tmp/\\d+/logo\\.png$`));
+    expect(api.store.uploads.size).toBe(3);
+    expect(api.store.findCollectionByHandle("summer")?.imageUrl).toBe(images.collectionImages[0].url);
+
+    // 6 — Configurar tema
+    const configureRes = await step7Configure(jsonRequest("/api/onboarding/step7-configure", {
+      themeId: theme.themeId,
+      primaryColor: "#ff5500",
+      secondaryColor: "#003366",
+      logoUrl: images.logoUrl,
+      bannerDesktopUrl: images.bannerDesktopUrl,
+      collections: collections.collections,
+    }));
+    const configure: Json = await configureRes.json();
+    expect(configure).toMatchObject({ success: true, files: ["config/settings_data.json", "templates/index.json"] });
+
+    const settings = JSON.parse(createdTheme!.files.get("config/settings_data.json")!);
+    expect(settings.current).toMatchObject({
+      logo: "shopify://shop_images/logo.png",
+      colors_accent_1: "#ff5500",
+      colors_accent_2: "#003366",
+    });
+    const index = JSON.parse(createdTheme!.files.get("templates/index.json")!);
+    expect(index.sections.slideshow.blocks.slide_1.settings.image).toBe("shopify://shop_images/banner.png");
+    expect(Object.values(index.sections.collection_list.blocks).map((b: Json) => b.settings.collection))
+      .toEqual(["summer", "kitchen"]);
+
+    // 7 — Publicar tema
+    const publishRes = await step6Publish(jsonRequest("/api/onboarding/step6-publish", { themeId: theme.themeId }));
+    expect(await publishRes.json()).toMatchObject({ success: true, themeRole: "MAIN" });
+    expect(api.store.mainTheme()?.id).toBe(theme.themeId);
+    expect(Array.from(api.store.themes.values()).find((t) => t.name === "Dawn")?.role).toBe("UNPUBLISHED");
+
+    // 8 — Menus e políticas
+    const menusRes = await step8Menus(jsonRequest("/api/onboarding/step8-menus", {
+      collections: collections.collections,
+      storeDisplayName: "Mock Store",
+    }));
+    const menus: Json = await menusRes.json();
+    expect(menus.success).toBe(true);
+    expect(menus.errors).toEqual([]);
+    expect(api.store.pages.size).toBe(7);
+
+    const menuByHandle = (handle: string) => Array.from(api.store.menus.values()).find((m) => m.handle === handle);
+    expect(menuByHandle("main-menu")?.items.map((i) => [i.title, i.url])).toEqual([
+      ["Summer", "/collections/summer"],
+      ["Kitchen", "/collections/kitchen"],
+    ]);
+    expect(menuByHandle("footer")?.items.map((i) => i.url)).toEqual([
+      "/pages/privacy-policy",
+      "/pages/terms-of-service",
+      "/pages/refund-policy",
+      "/pages/shipping-policy",
+      "/pages/contact-us",
+      "/pages/legal-information",
+      "/pages/about-us",
+    ]);
+  });
+
+  it("importa em modo bulk com productSet e publica numa segunda bulk operation", async () => {
+    const events = await importProducts(await validateCsv(), { importMode: "bulk" });
+    expect(events.at(-1)).toMatchObject({ type: "complete", success: true, imported: 2, failed: 0 });
+
+    expect(api.callsTo("productCreate")).toHaveLength(0);
+    expect(api.store.bulkOperations.size).toBe(2);
+    const tee = product("classic-tee");
+    expect(tee.variants.map((v) => v.sku)).toEqual(["TEE-S", "TEE-M", "TEE-L"]);
+    expect(tee.variants[1].mediaIds).toHaveLength(1);
+    expect(tee.publicationIds).toEqual([ONLINE_STORE_PUBLICATION_ID]);
+  });
+
+  it("espera o balde recuperar e repete a query quando a Admin API responde THROTTLED", async () => {
+    const validation = await validateCsv();
+    api.injectThrottle(2);
+
+    const events = await importProducts(validation);
+    expect(events.at(-1)).toMatchObject({ type: "complete", imported: 2, failed: 0 });
+    expect(api.calls.filter((c) => c.throttled).map((c) => c.operation)).toEqual(["locations", "locations"]);
+    expect(api.callsTo("locations")).toHaveLength(1);
+  });
+
+  it("reporta os userErrors do productCreate por handle sem interromper a importação", async () => {
+    const validation = await validateCsv();
+    api.injectUserErrors("productCreate", [{ field: ["handle"], message: "Handle has already been taken" }]);
+
+    const events = await importProducts(validation);
+    const complete = events.at(-1);
+    expect(complete).toMatchObject({ type: "complete", success: true, imported: 1, failed: 1 });
+    expect(complete.errors).toEqual([{ handle: expect.any(String), reason: "Handle has already been taken" }]);
+    expect(api.store.products.size).toBe(1);
+  });
+
+  it("simula as oito etapas sem enviar mutations e devolve o plano de cada uma", async () => {
+    api.store.collections.set("gid://shopify/Collection/900", {
+      id: "gid://shopify/Collection/900",
+      handle: "kitchen",
+      title: "Kitchen",
+      ruleSet: null,
+      productIds: [],
+      imageUrl: null,
+      publicationIds: [],
+    });
+    const dawn = api.store.mainTheme()!;
+
+    const validation = await validateCsv();
+    const imported = (await importProducts(validation, { importMode: "bulk" }, SIMULATE)).at(-1);
+    expect(imported).toMatchObject({ type: "complete", success: true, imported: 2, runId: null });
+    expect(planOf(imported)).toEqual(expect.arrayContaining([
+      "create product classic-tee",
+      "create product ceramic-mug",
+      "create metafield_definition custom.material",
+    ]));
+
+    const collections: Json = await (await step3Collections(jsonRequest("/api/onboarding/step3-collections", {
+      collections: ["Summer", "Kitchen"],
+      productIds: imported.productIds,
+      products: imported.products,
+      collectionRules: [],
+    }, SIMULATE))).json();
+    expect(collections.success).toBe(true);
+    expect(collections.collections.map((c: Json) => c.id)[1]).toBe("gid://shopify/Collection/900");
+    expect(planOf(collections).filter((c) => c.startsWith("create"))).toEqual([
+      "create collection summer",
+      "create collection best-sellers",
+    ]);
+    expect(planOf(collections)).toContain("update collection gid://shopify/Collection/900");
+
+    const theme: Json = await (await step4Theme(formRequest("/api/onboarding/step4-theme", {
+      themeZip: themeZipFile(THEME_FILES),
+    }, SIMULATE))).json();
+    expect(theme.success).toBe(true);
+    expect(planOf(theme)).toEqual(["create theme VT-PRO - mock-store"]);
+    expect(blobs.size).toBe(0);
+
+    const images: Json = await (await step5Images(formRequest("/api/onboarding/step5-images", {
+      logo: pngFile("logo.png"),
+      favicon: new File(["não é imagem"], "favicon.txt", { type: "text/plain" }),
+      collectionMeta: "[]",
+    }, SIMULATE))).json();
+    expect(images).toMatchObject({ uploaded: 1, failed: 1, errors: [{ key: "favicon", reason: "Tipo não suportado: text/plain" }] });
+    expect(planOf(images)).toEqual(["create file logo"]);
+
+    const configure: Json = await (await step7Configure(jsonRequest("/api/onboarding/step7-configure", {
+      themeId: theme.themeId,
+      logoUrl: images.logoUrl,
+      collections: collections.collections,
+    }, SIMULATE))).json();
+    expect(configure.success).toBe(true);
+    expect(planOf(configure)).toEqual([
+      "create file logo",
+      "overwrite theme_file config/settings_data.json",
+      "overwrite theme_file templates/index.json",
+    ]);
+
+    const publish: Json = await (await step6Publish(jsonRequest("/api/onboarding/step6-publish", {
+      themeId: theme.themeId,
+    }, SIMULATE))).json();
+    expect(publish).toMatchObject({ success: true, themeRole: "MAIN" });
+    expect(planOf(publish)).toEqual([`overwrite theme ${theme.themeId}`]);
+
+    const menus: Json = await (await step8Menus(jsonRequest("/api/onboarding/step8-menus", {
+      collections: collections.collections,
+    }, SIMULATE))).json();
+    expect(menus.errors).toEqual([]);
+    expect(planOf(menus).filter((c) => c.startsWith("create page"))).toHaveLength(7);
+    expect(planOf(menus)).toEqual(expect.arrayContaining(["overwrite menu Main menu", "overwrite menu Footer menu"]));
+
+    expect(api.calls.filter((c) => c.type === "mutation")).toEqual([]);
+    expect(api.store.products.size).toBe(0);
+    expect(api.store.pages.size).toBe(0);
+    expect(api.store.uploads.size).toBe(0);
+    expect(api.store.mainTheme()).toBe(dawn);
+  });
+
+  it("recusa na simulação um .zip de tema sem os arquivos obrigatórios", async () => {
+    const res = await step4Theme(formRequest("/api/onboarding/step4-theme", {
+      themeZip: themeZipFile({
+        "layout/theme.liquid": THEME_FILES["layout/theme.liquid"],
+        "config/settings_data.json": THEME_FILES["config/settings_data.json"],
+      }),
+    }, SIMULATE));
+    expect(await res.json()).toMatchObject({
+      success: false,
+      errors: ["Arquivo obrigatório ausente no tema: templates/index.json"],
+    });
+
+    const invalid = await step4Theme(formRequest("/api/onboarding/step4-theme", {
+      themeZip: new File(["texto"], "theme.zip", { type: "application/zip" }),
+    }, SIMULATE));
+    expect(await invalid.json()).toMatchObject({ success: false, errors: ["O arquivo não é um .zip válido."] });
+  });
+
+  it("vincula a imagem da variante à mídia certa mesmo quando uma mídia do produto é recusada", async () => {
+    const csv = [
+      "Handle,Title,Option1 Name,Option1 Value,Variant Price,Image Src,Image Alt Text,Variant Image",
+      "hoodie,Hoodie,Color,Red,50,imagem-local.jpg,Hoodie local,",
+      "hoodie,,,Blue,50,https://images.example.com/hoodie-red.jpg,Hoodie vermelho,https://images.example.com/hoodie-red.jpg",
+      "hoodie,,,Green,50,https://images.example.com/hoodie-blue.jpg,Hoodie azul,https://images.example.com/hoodie-blue.jpg",
+    ].join("\n");
+    const res = await step2Products(formRequest("/api/onboarding/step2-products", {
+      csv: new File([csv], "products.csv", { type: "text/csv" }),
+      encoding: "utf-8",
+      delimiter: ",",
+      totalProducts: "1",
+    }));
+    expect((await readEvents(res)).at(-1)).toMatchObject({ type: "complete", imported: 1 });
+
+    const hoodie = product("hoodie");
+    const mediaId = (alt: string) => hoodie.media.find((m) => m.alt === alt)?.id;
+    expect(hoodie.media.map((m) => m.alt)).toEqual(["Hoodie vermelho", "Hoodie azul"]);
+    expect(hoodie.variants.map((v) => v.mediaIds)).toEqual([[], [mediaId("Hoodie vermelho")], [mediaId("Hoodie azul")]]);
+  });
+
+  it("cancela a importação pelo token e ainda entrega o evento cancelled do servidor", async () => {
+    const validation = await validateCsv();
+    const res = await step2Products(formRequest("/api/onboarding/step2-products", {
+      csv: fixtureFile("products.csv", "text/csv"),
+      encoding: validation.encoding,
+      delimiter: validation.delimiter,
+      totalProducts: String(validation.totalProducts),
+      importMode: "bulk",
+    }, { "X-Onboarding-Cancel": "etapa-2" }));
+
+    const events: Json[] = [];
+    for await (const event of streamEvents(res)) {
+      events.push(event);
+      if (events.length === 1) {
+        const cancel = await cancelStep(jsonRequest("/api/onboarding/cancel", { token: "etapa-2" }));
+        expect(await cancel.json()).toEqual({ success: true });
+      }
+    }
+
+    expect(events[0]).toMatchObject({ type: "progress" });
+    expect(events.at(-1)).toMatchObject({ type: "cancelled", success: false, total: 2 });
+    // A publicação em massa não chega a rodar.
+    expect(api.store.bulkOperations.size).toBeLessThanOrEqual(1);
+
+    // Terminada a etapa, o token sai do registro.
+    const late = await cancelStep(jsonRequest("/api/onboarding/cancel", { token: "etapa-2" }));
+    expect(await late.json()).toEqual({ success: false });
+  });
+
+  it("devolve os userErrors do themePublish sem trocar o tema principal", async () => {
+    const dawn = api.store.mainTheme()!;
+    api.injectUserErrors("themePublish", [{ field: ["id"], message: "Theme files are invalid" }]);
+
+    const res = await step6Publish(jsonRequest("/api/onboarding/step6-publish", { themeId: "gid://shopify/OnlineStoreTheme/1" }));
+    expect(await res.json()).toMatchObject({ success: false, errors: ["Theme files are invalid"] });
+    expect(api.store.mainTheme()).toBe(dawn);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { ProductImportInput, VariantImportInput } from "@/lib/product-mapper";
+import {
+  applyPriceRule,
+  applyPriceRules,
+  findPriceRule,
+  parsePriceRules,
+  toVariantInput,
+  type PriceRule,
+} from "@/lib/price-rules";
+
+function variant(price: string, cost?: string): VariantImportInput {
+  return {
+    price,
+    inventoryItem: cost === undefined ? undefined : { cost },
+    optionValues: [{ name: "Default Title", optionName: "Title" }],
+  };
+}
+
+function product(overrides: Partial<ProductImportInput> = {}): ProductImportInput {
+  return {
+    handle: "camiseta",
+    title: "Camiseta",
+    descriptionHtml: "",
+    vendor: "Acme",
+    productType: "Roupas",
+    tags: [],
+    status: "ACTIVE",
+    ...overrides,
+  };
+}
+
+describe("parsePriceRules", () => {
+  it("devolve lista vazia para JSON inválido ou que não é lista", () => {
+    expect(parsePriceRules("{")).toEqual([]);
+    expect(parsePriceRules('{"markup":{"type":"percent","value":10}}')).toEqual([]);
+    expect(parsePriceRules(undefined)).toEqual([]);
+  });
+
+  it("descarta campos fora do formato e mantém o resto da regra", () => {
+    const rules = parsePriceRules(JSON.stringify([
+      null,
+      {
+        name: "  Atacado ",
+        scope: { vendor: "  Acme ", tag: " " },
+        base: "margem",
+        markup: { type: "percent", value: "12,5" },
+        rounding: "0.95",
+        minMarginPercent: 100,
+        compareAtPercent: -5,
+      },
+      { markup: { type: "dobro", value: 2 } },
+    ]));
+
+    expect(rules).toEqual([
+      { name: "Atacado", scope: { vendor: "Acme" }, markup: { type: "percent", value: 12.5 } },
+      {},
+    ]);
+  });
+});
+
+describe("findPriceRule", () => {
+  const rules: PriceRule[] = [
+    { name: "fornecedor", scope: { vendor: "Outra" } },
+    { name: "promo", scope: { tag: "promo" } },
+    { name: "geral" },
+  ];
+
+  it("usa a primeira regra cujo escopo casa, sem diferenciar caixa nem espaços", () => {
+    expect(findPriceRule(product({ tags: ["PROMO "] }), rules)?.name).toBe("promo");
+  });
+
+  it("cai na regra sem escopo quando nenhuma outra casa", () => {
+    expect(findPriceRule(product(), rules)?.name).toBe("geral");
+    expect(findPriceRule(product(), rules.slice(0, 2))).toBeUndefined();
+  });
+});
+
+describe("applyPriceRule", () => {
+  it.each([
+    ["10.00", "0.90", "20.90"],
+    ["10.95", "0.90", "21.90"],
+    ["9.995", "0.99", "19.99"],
+    ["5.45", "0.90", "10.90"],
+  ] as const)("dobra %s e arredonda para cima até %s → %s", (price, rounding, expected) => {
+    const priced = applyPriceRule(variant(price), { markup: { type: "percent", value: 100 }, rounding });
+    expect(priced.price).toBe(expected);
+  });
+
+  it("mantém o preço que já termina no arredondamento", () => {
+    expect(applyPriceRule(variant("19.99"), { rounding: "0.99" }).price).toBe("19.99");
+    expect(applyPriceRule(variant("19.90"), { rounding: "0.90" }).price).toBe("19.90");
+  });
+
+  it("calcula sobre o custo e guarda o preço original", () => {
+    const priced = applyPriceRule(variant("100", "40"), { name: "custo", base: "cost", markup: { type: "percent", value: 50 } });
+    expect(priced).toMatchObject({ price: "60.00", originalPrice: "100", priceRule: "custo" });
+  });
+
+  it("usa o preço como base quando não há custo ou o custo é zero", () => {
+    const rule: PriceRule = { base: "cost", markup: { type: "fixed", value: 5 } };
+    expect(applyPriceRule(variant("100"), rule).price).toBe("105.00");
+    expect(applyPriceRule(variant("100", "0"), rule).price).toBe("105.00");
+  });
+
+  it("aceita custo com vírgula decimal", () => {
+    const priced = applyPriceRule(variant("100", "40,50"), { base: "cost" });
+    expect(priced.price).toBe("40.50");
+  });
+
+  it("sobe o preço até a margem mínima sobre o custo", () => {
+    const priced = applyPriceRule(variant("100", "40"), {
+      base: "cost",
+      markup: { type: "percent", value: 10 },
+      minMarginPercent: 50,
+    });
+    expect(priced.price).toBe("80.00");
+  });
+
+  it("ignora a margem mínima sem custo", () => {
+    expect(applyPriceRule(variant("30"), { minMarginPercent: 50 }).price).toBe("30.00");
+  });
+
+  it("nunca deixa o preço negativo", () => {
+    expect(applyPriceRule(variant("10"), { markup: { type: "fixed", value: -20 } }).price).toBe("0.00");
+  });
+
+  it("gera o compareAtPrice a partir do preço final, com o mesmo arredondamento", () => {
+    const priced = applyPriceRule(
+      { ...variant("100"), compareAtPrice: "150.00" },
+      { markup: { type: "percent", value: 10 }, rounding: "0.90", compareAtPercent: 20 }
+    );
+    expect(priced).toMatchObject({ price: "110.90", compareAtPrice: "133.90" });
+  });
+
+  it("não mexe em variante com preço que não é número", () => {
+    const original = variant("sob consulta");
+    expect(applyPriceRule(original, { markup: { type: "percent", value: 10 } })).toBe(original);
+  });
+
+  it("não registra preço original quando o preço não muda", () => {
+    const priced = applyPriceRule(variant("10.00"), {});
+    expect(priced.originalPrice).toBeUndefined();
+    expect(priced.priceRule).toBe("Regra de preço");
+  });
+});
+
+describe("applyPriceRules", () => {
+  it("devolve as variantes intactas quando nenhuma regra casa", () => {
+    const variants = [variant("10")];
+    expect(applyPriceRules(product(), variants, [{ scope: { vendor: "Outra" } }])).toBe(variants);
+  });
+
+  it("toVariantInput tira os campos informativos", () => {
+    const [priced] = applyPriceRules(product(), [variant("10")], [{ name: "r", markup: { type: "fixed", value: 1 } }]);
+    const input = toVariantInput(priced);
+    expect(input.price).toBe("11.00");
+    expect(input).not.toHaveProperty("originalPrice");
+    expect(input).not.toHaveProperty("priceRule");
+  });
+});
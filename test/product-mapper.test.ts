@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { LOCATION_QTY_PREFIX, buildVariants, normalizeDecimal } from "@/lib/product-mapper";
+
+describe("normalizeDecimal", () => {
+  it.each([
+    ["99.90", "99.90"],
+    ["99,90", "99.90"],
+    ["1.234,56", "1234.56"],
+    ["1,234.56", "1234.56"],
+    ["1.234.567,89", "1234567.89"],
+    [" 10 ", "10"],
+    ["-5,5", "-5.5"],
+  ])("%s vira %s", (raw, expected) => {
+    expect(normalizeDecimal(raw)).toBe(expected);
+  });
+
+  it("devolve texto que não é número para a validação acusar", () => {
+    expect(normalizeDecimal("grátis")).toBe("grátis");
+    expect(Number.isNaN(Number(normalizeDecimal("R$ 10")))).toBe(true);
+  });
+});
+
+describe("buildVariants: estoque por location", () => {
+  const row = (columns: Record<string, string>) => ({
+    Handle: "camiseta",
+    Title: "Camiseta",
+    "Option1 Name": "Title",
+    "Option1 Value": "Default Title",
+    "Variant Price": "10.00",
+    ...columns,
+  });
+  const secondary = { id: "gid://shopify/Location/2", name: "Depósito", isPrimary: false };
+  const primary = { id: "gid://shopify/Location/1", name: "Loja", isPrimary: true };
+
+  it("põe Variant Inventory Qty na location principal, seja qual for a ordem da lista", () => {
+    const [variant] = buildVariants([row({ "Variant Inventory Qty": "5" })], [secondary, primary]);
+    expect(variant.inventoryQuantities).toEqual([{ locationId: primary.id, availableQuantity: 5 }]);
+  });
+
+  it("avisa em vez de chutar uma location quando a loja não tem principal", () => {
+    const issues: string[] = [];
+    const [variant] = buildVariants(
+      [row({ "Variant Inventory Qty": "5", [`${LOCATION_QTY_PREFIX}Depósito`]: "2" })],
+      [secondary, { ...primary, isPrimary: false }],
+      (issue) => issues.push(issue)
+    );
+    expect(variant.inventoryQuantities).toEqual([{ locationId: secondary.id, availableQuantity: 2 }]);
+    expect(issues).toEqual([expect.stringContaining("não tem location principal")]);
+  });
+
+  it("reporta a location desconhecida e mantém as demais quantidades", () => {
+    const issues: string[] = [];
+    const [variant] = buildVariants(
+      [row({ [`${LOCATION_QTY_PREFIX}loja`]: "3", [`${LOCATION_QTY_PREFIX}Galpão`]: "7" })],
+      [secondary, primary],
+      (issue) => issues.push(issue)
+    );
+    expect(variant.inventoryQuantities).toEqual([{ locationId: primary.id, availableQuantity: 3 }]);
+    expect(issues).toEqual(['Location "Galpão" não existe na loja; estoque ignorado']);
+  });
+});
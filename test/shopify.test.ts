@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { forEachConcurrent, mapConcurrent } from "@/lib/shopify";
+
+const tick = (ms = 5) => new Promise((r) => setTimeout(r, ms));
+
+describe("forEachConcurrent", () => {
+  it("respeita o limite de tarefas em andamento", async () => {
+    let active = 0;
+    let peak = 0;
+    await forEachConcurrent([1, 2, 3, 4, 5, 6], 2, async () => {
+      peak = Math.max(peak, ++active);
+      await tick();
+      active--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it("relança o primeiro erro só depois que as tarefas em andamento terminam", async () => {
+    const finished: number[] = [];
+    const run = forEachConcurrent([1, 2, 3, 4], 3, async (n) => {
+      await tick(n === 1 ? 1 : 20);
+      if (n === 1) throw new Error("falhou 1");
+      finished.push(n);
+    });
+    await expect(run).rejects.toThrow("falhou 1");
+    expect(finished).toEqual([2, 3]);
+  });
+
+  it("trata throw síncrono de fn como falha da tarefa", async () => {
+    const finished: number[] = [];
+    const run = forEachConcurrent([1, 2], 2, ((n: number) => {
+      if (n === 2) throw new Error("síncrono");
+      return tick(20).then(() => {
+        finished.push(n);
+      });
+    }) as (n: number) => Promise<void>);
+    await expect(run).rejects.toThrow("síncrono");
+    expect(finished).toEqual([1]);
+  });
+
+  it("espera as tarefas em andamento quando o iterável falha", async () => {
+    const finished: number[] = [];
+    async function* items() {
+      yield 1;
+      yield 2;
+      throw new Error("CSV inválido");
+    }
+    const run = forEachConcurrent(items(), 4, async (n) => {
+      await tick(20);
+      finished.push(n);
+    });
+    await expect(run).rejects.toThrow("CSV inválido");
+    expect(finished).toEqual([1, 2]);
+  });
+
+  it("para de consumir com o signal abortado, sem erro", async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+    await forEachConcurrent([1, 2, 3, 4], 1, async (n) => {
+      seen.push(n);
+      if (n === 2) controller.abort();
+    }, controller.signal);
+    expect(seen).toEqual([1, 2]);
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("devolve os resultados na ordem original", async () => {
+    const result = await mapConcurrent([30, 10, 20], 3, async (ms) => {
+      await tick(ms);
+      return ms * 2;
+    });
+    expect(result).toEqual([60, 20, 40]);
+  });
+});
@@ -38,10 +38,31 @@ export interface StepResult {
   errors?: string[];
 }
 
+export type ImportFormat = "csv" | "xlsx" | "xls" | "ods";
+
+export type CsvIssueSeverity = "error" | "warning";
+
+export interface CsvIssue {
+  row: number | null;
+  column: string | null;
+  severity: CsvIssueSeverity;
+  code: string;
+  message: string;
+  handle?: string;
+}
+
 export interface CsvValidationResult extends StepResult {
   totalProducts: number;
   warnings: string[];
+  issues: CsvIssue[];
   preview: CsvProduct[];
+  format: ImportFormat;
+  delimiter?: string;
+  encoding?: string;
+  sheets?: string[];
+  sheet?: string;
+  profile?: string;
+  sourceHeaders?: string[];
 }
 
 export interface CsvProduct {
@@ -57,6 +78,16 @@ export interface CsvProduct {
   imagePosition: string;
 }
 
+// Resumo de cada produto criado no step2, usado pelo step3 para montar as coleções.
+export interface ImportedProductSummary {
+  id: string;
+  handle: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  collections: string[];
+}
+
 export interface ProductImportResult extends StepResult {
   totalImported: number;
   productIds: string[];
@@ -82,3 +113,82 @@ export interface ImageUploadResult extends StepResult {
 export interface ThemePublishResult extends StepResult {
   themeRole: string;
 }
+
+export interface CatalogPreviewVariant {
+  optionValues: { optionName: string; name: string }[];
+  sku: string;
+  price: string;
+  compareAtPrice?: string;
+  barcode?: string;
+  inventoryPolicy?: "DENY" | "CONTINUE";
+  // Preço da planilha antes da regra de preço aplicada.
+  originalPrice?: string;
+  priceRule?: string;
+  // Estoque por location ("Principal" = coluna Variant Inventory Qty).
+  inventory: { location: string; quantity: number }[];
+  image?: string;
+}
+
+export interface CatalogPreviewProduct {
+  handle: string;
+  title: string;
+  vendor: string;
+  productType: string;
+  descriptionHtml: string;
+  // Resumo do que a limpeza de HTML removeu, quando algo mudou.
+  sanitizeReport?: string;
+  tags: string[];
+  status: "ACTIVE" | "DRAFT" | "ARCHIVED";
+  published: boolean;
+  options: { name: string; values: string[] }[];
+  variants: CatalogPreviewVariant[];
+  images: { src: string; alt: string }[];
+  priceRange: { min: string; max: string };
+  issues: CsvIssue[];
+}
+
+export interface CatalogPreviewPage {
+  products: CatalogPreviewProduct[];
+  page: number;
+  pageSize: number;
+  totalProducts: number;
+  totalPages: number;
+  query: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// Resultado do dry-run do step2: o que a importação mudaria na loja, sem gravar nada.
+export interface ProductChangeReport {
+  handle: string;
+  action: "create" | "update" | "unchanged";
+  productId?: string;
+  fields: FieldChange[];
+  tags: { added: string[]; removed: string[] };
+  variants: {
+    added: string[];
+    removed: string[];
+    updated: { variant: string; changes: FieldChange[] }[];
+  };
+  images: { added: string[]; removed: string[] };
+}
+
+// Mutation que a simulação do pipeline registrou em vez de enviar à loja.
+export interface PlannedChange {
+  step: number;
+  action: "create" | "update" | "overwrite";
+  resource: "product" | "metafield_definition" | "collection" | "theme" | "theme_file" | "file" | "page" | "menu";
+  target: string;
+  detail?: string;
+  mutation: string;
+}
+
+export interface SimulationReport {
+  plan: PlannedChange[];
+  // Todas as mutations registradas por nome, inclusive as auxiliares que não entram no plano.
+  mutations: Record<string, number>;
+}